@@ -1,20 +1,36 @@
 "use client"
 
 import { UserButton } from "@clerk/nextjs"
-import { useQuery, useMutation } from "convex/react"
+import { useState } from "react"
+import { useQuery, useMutation, useAction } from "convex/react"
 import { api } from "@/convex/_generated/api"
 import { useRouter } from "next/navigation"
 import { Id } from "@/convex/_generated/dataModel"
+import type { Framework, TemplateId } from "@/convex/templateRegistry"
+
+const FRAMEWORK_LABELS: Record<Framework, string> = {
+  react: "React",
+  nextjs: "Next.js",
+  html: "HTML",
+}
 
 export default function DashboardPage() {
   const router = useRouter()
   const projects = useQuery(api.projects.getProjects)
+  const templates = useQuery(api.templateRegistry.listTemplates)
   const createEmptyProject = useMutation(api.projects.createEmptyProject)
   const deleteProject = useMutation(api.projects.deleteProject)
+  const generateArchiveUploadUrl = useMutation(
+    api.projects.generateArchiveUploadUrl,
+  )
+  const importRepository = useAction(api.templateImport.importRepository)
+  const importArchive = useAction(api.templateImport.importArchive)
+  const [repositoryUrl, setRepositoryUrl] = useState("")
+  const [isImporting, setIsImporting] = useState(false)
 
-  const handleCreateProject = async () => {
+  const handleCreateProject = async (templateId: TemplateId) => {
     try {
-      const projectId = await createEmptyProject()
+      const projectId = await createEmptyProject({ templateId })
       // Auto-redirect to the new project
       router.push(`/project/${projectId}`)
     } catch (error) {
@@ -23,6 +39,52 @@ export default function DashboardPage() {
     }
   }
 
+  // Creates the project first so the import has somewhere to write, and
+  // removes it again if the import fails
+  const runImport = async (
+    importInto: (projectId: Id<"projects">) => Promise<unknown>,
+  ) => {
+    setIsImporting(true)
+    let projectId: Id<"projects"> | null = null
+    try {
+      projectId = await createEmptyProject({})
+      await importInto(projectId)
+      router.push(`/project/${projectId}`)
+    } catch (error) {
+      console.error("Failed to import project:", error)
+      if (projectId) {
+        await deleteProject({ projectId }).catch(() => {})
+      }
+      alert(
+        error instanceof Error
+          ? error.message
+          : "Failed to import project. Please try again.",
+      )
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleImportRepository = async () => {
+    const url = repositoryUrl.trim()
+    if (!url) return
+    await runImport((projectId) => importRepository({ projectId, url }))
+  }
+
+  const handleImportArchive = async (file: File) => {
+    await runImport(async (projectId) => {
+      const uploadUrl = await generateArchiveUploadUrl()
+      const response = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": file.type || "application/octet-stream" },
+        body: file,
+      })
+      if (!response.ok) throw new Error("Failed to upload archive")
+      const { storageId } = await response.json()
+      await importArchive({ projectId, storageId, fileName: file.name })
+    })
+  }
+
   const handleDeleteProject = async (projectId: Id<"projects">) => {
     if (!confirm("Are you sure you want to delete this project?")) return
     await deleteProject({ projectId })
@@ -41,22 +103,81 @@ export default function DashboardPage() {
         <div className="mb-8">
           <h2 className="text-3xl font-bold mb-2">Your Projects</h2>
           <p className="text-muted-foreground">
-            Create and manage your React and Next.js projects
+            Create and manage your React, Next.js and HTML projects
           </p>
         </div>
 
         <div className="grid gap-4">
-          <button
-            onClick={handleCreateProject}
-            className="p-8 border-2 border-dashed border-border rounded-lg hover:border-primary hover:bg-accent transition-colors text-left"
-          >
+          <div className="p-6 border-2 border-dashed border-border rounded-lg">
             <div className="text-lg font-semibold mb-1">
               + Create New Project
             </div>
-            <div className="text-sm text-muted-foreground">
-              Start a new React or Next.js project
+            <div className="text-sm text-muted-foreground mb-4">
+              Pick a starter to build on
+            </div>
+            <div className="grid gap-3 sm:grid-cols-3">
+              {templates?.map((template) => (
+                <button
+                  key={template.id}
+                  onClick={() => handleCreateProject(template.id)}
+                  className="p-4 border border-border rounded-lg hover:border-primary hover:bg-accent transition-colors text-left"
+                >
+                  <div className="font-semibold mb-1">{template.name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {template.description}
+                  </div>
+                </button>
+              ))}
+            </div>
+            <div className="mt-4 pt-4 border-t border-border">
+              <div className="text-sm text-muted-foreground mb-2">
+                Or import a GitHub repository or a .tar.gz/.zip archive
+              </div>
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  handleImportRepository()
+                }}
+              >
+                <input
+                  type="text"
+                  value={repositoryUrl}
+                  onChange={(e) => setRepositoryUrl(e.target.value)}
+                  placeholder="https://github.com/owner/repo/tree/main/path"
+                  disabled={isImporting}
+                  className="flex-1 px-3 py-2 text-sm border border-border rounded-lg bg-background"
+                />
+                <button
+                  type="submit"
+                  disabled={isImporting || !repositoryUrl.trim()}
+                  className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                >
+                  {isImporting ? "Importing..." : "Import"}
+                </button>
+                <label
+                  className={`px-4 py-2 border border-border rounded-lg transition-colors ${
+                    isImporting
+                      ? "opacity-50"
+                      : "cursor-pointer hover:bg-accent"
+                  }`}
+                >
+                  Upload archive
+                  <input
+                    type="file"
+                    accept=".zip,.tar.gz,.tgz"
+                    disabled={isImporting}
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      e.target.value = ""
+                      if (file) handleImportArchive(file)
+                    }}
+                  />
+                </label>
+              </form>
             </div>
-          </button>
+          </div>
 
           {projects === undefined ? (
             <div className="text-sm text-muted-foreground text-center py-12">
@@ -78,7 +199,7 @@ export default function DashboardPage() {
                       {project.name}
                     </h3>
                     <p className="text-sm text-muted-foreground mb-2">
-                      {project.framework === "react" ? "React" : "Next.js"}
+                      {FRAMEWORK_LABELS[project.framework]}
                     </p>
                     <p className="text-xs text-muted-foreground">
                       Created {new Date(project.createdAt).toLocaleDateString()}
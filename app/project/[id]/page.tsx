@@ -1,6 +1,6 @@
 "use client"
 
-import { use, useState, useEffect, useRef } from "react"
+import { Fragment, use, useState, useEffect, useRef } from "react"
 import { useQuery, useMutation, useAction } from "convex/react"
 import { api } from "@/convex/_generated/api"
 import { Id } from "@/convex/_generated/dataModel"
@@ -15,11 +15,23 @@ import {
   MessageContent,
   MessageResponse,
 } from "@/components/ai-elements/message"
+import { MessageParts } from "@/components/MessageParts"
+import { isStreamLive } from "@/convex/messageParts"
 import { PreviewPanel } from "@/components/PreviewPanel"
 import { CodePanel } from "@/components/CodePanel"
+import { TerminalPanel } from "@/components/TerminalPanel"
+import { useSandboxSync } from "@/hooks/useSandboxSync"
+import { useSandboxKeepAlive } from "@/hooks/useSandboxKeepAlive"
+import { useDevServerLogs } from "@/hooks/useDevServerLogs"
 import { FileSyncTest } from "@/components/FileSyncTest"
 import Link from "next/link"
-import { CornerDownLeftIcon } from "lucide-react"
+import { Loader } from "@/components/ai-elements/loader"
+import {
+  Checkpoint,
+  CheckpointIcon,
+  CheckpointTrigger,
+} from "@/components/ai-elements/checkpoint"
+import { CornerDownLeftIcon, SquareIcon } from "lucide-react"
 
 export default function ProjectPage({
   params,
@@ -30,9 +42,9 @@ export default function ProjectPage({
   const projectId = id as Id<"projects">
   const [previewUrl, setPreviewUrl] = useState<string | undefined>(undefined)
   const [isServerRunning, setIsServerRunning] = useState(false)
-  const [activeTab, setActiveTab] = useState<"preview" | "code" | "test">(
-    "preview",
-  )
+  const [activeTab, setActiveTab] = useState<
+    "preview" | "code" | "terminal" | "test"
+  >("preview")
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isEditingTitle, setIsEditingTitle] = useState(false)
   const [editedTitle, setEditedTitle] = useState("")
@@ -41,7 +53,10 @@ export default function ProjectPage({
   const project = useQuery(api.projects.getProject, { projectId })
   const messages = useQuery(api.messages.getMessages, { projectId })
   const files = useQuery(api.files.getProjectFiles, { projectId })
+  const sandbox = useQuery(api.sandboxes.getProjectSandbox, { projectId })
+  const checkpoints = useQuery(api.checkpoints.getCheckpoints, { projectId })
   const createMessage = useMutation(api.messages.createMessage)
+  const cancelMessage = useMutation(api.messages.cancelMessage)
   const updateProjectFromMessage = useMutation(
     api.projects.updateProjectFromMessage,
   )
@@ -52,21 +67,54 @@ export default function ProjectPage({
   const createSandbox = useAction(api.sandbox.createSandbox)
   const startDevServer = useAction(api.sandbox.startDevServer)
   const stopDevServer = useAction(api.sandbox.stopDevServer)
-  const destroySandbox = useAction(api.sandbox.destroySandbox)
+  const runAgent = useAction(api.agent.runAgent)
+  const respondToApproval = useAction(api.agent.respondToApproval)
+  const restoreCheckpoint = useAction(api.checkpoints.restoreCheckpoint)
+  const [restoringCheckpointId, setRestoringCheckpointId] =
+    useState<Id<"checkpoints"> | null>(null)
 
   const isFirstMessage = messages?.length === 0
 
-  // Cleanup: Destroy sandbox when leaving the page
+  // Time the streaming leases are checked against, moved on when one is
+  // due to run out in case its run died
+  const [now, setNow] = useState(() => Date.now())
+  const streamingUntil = messages?.reduce(
+    (latest, m) =>
+      m.status === "streaming"
+        ? Math.max(latest, m.streamingUntil ?? 0)
+        : latest,
+    0,
+  )
   useEffect(() => {
-    return () => {
-      // Cleanup function runs when component unmounts
-      if (project?.sandboxId) {
-        destroySandbox({ sandboxId: project.sandboxId }).catch((err) =>
-          console.error("Failed to destroy sandbox on unmount:", err),
-        )
-      }
-    }
-  }, [project?.sandboxId, destroySandbox])
+    if (!streamingUntil) return
+    const timer = setTimeout(
+      () => setNow(Date.now()),
+      Math.max(streamingUntil - Date.now(), 0) + 1000,
+    )
+    return () => clearTimeout(timer)
+  }, [streamingUntil])
+
+  // Checkpoints are shown above the reply whose turn they precede
+  const checkpointByMessage = new Map(
+    checkpoints?.map((checkpoint) => [checkpoint.messageId, checkpoint]),
+  )
+
+  // A reply that is still generating or paused waiting for approval. One
+  // whose run died stops counting once its lease runs out, so the chat
+  // isn't locked forever.
+  const activeMessage = messages?.find(
+    (m) => isStreamLive(m, now) || m.status === "awaiting-approval",
+  )
+
+  // Keep the sandbox running while the project is open; once left, the
+  // reaper pauses it and it's resumed on return
+  useSandboxKeepAlive(projectId, project?.sandboxId)
+
+  // Pick up files changed inside the sandbox
+  useSandboxSync(projectId, project?.sandboxId)
+
+  // Stream the dev server's output into the preview console
+  useDevServerLogs(projectId, project?.devServerPid)
 
   // Sync preview URL from project
   useEffect(() => {
@@ -82,7 +130,8 @@ export default function ProjectPage({
   // Auto-create sandbox when files are ready
   useEffect(() => {
     const initializeSandbox = async () => {
-      // Guard conditions: only create if we don't have a sandbox, files exist, and we're not already creating one
+      // Guard conditions: only create if we don't have a sandbox, files exist, and we're not already creating one.
+      // createSandbox itself skips projects whose sandbox another tab is creating.
       if (
         !project?.sandboxId &&
         project &&
@@ -180,13 +229,9 @@ export default function ProjectPage({
         content: text,
       })
 
-      // TODO: Here we'll add AI agent integration to generate response
-      // For now, just create a placeholder assistant message
-      await createMessage({
-        projectId,
-        role: "assistant",
-        content: "I'll help you build that! (AI agent integration coming soon)",
-      })
+      // Run the agent - it reads the conversation, edits files and
+      // writes its reply as an assistant message
+      await runAgent({ projectId })
     } catch (error) {
       console.error("Failed to send message:", error)
     } finally {
@@ -194,6 +239,45 @@ export default function ProjectPage({
     }
   }
 
+  const handleStop = async () => {
+    if (!activeMessage) return
+
+    try {
+      await cancelMessage({ messageId: activeMessage._id })
+    } catch (error) {
+      console.error("Failed to stop generation:", error)
+    }
+  }
+
+  const handleRestoreCheckpoint = async (checkpointId: Id<"checkpoints">) => {
+    const confirmed = confirm(
+      "Restore all files to this checkpoint? Changes made since then will be lost.",
+    )
+    if (!confirmed) return
+
+    setRestoringCheckpointId(checkpointId)
+    try {
+      await restoreCheckpoint({ checkpointId })
+    } catch (error) {
+      console.error("Failed to restore checkpoint:", error)
+      alert(
+        error instanceof Error ? error.message : "Failed to restore checkpoint",
+      )
+    } finally {
+      setRestoringCheckpointId(null)
+    }
+  }
+
+  // Resolves once the resumed run finishes or pauses again. Failures are
+  // shown next to the approval buttons.
+  const handleApprovalResponse = async (
+    messageId: Id<"messages">,
+    approvalId: string,
+    approved: boolean,
+  ) => {
+    await respondToApproval({ messageId, approvalId, approved })
+  }
+
   if (!project) {
     return (
       <div className="h-screen flex items-center justify-center bg-background">
@@ -267,13 +351,66 @@ export default function ProjectPage({
                     </div>
                   </div>
                 ) : (
-                  messages.map((message) => (
-                    <Message key={message._id} from={message.role}>
-                      <MessageContent>
-                        <MessageResponse>{message.content}</MessageResponse>
-                      </MessageContent>
-                    </Message>
-                  ))
+                  messages.map((message) => {
+                    const checkpoint = checkpointByMessage.get(message._id)
+                    const isStreaming = isStreamLive(message, now)
+                    return (
+                      <Fragment key={message._id}>
+                        {checkpoint && (
+                          <Checkpoint>
+                            <CheckpointIcon />
+                            <CheckpointTrigger
+                              tooltip="Restore all files to how they were before this reply"
+                              disabled={
+                                !!activeMessage ||
+                                restoringCheckpointId !== null
+                              }
+                              onClick={() =>
+                                handleRestoreCheckpoint(checkpoint._id)
+                              }
+                            >
+                              {restoringCheckpointId === checkpoint._id
+                                ? "Restoring..."
+                                : "Restore checkpoint"}
+                            </CheckpointTrigger>
+                          </Checkpoint>
+                        )}
+                        <Message from={message.role}>
+                          <MessageContent>
+                            {message.parts && message.parts.length > 0 ? (
+                              <MessageParts
+                                parts={message.parts}
+                                isStreaming={isStreaming}
+                                onApprovalResponse={(approvalId, approved) =>
+                                  handleApprovalResponse(
+                                    message._id,
+                                    approvalId,
+                                    approved,
+                                  )
+                                }
+                              />
+                            ) : isStreaming ? (
+                              <Loader />
+                            ) : (
+                              <MessageResponse>
+                                {message.content}
+                              </MessageResponse>
+                            )}
+                            {message.status === "error" && !message.parts && (
+                              <p className="text-sm text-destructive">
+                                {message.error || "Something went wrong"}
+                              </p>
+                            )}
+                            {message.status === "streaming" && !isStreaming && (
+                              <p className="text-sm text-destructive">
+                                The agent stopped responding
+                              </p>
+                            )}
+                          </MessageContent>
+                        </Message>
+                      </Fragment>
+                    )
+                  })
                 )}
               </ConversationContent>
             </Conversation>
@@ -297,7 +434,7 @@ export default function ProjectPage({
                 name="message"
                 className="w-full resize-none rounded-lg border border-input bg-background px-4 py-3 pr-12 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
                 placeholder="Describe what you want to build..."
-                disabled={isSubmitting}
+                disabled={isSubmitting || !!activeMessage}
                 rows={3}
                 onKeyDown={(e) => {
                   if (e.key === "Enter" && !e.shiftKey) {
@@ -306,18 +443,32 @@ export default function ProjectPage({
                   }
                 }}
               />
-              <Button
-                type="submit"
-                size="sm"
-                disabled={isSubmitting}
-                className="absolute bottom-3 right-3"
-              >
-                {isSubmitting ? (
-                  "Sending..."
-                ) : (
-                  <CornerDownLeftIcon className="h-4 w-4" />
-                )}
-              </Button>
+              {activeMessage ? (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={handleStop}
+                  disabled={activeMessage.cancelRequested}
+                  className="absolute bottom-3 right-3"
+                  title="Stop generating"
+                >
+                  <SquareIcon className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  size="sm"
+                  disabled={isSubmitting}
+                  className="absolute bottom-3 right-3"
+                >
+                  {isSubmitting ? (
+                    "Sending..."
+                  ) : (
+                    <CornerDownLeftIcon className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
             </form>
           </div>
         </div>
@@ -341,6 +492,13 @@ export default function ProjectPage({
               >
                 Code
               </Button>
+              <Button
+                variant={activeTab === "terminal" ? "default" : "ghost"}
+                size="sm"
+                onClick={() => setActiveTab("terminal")}
+              >
+                Terminal
+              </Button>
               <Button
                 variant={activeTab === "test" ? "default" : "ghost"}
                 size="sm"
@@ -352,17 +510,48 @@ export default function ProjectPage({
 
             {/* Stop/Start Button */}
             <div className="flex items-center gap-2">
-              {isServerRunning && (
+              {sandbox?.state === "paused" ? (
+                <div className="flex items-center gap-2">
+                  <div className="w-2 h-2 rounded-full bg-yellow-500 animate-pulse" />
+                  <span className="text-xs text-muted-foreground">
+                    Resuming sandbox
+                  </span>
+                </div>
+              ) : isServerRunning ? (
                 <div className="flex items-center gap-2">
                   <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
                   <span className="text-xs text-muted-foreground">Running</span>
                 </div>
-              )}
+              ) : sandbox?.state === "provisioning" ||
+                sandbox?.state === "installing" ? (
+                <div className="flex items-center gap-2">
+                  <div className="w-2 h-2 rounded-full bg-yellow-500 animate-pulse" />
+                  <span className="text-xs text-muted-foreground">
+                    {sandbox.state === "provisioning"
+                      ? "Creating sandbox"
+                      : "Installing dependencies"}
+                  </span>
+                </div>
+              ) : sandbox?.state === "dead" && sandbox.lastError ? (
+                <div
+                  className="flex items-center gap-2"
+                  title={sandbox.lastError}
+                >
+                  <div className="w-2 h-2 rounded-full bg-destructive" />
+                  <span className="text-xs text-muted-foreground">
+                    Sandbox failed
+                  </span>
+                </div>
+              ) : null}
               <Button
                 variant="outline"
                 size="sm"
                 onClick={handleToggleServer}
-                disabled={!project?.sandboxId}
+                disabled={
+                  !project?.sandboxId ||
+                  project.devServerStatus === "installing" ||
+                  project.devServerStatus === "starting"
+                }
               >
                 {isServerRunning ? "Stop" : "Start"}
               </Button>
@@ -372,9 +561,19 @@ export default function ProjectPage({
           {/* Content */}
           <div className="flex-1 overflow-hidden">
             {activeTab === "preview" ? (
-              <PreviewPanel previewUrl={previewUrl} />
+              <PreviewPanel
+                projectId={projectId}
+                previewUrl={previewUrl}
+                status={project?.devServerStatus}
+                error={project?.devServerError}
+              />
             ) : activeTab === "code" ? (
               <CodePanel projectId={projectId} />
+            ) : activeTab === "terminal" ? (
+              <TerminalPanel
+                projectId={projectId}
+                sandboxId={project?.sandboxId}
+              />
             ) : (
               <div className="h-full overflow-auto p-4">
                 <FileSyncTest
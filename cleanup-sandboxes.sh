@@ -1,9 +1,10 @@
 #!/bin/bash
 
-# Cleanup script to kill all E2B sandboxes
-# Run this when you have orphaned sandboxes
+# Cleanup script to kill all sandboxes, including other deployments'
+# Orphaned sandboxes are reaped every 30 minutes by the
+# sandboxReaper:reapOrphanSandboxes cron, which this doesn't wait for
 
-echo "Cleaning up all E2B sandboxes..."
+echo "Cleaning up all sandboxes..."
 
 # This uses the Convex CLI to run the cleanup action
 bunx convex run cleanup:killAllSandboxes
@@ -0,0 +1,90 @@
+/**
+ * Asset Preview
+ *
+ * Read-only view of a binary file. Images are displayed, anything else
+ * shows its type and size with a download link.
+ */
+
+"use client"
+
+import { useQuery } from "convex/react"
+import { DownloadIcon, FileIcon } from "lucide-react"
+import { api } from "@/convex/_generated/api"
+import { Id } from "@/convex/_generated/dataModel"
+import { isImageContentType } from "@/convex/contentTypes"
+
+interface AssetPreviewProps {
+  projectId: Id<"projects">
+  storageId: Id<"_storage">
+  path: string
+  contentType: string
+  size?: number
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function AssetPreview({
+  projectId,
+  storageId,
+  path,
+  contentType,
+  size,
+}: AssetPreviewProps) {
+  const url = useQuery(api.fileAssets.getAssetUrl, { projectId, storageId })
+  const name = path.split("/").pop() ?? path
+
+  if (url === undefined) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+        Loading preview...
+      </div>
+    )
+  }
+
+  if (url === null) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+        This file&apos;s contents are no longer available
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-1 overflow-auto flex items-center justify-center p-6 bg-[repeating-conic-gradient(var(--muted)_0%_25%,transparent_0%_50%)] bg-[length:16px_16px]">
+        {isImageContentType(contentType) ? (
+          // Blob URLs from file storage, not something next/image can optimize
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={url}
+            alt={name}
+            className="max-w-full max-h-full object-contain shadow-sm"
+          />
+        ) : (
+          <div className="flex flex-col items-center gap-2 text-muted-foreground">
+            <FileIcon className="h-10 w-10" />
+            <span className="text-sm">Binary file, no preview available</span>
+          </div>
+        )}
+      </div>
+      <div className="border-t border-border px-4 py-2 flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {contentType}
+          {size !== undefined && ` · ${formatSize(size)}`}
+        </span>
+        <a
+          href={url}
+          download={name}
+          className="flex items-center gap-1 hover:text-foreground transition-colors"
+        >
+          <DownloadIcon className="h-3.5 w-3.5" />
+          Download
+        </a>
+      </div>
+    </div>
+  )
+}
@@ -1,26 +1,231 @@
 "use client"
 
-import { useQuery } from "convex/react"
 import { api } from "@/convex/_generated/api"
 import { Id } from "@/convex/_generated/dataModel"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { FileIcon, FolderIcon, ChevronRightIcon, SaveIcon } from "lucide-react"
-import { useState } from "react"
+import {
+  FileIcon,
+  FileXIcon,
+  FolderIcon,
+  ChevronRightIcon,
+  Columns2Icon,
+  CopyIcon,
+  FilePlusIcon,
+  FolderPlusIcon,
+  HistoryIcon,
+  LoaderCircleIcon,
+  PencilIcon,
+  SaveIcon,
+  SearchIcon,
+  ShieldCheckIcon,
+  Trash2Icon,
+  UploadIcon,
+} from "lucide-react"
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useMutation, useQuery } from "convex/react"
+import { useMonaco } from "@monaco-editor/react"
 import { cn } from "@/lib/utils"
-import { MonacoEditor } from "@/components/MonacoEditor"
+import { MonacoEditor, type EditorReveal } from "@/components/MonacoEditor"
 import { useFileEdit } from "@/hooks/useFileEdit"
+import { useFileOperations } from "@/hooks/useFileOperations"
+import { useEditorTabs } from "@/hooks/useEditorTabs"
+import { useMonacoProject } from "@/hooks/useMonacoProject"
+import { useDiagnostics, type ProblemCount } from "@/hooks/useDiagnostics"
+import { EditorTabs } from "@/components/EditorTabs"
+import { SearchPanel } from "@/components/SearchPanel"
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { FileHistoryPanel } from "@/components/FileHistoryPanel"
+import { AssetPreview } from "@/components/AssetPreview"
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu"
+import {
+  baseName,
+  copyPath,
+  isAtOrInside,
+  joinPath,
+  parentPath,
+} from "@/lib/filePaths"
 
 interface CodePanelProps {
   projectId: Id<"projects">
 }
 
+// Inline name input shown in the tree while creating or renaming
+type TreeEdit =
+  | { kind: "create"; parent: string; isFolder: boolean }
+  | { kind: "rename"; path: string; isFolder: boolean }
+
+interface TreeNameInputProps {
+  defaultValue: string
+  isFolder: boolean
+  depth: number
+  onSubmitAction: (value: string) => void
+  onCancelAction: () => void
+}
+
+/**
+ * Text field for a file or folder name. Enter or leaving the field
+ * submits, Escape cancels. Only the name (without extension) is selected
+ * at first, but the whole path can be edited to move the item.
+ */
+function TreeNameInput({
+  defaultValue,
+  isFolder,
+  depth,
+  onSubmitAction,
+  onCancelAction,
+}: TreeNameInputProps) {
+  const doneRef = useRef(false)
+
+  const finish = (value: string | null) => {
+    if (doneRef.current) return
+    doneRef.current = true
+
+    const trimmed = value?.trim()
+    if (!trimmed || trimmed === defaultValue) {
+      onCancelAction()
+    } else {
+      onSubmitAction(trimmed)
+    }
+  }
+
+  const Icon = isFolder ? FolderIcon : FileIcon
+
+  return (
+    <div
+      className="flex items-center gap-2 px-3 py-1"
+      style={{ paddingLeft: `${depth * 12 + 12}px` }}
+    >
+      <Icon className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+      <input
+        autoFocus
+        defaultValue={defaultValue}
+        onFocus={(e) => {
+          const start = defaultValue.lastIndexOf("/") + 1
+          const dot = defaultValue.lastIndexOf(".")
+          e.target.setSelectionRange(
+            start,
+            isFolder || dot <= start ? defaultValue.length : dot,
+          )
+        }}
+        onKeyDown={(e) => {
+          e.stopPropagation()
+          if (e.key === "Enter") finish(e.currentTarget.value)
+          if (e.key === "Escape") finish(null)
+        }}
+        onBlur={(e) => finish(e.target.value)}
+        className="flex-1 min-w-0 rounded-sm border border-ring bg-background px-1 text-sm outline-none"
+      />
+    </div>
+  )
+}
+
+// Text color for a tree item with type or lint problems
+function problemClassName(count: ProblemCount | undefined) {
+  if (count?.errors) return "text-destructive"
+  if (count?.warnings) return "text-yellow-600 dark:text-yellow-500"
+  return undefined
+}
+
 export function CodePanel({ projectId }: CodePanelProps) {
   const files = useQuery(api.files.getProjectFiles, { projectId })
+  const folders = useQuery(api.files.getFolders, { projectId })
   const project = useQuery(api.projects.getProject, { projectId })
-  const [selectedFile, setSelectedFile] = useState<string | null>(null)
+  const deletedFiles = useQuery(api.fileVersions.getDeletedFiles, {
+    projectId,
+  })
+  const editorTabs = useEditorTabs()
+  const selectedFile = editorTabs.activeFile
+  const [showHistory, setShowHistory] = useState(false)
+  // Deleted file whose history is shown in the focused pane
+  const [deletedFile, setDeletedFile] = useState<{
+    fileId: Id<"files">
+    path: string
+  } | null>(null)
+  const [showDeleted, setShowDeleted] = useState(false)
+  const [sidebar, setSidebar] = useState<"files" | "search">("files")
+  // Search match to select in the editor of the focused pane
+  const [reveal, setReveal] = useState<
+    (EditorReveal & { path: string }) | null
+  >(null)
+  // Files with typing the editor hasn't sent for saving yet
+  const [unsavedPaths, setUnsavedPaths] = useState<Set<string>>(new Set())
+  const [treeEdit, setTreeEdit] = useState<TreeEdit | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const draggedRef = useRef<{ path: string; isFolder: boolean } | null>(null)
+  const uploadInputRef = useRef<HTMLInputElement>(null)
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl)
+
+  const { editFile, writeBinaryFile, status, resolveConflict } = useFileEdit(
+    projectId,
+    project?.sandboxId,
+  )
+  const fileOperations = useFileOperations(projectId, project?.sandboxId)
+  const monaco = useMonaco()
+
+  const handleDirtyChange = useCallback((path: string, dirty: boolean) => {
+    setUnsavedPaths((prev) => {
+      if (prev.has(path) === dirty) return prev
+      const next = new Set(prev)
+      if (dirty) {
+        next.add(path)
+      } else {
+        next.delete(path)
+      }
+      return next
+    })
+  }, [])
 
-  const { editFile, status } = useFileEdit(projectId, project?.sandboxId)
+  // Ctrl/Cmd+Shift+F opens the search pane
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.code === "KeyF") {
+        e.preventDefault()
+        setSidebar("search")
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  // Go to definition in another file opens it in the focused pane
+  const { openFile } = editorTabs
+  const handleOpenDefinition = useCallback(
+    (path: string, location: EditorReveal | null) => {
+      openFile(path)
+      setShowHistory(false)
+      setDeletedFile(null)
+      if (location) setReveal({ path, ...location })
+    },
+    [openFile],
+  )
+  useMonacoProject(monaco, files, project?.sandboxId, handleOpenDefinition)
+  const diagnostics = useDiagnostics(monaco, projectId, project?.sandboxId)
+
+  // Uploads go to the project root, named after the uploaded file
+  const handleUpload = async (file: File) => {
+    const uploadUrl = await generateUploadUrl({ projectId })
+    const response = await fetch(uploadUrl, {
+      method: "POST",
+      headers: { "Content-Type": file.type || "application/octet-stream" },
+      body: file,
+    })
+    if (!response.ok) {
+      console.error("Failed to upload file:", response.statusText)
+      return
+    }
+    const { storageId } = await response.json()
+    if (await writeBinaryFile(file.name, storageId)) {
+      editorTabs.openFile(file.name)
+    }
+  }
 
   if (files === undefined) {
     return (
@@ -45,12 +250,14 @@ export function CodePanel({ projectId }: CodePanelProps) {
 
   const selectedFileData = files.find((f) => f.path === selectedFile)
 
-  // Build file tree structure
+  // Build file tree structure, including folders that hold no files yet
   const fileTree: Record<string, any> = {}
+  const takenPaths = new Set<string>()
   files.forEach((file) => {
     const parts = file.path.split("/")
     let current = fileTree
     parts.forEach((part, index) => {
+      takenPaths.add(parts.slice(0, index + 1).join("/"))
       if (index === parts.length - 1) {
         current[part] = file
       } else {
@@ -59,51 +266,372 @@ export function CodePanel({ projectId }: CodePanelProps) {
       }
     })
   })
+  folders?.forEach((folder) => {
+    const parts = folder.split("/")
+    let current = fileTree
+    parts.forEach((part, index) => {
+      takenPaths.add(parts.slice(0, index + 1).join("/"))
+      current[part] = current[part] || {}
+      current = current[part]
+    })
+  })
+
+  const movePath = async (
+    fromPath: string,
+    toPath: string,
+    isFolder: boolean,
+  ) => {
+    const moved = await fileOperations.renamePath(fromPath, toPath, isFolder)
+    if (moved) editorTabs.renamePath(fromPath, toPath)
+  }
+
+  const duplicate = async (path: string, isFolder: boolean) => {
+    const toPath = copyPath(path, takenPaths)
+    const duplicated = await fileOperations.duplicatePath(
+      path,
+      toPath,
+      isFolder,
+    )
+    if (duplicated && !isFolder) editorTabs.openFile(toPath)
+  }
+
+  const remove = async (path: string, isFolder: boolean) => {
+    const confirmed = confirm(
+      isFolder
+        ? `Delete the folder ${path} and everything in it?`
+        : `Delete ${path}?`,
+    )
+    if (!confirmed) return
+
+    const deleted = await fileOperations.deletePath(path, isFolder)
+    if (deleted) editorTabs.closePath(path)
+  }
+
+  const submitTreeEdit = async (value: string) => {
+    const edit = treeEdit
+    setTreeEdit(null)
+    if (!edit) return
+
+    if (edit.kind === "rename") {
+      await movePath(edit.path, value, edit.isFolder)
+      return
+    }
+
+    const path = joinPath(edit.parent, value)
+    if (edit.isFolder) {
+      await fileOperations.createFolder(path)
+    } else if (await fileOperations.createFile(path)) {
+      editorTabs.openFile(path)
+    }
+  }
+
+  // New items go inside a folder, or next to a file
+  const startCreate = (path: string, isFolder: boolean, folder: boolean) => {
+    setTreeEdit({
+      kind: "create",
+      parent: isFolder ? path : parentPath(path),
+      isFolder: folder,
+    })
+  }
+
+  // Shortcuts on the focused tree item
+  const handleTreeKeyDown = (
+    e: React.KeyboardEvent,
+    path: string,
+    isFolder: boolean,
+  ) => {
+    const mod = e.metaKey || e.ctrlKey
+    if (e.key === "F2") {
+      setTreeEdit({ kind: "rename", path, isFolder })
+    } else if (e.key === "Delete" || (mod && e.key === "Backspace")) {
+      remove(path, isFolder)
+    } else if (mod && e.key.toLowerCase() === "d") {
+      duplicate(path, isFolder)
+    } else if (e.altKey && e.code === "KeyN") {
+      startCreate(path, isFolder, e.shiftKey)
+    } else {
+      return
+    }
+    e.preventDefault()
+  }
+
+  const dragProps = (path: string, isFolder: boolean) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      draggedRef.current = { path, isFolder }
+      e.dataTransfer.effectAllowed = "move"
+      e.dataTransfer.setData("text/plain", path)
+    },
+    onDragEnd: () => {
+      draggedRef.current = null
+      setDropTarget(null)
+    },
+  })
+
+  // Dropping anywhere on a folder (or its contents) moves the item into it
+  const dropProps = (folder: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      const dragged = draggedRef.current
+      if (!dragged || isAtOrInside(folder, dragged.path)) return
+      e.preventDefault()
+      e.stopPropagation()
+      setDropTarget(folder)
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      const dragged = draggedRef.current
+      draggedRef.current = null
+      setDropTarget(null)
+      if (!dragged) return
+
+      const toPath = joinPath(folder, baseName(dragged.path))
+      if (toPath !== dragged.path) {
+        movePath(dragged.path, toPath, dragged.isFolder)
+      }
+    },
+  })
+
+  const renderContextMenu = (path: string, isFolder: boolean) => (
+    <ContextMenuContent onCloseAutoFocus={(e) => e.preventDefault()}>
+      <ContextMenuItem onSelect={() => startCreate(path, isFolder, false)}>
+        <FilePlusIcon />
+        New File
+        <ContextMenuShortcut>Alt+N</ContextMenuShortcut>
+      </ContextMenuItem>
+      <ContextMenuItem onSelect={() => startCreate(path, isFolder, true)}>
+        <FolderPlusIcon />
+        New Folder
+        <ContextMenuShortcut>Alt+Shift+N</ContextMenuShortcut>
+      </ContextMenuItem>
+      <ContextMenuSeparator />
+      <ContextMenuItem
+        onSelect={() => setTreeEdit({ kind: "rename", path, isFolder })}
+      >
+        <PencilIcon />
+        Rename
+        <ContextMenuShortcut>F2</ContextMenuShortcut>
+      </ContextMenuItem>
+      <ContextMenuItem onSelect={() => duplicate(path, isFolder)}>
+        <CopyIcon />
+        Duplicate
+        <ContextMenuShortcut>Ctrl+D</ContextMenuShortcut>
+      </ContextMenuItem>
+      <ContextMenuSeparator />
+      <ContextMenuItem
+        variant="destructive"
+        onSelect={() => remove(path, isFolder)}
+      >
+        <Trash2Icon />
+        Delete
+        <ContextMenuShortcut>Del</ContextMenuShortcut>
+      </ContextMenuItem>
+    </ContextMenuContent>
+  )
 
-  const handleFileChange = async (content: string) => {
-    if (!selectedFile) return
-    await editFile(selectedFile, content)
+  const dirtyPaths = new Set([...unsavedPaths, ...status.pendingPaths])
+
+  const renderEditor = (
+    file: (typeof files)[number] | undefined,
+    isFocused: boolean,
+  ): React.ReactNode => {
+    const withHistory = isFocused && showHistory
+
+    if (isFocused && deletedFile) {
+      return (
+        <FileHistoryPanel
+          key={deletedFile.fileId}
+          projectId={projectId}
+          path={deletedFile.path}
+          fileId={deletedFile.fileId}
+          onRestoreAction={async (version) => {
+            if (await fileOperations.restoreDeletedFile(version._id)) {
+              setDeletedFile(null)
+              editorTabs.openFile(deletedFile.path)
+            }
+          }}
+        />
+      )
+    }
+
+    if (file && withHistory) {
+      return (
+        <FileHistoryPanel
+          projectId={projectId}
+          path={file.path}
+          currentVersion={file.version}
+          onRestoreAction={async (version) => {
+            if (version.storageId) {
+              await writeBinaryFile(file.path, version.storageId)
+            } else {
+              await editFile(file.path, version.content)
+            }
+          }}
+        />
+      )
+    }
+
+    if (file?.storageId) {
+      return (
+        <AssetPreview
+          projectId={projectId}
+          storageId={file.storageId}
+          path={file.path}
+          contentType={file.contentType ?? "application/octet-stream"}
+          size={file.size}
+        />
+      )
+    }
+
+    if (file) {
+      return (
+        <MonacoEditor
+          path={file.path}
+          content={file.content}
+          version={file.version}
+          onChangeAction={(content, baseVersion) =>
+            editFile(file.path, content, baseVersion)
+          }
+          conflict={
+            status.conflict?.path === file.path ? status.conflict : null
+          }
+          onResolveConflictAction={resolveConflict}
+          onDirtyChangeAction={handleDirtyChange}
+          reveal={isFocused && reveal?.path === file.path ? reveal : null}
+        />
+      )
+    }
+
+    return (
+      <div className="h-full flex items-center justify-center text-muted-foreground">
+        <div className="text-center space-y-2">
+          <p className="text-sm">Select a file to edit</p>
+          <p className="text-xs text-muted-foreground">
+            Click on a file in the tree
+          </p>
+        </div>
+      </div>
+    )
   }
 
   const renderTree = (
     tree: Record<string, any>,
     depth = 0,
+    parent = "",
   ): React.ReactNode => {
-    return Object.entries(tree).map(([name, value]) => {
-      const isFile = value._id !== undefined
-      const path = isFile ? value.path : null
+    // Folders first, then files, each alphabetically
+    const entries = Object.entries(tree).sort(
+      ([a, aValue], [b, bValue]) =>
+        Number(aValue._id !== undefined) - Number(bValue._id !== undefined) ||
+        a.localeCompare(b),
+    )
 
-      if (isFile) {
-        return (
-          <button
-            key={value._id}
-            onClick={() => setSelectedFile(value.path)}
-            className={cn(
-              "w-full flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-accent transition-colors text-left",
-              selectedFile === value.path && "bg-accent",
-            )}
-            style={{ paddingLeft: `${depth * 12 + 12}px` }}
-          >
-            <FileIcon className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
-            <span className="truncate">{name}</span>
-          </button>
-        )
-      }
+    const createInput =
+      treeEdit?.kind === "create" && treeEdit.parent === parent ? (
+        <TreeNameInput
+          key="create"
+          defaultValue=""
+          isFolder={treeEdit.isFolder}
+          depth={depth}
+          onSubmitAction={submitTreeEdit}
+          onCancelAction={() => setTreeEdit(null)}
+        />
+      ) : null
 
-      return (
-        <div key={name}>
+    return [
+      createInput,
+      ...entries.map(([name, value]) => {
+        const isFile = value._id !== undefined
+        const path = joinPath(parent, name)
+        const problems = diagnostics.problemCounts.get(path)
+        const isRenaming = treeEdit?.kind === "rename" && treeEdit.path === path
+        const renameInput = isRenaming ? (
+          <TreeNameInput
+            key={path}
+            defaultValue={path}
+            isFolder={!isFile}
+            depth={depth}
+            onSubmitAction={submitTreeEdit}
+            onCancelAction={() => setTreeEdit(null)}
+          />
+        ) : null
+
+        if (isFile) {
+          return (
+            renameInput ?? (
+              <ContextMenu key={value._id}>
+                <ContextMenuTrigger asChild>
+                  <button
+                    onClick={() => {
+                      editorTabs.openFile(value.path)
+                      setDeletedFile(null)
+                    }}
+                    onKeyDown={(e) => handleTreeKeyDown(e, path, false)}
+                    {...dragProps(path, false)}
+                    className={cn(
+                      "w-full flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-accent transition-colors text-left",
+                      selectedFile === value.path && "bg-accent",
+                    )}
+                    style={{ paddingLeft: `${depth * 12 + 12}px` }}
+                  >
+                    <FileIcon className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                    <span
+                      className={cn("truncate", problemClassName(problems))}
+                    >
+                      {name}
+                    </span>
+                    {problems && (
+                      <span
+                        className={cn(
+                          "ml-auto shrink-0 text-xs",
+                          problemClassName(problems),
+                        )}
+                        title={`${problems.errors} errors, ${problems.warnings} warnings`}
+                      >
+                        {problems.errors || problems.warnings}
+                      </span>
+                    )}
+                  </button>
+                </ContextMenuTrigger>
+                {renderContextMenu(path, false)}
+              </ContextMenu>
+            )
+          )
+        }
+
+        return (
           <div
-            className="flex items-center gap-2 px-3 py-1.5 text-sm text-muted-foreground"
-            style={{ paddingLeft: `${depth * 12 + 12}px` }}
+            key={name}
+            {...dropProps(path)}
+            className={cn(dropTarget === path && "bg-accent/50")}
           >
-            <ChevronRightIcon className="h-3.5 w-3.5 shrink-0" />
-            <FolderIcon className="h-3.5 w-3.5 shrink-0" />
-            <span className="truncate">{name}</span>
+            {renameInput ?? (
+              <ContextMenu>
+                <ContextMenuTrigger asChild>
+                  <div
+                    tabIndex={0}
+                    onKeyDown={(e) => handleTreeKeyDown(e, path, true)}
+                    {...dragProps(path, true)}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm text-muted-foreground outline-none focus-visible:bg-accent"
+                    style={{ paddingLeft: `${depth * 12 + 12}px` }}
+                  >
+                    <ChevronRightIcon className="h-3.5 w-3.5 shrink-0" />
+                    <FolderIcon className="h-3.5 w-3.5 shrink-0" />
+                    <span
+                      className={cn("truncate", problemClassName(problems))}
+                    >
+                      {name}
+                    </span>
+                  </div>
+                </ContextMenuTrigger>
+                {renderContextMenu(path, true)}
+              </ContextMenu>
+            )}
+            {renderTree(value, depth + 1, path)}
           </div>
-          {renderTree(value, depth + 1)}
-        </div>
-      )
-    })
+        )
+      }),
+    ]
   }
 
   return (
@@ -122,48 +650,236 @@ export function CodePanel({ projectId }: CodePanelProps) {
               </Badge>
             )}
           </div>
-          {status.pendingEdits > 0 && (
-            <Badge variant="secondary" className="text-xs">
-              {status.pendingEdits} pending
-            </Badge>
-          )}
+          <div className="flex items-center gap-2">
+            {status.pendingEdits > 0 && (
+              <Badge variant="secondary" className="text-xs">
+                {status.pendingEdits} pending
+              </Badge>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={editorTabs.splitPane}
+              disabled={!editorTabs.canSplit}
+              title="Split editor"
+            >
+              <Columns2Icon className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant={showHistory ? "secondary" : "ghost"}
+              onClick={() => setShowHistory((show) => !show)}
+              title="Version history"
+            >
+              <HistoryIcon className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
       )}
 
       <div className="flex-1 flex overflow-hidden">
         {/* File Tree */}
         <div className="w-64 border-r border-border overflow-auto">
-          <div className="p-3 border-b border-border">
-            <h3 className="text-sm font-semibold">Files</h3>
-          </div>
-          <div className="py-2">{renderTree(fileTree)}</div>
-        </div>
-
-        {/* Monaco Editor */}
-        <div className="flex-1 overflow-hidden">
-          {selectedFileData ? (
-            <MonacoEditor
-              path={selectedFileData.path}
-              content={selectedFileData.content}
-              onChangeAction={handleFileChange}
+          <div className="p-3 border-b border-border flex items-center justify-between">
+            <h3 className="text-sm font-semibold">
+              {sidebar === "search" ? "Search" : "Files"}
+            </h3>
+            <div className="flex items-center">
+              {sidebar === "files" && (
+                <>
+                  <Button
+                    size="icon-sm"
+                    variant="ghost"
+                    onClick={() =>
+                      setTreeEdit({
+                        kind: "create",
+                        parent: "",
+                        isFolder: false,
+                      })
+                    }
+                    title="New file"
+                  >
+                    <FilePlusIcon className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    size="icon-sm"
+                    variant="ghost"
+                    onClick={() =>
+                      setTreeEdit({
+                        kind: "create",
+                        parent: "",
+                        isFolder: true,
+                      })
+                    }
+                    title="New folder"
+                  >
+                    <FolderPlusIcon className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    size="icon-sm"
+                    variant="ghost"
+                    onClick={() => uploadInputRef.current?.click()}
+                    title="Upload image or font"
+                  >
+                    <UploadIcon className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    size="icon-sm"
+                    variant="ghost"
+                    onClick={diagnostics.check}
+                    disabled={diagnostics.isChecking}
+                    title={`Check for type and lint problems (${diagnostics.total.errors} errors, ${diagnostics.total.warnings} warnings)`}
+                  >
+                    {diagnostics.isChecking ? (
+                      <LoaderCircleIcon className="h-3.5 w-3.5 animate-spin" />
+                    ) : (
+                      <ShieldCheckIcon
+                        className={cn(
+                          "h-3.5 w-3.5",
+                          problemClassName(diagnostics.total),
+                        )}
+                      />
+                    )}
+                  </Button>
+                </>
+              )}
+              <Button
+                size="icon-sm"
+                variant={sidebar === "search" ? "secondary" : "ghost"}
+                onClick={() =>
+                  setSidebar((current) =>
+                    current === "search" ? "files" : "search",
+                  )
+                }
+                title="Search in files (Ctrl+Shift+F)"
+              >
+                <SearchIcon className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+            <input
+              ref={uploadInputRef}
+              type="file"
+              accept="image/*,.woff,.woff2,.ttf,.otf,.eot"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ""
+                if (file) handleUpload(file)
+              }}
             />
+          </div>
+          {sidebar === "search" ? (
+            <div className="h-[calc(100%-3.25rem)]">
+              <SearchPanel
+                projectId={projectId}
+                onOpenMatchAction={(path, match) => {
+                  editorTabs.openFile(path)
+                  setShowHistory(false)
+                  setDeletedFile(null)
+                  setReveal({
+                    path,
+                    line: match.line,
+                    column: match.column,
+                    length: match.length,
+                  })
+                }}
+                onReplaceAllAction={fileOperations.replaceAll}
+              />
+            </div>
           ) : (
-            <div className="h-full flex items-center justify-center text-muted-foreground">
-              <div className="text-center space-y-2">
-                <p className="text-sm">Select a file to edit</p>
-                <p className="text-xs text-muted-foreground">
-                  Click on a file in the tree
-                </p>
-              </div>
+            <div
+              {...dropProps("")}
+              className={cn(
+                "py-2 min-h-[calc(100%-3.25rem)]",
+                dropTarget === "" && "bg-accent/50",
+              )}
+            >
+              {renderTree(fileTree)}
+              {deletedFiles && deletedFiles.length > 0 && (
+                <div className="mt-2 border-t border-border pt-2">
+                  <button
+                    onClick={() => setShowDeleted((show) => !show)}
+                    className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-muted-foreground hover:bg-accent transition-colors text-left"
+                  >
+                    <ChevronRightIcon
+                      className={cn(
+                        "h-3.5 w-3.5 shrink-0 transition-transform",
+                        showDeleted && "rotate-90",
+                      )}
+                    />
+                    Deleted files
+                    <span className="ml-auto text-xs">
+                      {deletedFiles.length}
+                    </span>
+                  </button>
+                  {showDeleted &&
+                    deletedFiles.map((deleted) => (
+                      <button
+                        key={deleted.fileId}
+                        onClick={() =>
+                          setDeletedFile({
+                            fileId: deleted.fileId,
+                            path: deleted.path,
+                          })
+                        }
+                        className={cn(
+                          "w-full flex items-center gap-2 px-3 py-1.5 text-sm text-muted-foreground hover:bg-accent transition-colors text-left",
+                          deletedFile?.fileId === deleted.fileId && "bg-accent",
+                        )}
+                        style={{ paddingLeft: "24px" }}
+                        title={`Deleted ${new Date(deleted.deletedAt).toLocaleString()}`}
+                      >
+                        <FileXIcon className="h-3.5 w-3.5 shrink-0" />
+                        <span className="truncate">{deleted.path}</span>
+                      </button>
+                    ))}
+                </div>
+              )}
             </div>
           )}
         </div>
+
+        {/* Editor Panes */}
+        {editorTabs.panes.map((pane, index) => (
+          <div
+            key={index}
+            onFocusCapture={() => editorTabs.focusPane(index)}
+            onMouseDownCapture={() => editorTabs.focusPane(index)}
+            className={cn(
+              "flex-1 min-w-0 flex flex-col overflow-hidden",
+              index > 0 && "border-l border-border",
+            )}
+          >
+            {pane.tabs.length > 0 && (
+              <EditorTabs
+                tabs={pane.tabs}
+                active={pane.active}
+                focused={index === editorTabs.focusedPane}
+                dirtyPaths={dirtyPaths}
+                onSelectAction={(path) => editorTabs.openFile(path, index)}
+                onCloseAction={(path) => editorTabs.closeTab(index, path)}
+              />
+            )}
+            <div className="flex-1 overflow-hidden">
+              {renderEditor(
+                files.find((f) => f.path === pane.active),
+                index === editorTabs.focusedPane,
+              )}
+            </div>
+          </div>
+        ))}
       </div>
 
       {/* Error Display */}
-      {status.lastError && (
+      {(status.lastError ||
+        fileOperations.lastError ||
+        diagnostics.lastError) && (
         <div className="border-t border-border px-4 py-2 bg-destructive/10">
-          <p className="text-sm text-destructive">{status.lastError}</p>
+          <p className="text-sm text-destructive">
+            {status.lastError ??
+              fileOperations.lastError ??
+              diagnostics.lastError}
+          </p>
         </div>
       )}
     </div>
@@ -0,0 +1,104 @@
+/**
+ * Editor Tabs
+ *
+ * Tab strip above an editor pane. A dot takes the place of the close
+ * button while a tab has changes that haven't been saved yet.
+ */
+
+"use client"
+
+import { FileIcon, XIcon } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { baseName, parentPath } from "@/lib/filePaths"
+
+interface EditorTabsProps {
+  tabs: string[]
+  active: string | null
+  // Whether this is the pane files from the tree open in
+  focused: boolean
+  dirtyPaths: Set<string>
+  onSelectAction: (path: string) => void
+  onCloseAction: (path: string) => void
+  // Extra controls at the end of the strip
+  actions?: React.ReactNode
+}
+
+export function EditorTabs({
+  tabs,
+  active,
+  focused,
+  dirtyPaths,
+  onSelectAction,
+  onCloseAction,
+  actions,
+}: EditorTabsProps) {
+  // Tell apart tabs with the same file name by their folder
+  const nameCounts = new Map<string, number>()
+  tabs.forEach((tab) => {
+    nameCounts.set(baseName(tab), (nameCounts.get(baseName(tab)) ?? 0) + 1)
+  })
+
+  return (
+    <div className="flex items-stretch border-b border-border bg-muted/20">
+      <div className="flex-1 flex overflow-x-auto">
+        {tabs.map((tab) => {
+          const isActive = tab === active
+          const isDirty = dirtyPaths.has(tab)
+          const name = baseName(tab)
+
+          return (
+            <div
+              key={tab}
+              title={tab}
+              onClick={() => onSelectAction(tab)}
+              onAuxClick={(e) => {
+                // Middle click closes, like in a browser
+                if (e.button === 1) onCloseAction(tab)
+              }}
+              className={cn(
+                "group flex items-center gap-1.5 border-r border-border pl-3 pr-1.5 py-1.5 text-sm cursor-pointer select-none whitespace-nowrap",
+                isActive
+                  ? "bg-background text-foreground"
+                  : "text-muted-foreground hover:bg-accent/50",
+                isActive && focused && "shadow-[inset_0_-2px_0_var(--primary)]",
+              )}
+            >
+              <FileIcon className="h-3.5 w-3.5 shrink-0" />
+              <span>{name}</span>
+              {(nameCounts.get(name) ?? 0) > 1 && parentPath(tab) && (
+                <span className="text-xs text-muted-foreground">
+                  {parentPath(tab)}
+                </span>
+              )}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onCloseAction(tab)
+                }}
+                className="relative h-4 w-4 rounded-sm flex items-center justify-center hover:bg-accent"
+                title={isDirty ? "Unsaved changes" : "Close"}
+              >
+                {isDirty && (
+                  <span className="h-2 w-2 rounded-full bg-foreground group-hover:hidden" />
+                )}
+                <XIcon
+                  className={cn(
+                    "h-3 w-3",
+                    isDirty
+                      ? "hidden group-hover:block"
+                      : !isActive && "invisible group-hover:visible",
+                  )}
+                />
+              </button>
+            </div>
+          )
+        })}
+      </div>
+      {actions && (
+        <div className="flex items-center px-1 border-l border-border">
+          {actions}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,266 @@
+/**
+ * File History Panel
+ *
+ * Lists every stored version of a file and shows a side-by-side diff
+ * between any two of them. The newer side can be restored, which saves
+ * its contents as a new version through the normal edit flow. Binary
+ * versions are previewed instead of diffed.
+ *
+ * Also shows the history of deleted files, given their fileId, ending in
+ * the version that records the deletion.
+ */
+
+"use client"
+
+import { useState } from "react"
+import { useQuery } from "convex/react"
+import { DiffEditor } from "@monaco-editor/react"
+import { useTheme } from "next-themes"
+import { api } from "@/convex/_generated/api"
+import { Doc, Id } from "@/convex/_generated/dataModel"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import { getLanguage } from "@/components/MonacoEditor"
+import { AssetPreview } from "@/components/AssetPreview"
+import {
+  BotIcon,
+  DownloadIcon,
+  RotateCcwIcon,
+  SquareTerminalIcon,
+  UserIcon,
+} from "lucide-react"
+
+interface FileHistoryPanelProps {
+  projectId: Id<"projects">
+  path: string
+  // Set for deleted files, which can't be looked up by path
+  fileId?: Id<"files">
+  // Not set for deleted files
+  currentVersion?: number
+  onRestoreAction: (version: Doc<"fileVersions">) => Promise<void>
+}
+
+const AUTHOR_ICONS = {
+  user: UserIcon,
+  agent: BotIcon,
+  import: DownloadIcon,
+  sandbox: SquareTerminalIcon,
+}
+
+export function FileHistoryPanel({
+  projectId,
+  path,
+  fileId,
+  currentVersion,
+  onRestoreAction,
+}: FileHistoryPanelProps) {
+  const { theme } = useTheme()
+  const history = useQuery(api.fileVersions.getFileHistory, {
+    projectId,
+    path,
+    fileId,
+  })
+
+  // Right-hand (modified) and left-hand (original) sides of the diff.
+  // Default to the latest version compared with the one before it.
+  const [selectedId, setSelectedId] = useState<Id<"fileVersions"> | null>(null)
+  const [baseId, setBaseId] = useState<Id<"fileVersions"> | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  const selectedIndex = history
+    ? Math.max(
+        0,
+        history.findIndex((v) => v._id === selectedId),
+      )
+    : 0
+  const selected = history?.[selectedIndex]
+  const base =
+    history?.find((v) => v._id === baseId) ?? history?.[selectedIndex + 1]
+
+  const selectedContent = useQuery(
+    api.fileVersions.getFileVersion,
+    selected ? { fileVersionId: selected._id } : "skip",
+  )
+  const baseContent = useQuery(
+    api.fileVersions.getFileVersion,
+    base ? { fileVersionId: base._id } : "skip",
+  )
+
+  if (history === undefined) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+        Loading history...
+      </div>
+    )
+  }
+
+  if (history.length === 0 || !selected) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+        No history recorded for this file
+      </div>
+    )
+  }
+
+  const handleRestore = async () => {
+    if (!selectedContent) return
+    setIsRestoring(true)
+    try {
+      await onRestoreAction(selectedContent)
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  return (
+    <div className="h-full flex overflow-hidden">
+      {/* Version list */}
+      <div className="w-56 border-r border-border overflow-auto">
+        <div className="p-3 border-b border-border">
+          <h3 className="text-sm font-semibold">History</h3>
+        </div>
+        <div className="py-1">
+          {history.map((version) => {
+            const AuthorIcon = AUTHOR_ICONS[version.author]
+            return (
+              <button
+                key={version._id}
+                onClick={() => {
+                  setSelectedId(version._id)
+                  setBaseId(null)
+                }}
+                className={cn(
+                  "w-full flex flex-col gap-0.5 px-3 py-2 text-left hover:bg-accent transition-colors",
+                  version._id === selected._id && "bg-accent",
+                )}
+              >
+                <div className="flex items-center gap-2 text-sm">
+                  <AuthorIcon className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                  <span className="font-medium">v{version.version}</span>
+                  {version.version === currentVersion && (
+                    <Badge variant="secondary" className="text-xs">
+                      Current
+                    </Badge>
+                  )}
+                  {version.deleted && (
+                    <Badge variant="destructive" className="text-xs">
+                      Deleted
+                    </Badge>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {version.author === "agent"
+                    ? "Agent"
+                    : version.author === "import"
+                      ? "Imported"
+                      : version.author === "sandbox"
+                        ? "Sandbox"
+                        : "You"}{" "}
+                  · {new Date(version.createdAt).toLocaleString()}
+                </span>
+                {version.path !== path && (
+                  <span className="text-xs text-muted-foreground truncate">
+                    as {version.path}
+                  </span>
+                )}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+
+      {/* Diff */}
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <div className="border-b border-border px-3 py-2 flex items-center justify-between gap-2">
+          {selected.contentType ? (
+            <span className="text-sm text-muted-foreground">
+              v{selected.version}
+            </span>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <span>Compare</span>
+              <Select
+                value={base?._id ?? ""}
+                onValueChange={(value) =>
+                  setBaseId(value as Id<"fileVersions">)
+                }
+              >
+                <SelectTrigger size="sm" className="min-w-24">
+                  <SelectValue placeholder="Empty" />
+                </SelectTrigger>
+                <SelectContent>
+                  {history
+                    .filter((v) => v._id !== selected._id)
+                    .map((v) => (
+                      <SelectItem key={v._id} value={v._id}>
+                        v{v.version}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <span>with v{selected.version}</span>
+            </div>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleRestore}
+            disabled={
+              isRestoring ||
+              !selectedContent ||
+              selected.deleted ||
+              selected.version === currentVersion
+            }
+          >
+            <RotateCcwIcon className="h-3.5 w-3.5 mr-1" />
+            {isRestoring ? "Restoring..." : "Restore this version"}
+          </Button>
+        </div>
+        <div className="flex-1 overflow-hidden">
+          {selectedContent?.storageId ? (
+            <AssetPreview
+              projectId={projectId}
+              storageId={selectedContent.storageId}
+              path={selectedContent.path}
+              contentType={
+                selectedContent.contentType ?? "application/octet-stream"
+              }
+              size={selectedContent.size}
+            />
+          ) : (
+            <DiffEditor
+              height="100%"
+              language={getLanguage(path)}
+              original={base ? (baseContent?.content ?? "") : ""}
+              modified={selectedContent?.content ?? ""}
+              theme={theme === "dark" ? "vs-dark" : "light"}
+              options={{
+                readOnly: true,
+                renderSideBySide: true,
+                minimap: { enabled: false },
+                fontSize: 14,
+                scrollBeyondLastLine: false,
+                automaticLayout: true,
+              }}
+              loading={
+                <div className="flex items-center justify-center h-full">
+                  <div className="text-sm text-muted-foreground">
+                    Loading diff...
+                  </div>
+                </div>
+              }
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+/**
+ * Merge Conflict Editor
+ *
+ * Shown when a save is rejected because the file changed underneath the
+ * editor (the agent or another tab wrote a newer version). Both edits are
+ * merged against their common base; overlapping changes are left as
+ * conflict markers in the editable result.
+ */
+
+"use client"
+
+import { useMemo, useRef, useState } from "react"
+import { DiffEditor } from "@monaco-editor/react"
+import { useTheme } from "next-themes"
+import { AlertTriangleIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { hasConflictMarkers, mergeThreeWay } from "@/lib/threeWayMerge"
+import type { FileEditConflict } from "@/hooks/useFileEdit"
+
+type MergeConflictEditorProps = {
+  conflict: FileEditConflict
+  language: string
+  // null keeps the current version and drops the local edit
+  onResolveAction: (content: string | null) => void
+}
+
+type CompareSide = "current" | "base" | "local"
+
+export function MergeConflictEditor({
+  conflict,
+  language,
+  onResolveAction,
+}: MergeConflictEditorProps) {
+  const { theme } = useTheme()
+  const [compareWith, setCompareWith] = useState<CompareSide>("current")
+
+  // Without a base every line counts as changed on both sides, which
+  // puts the whole file in one conflict block
+  const merged = useMemo(
+    () =>
+      mergeThreeWay(
+        conflict.baseContent ?? "",
+        conflict.localContent,
+        conflict.currentContent,
+      ),
+    [conflict],
+  )
+  const [result, setResult] = useState(merged.content)
+  const resultRef = useRef(merged.content)
+
+  const compareContent = {
+    current: conflict.currentContent,
+    base: conflict.baseContent ?? "",
+    local: conflict.localContent,
+  }[compareWith]
+
+  const compareOptions: Array<{ side: CompareSide; label: string }> = [
+    { side: "current", label: `Current (v${conflict.currentVersion})` },
+    ...(conflict.baseContent !== null
+      ? [
+          {
+            side: "base" as const,
+            label: `Original (v${conflict.expectedVersion})`,
+          },
+        ]
+      : []),
+    { side: "local", label: "Your changes" },
+  ]
+
+  const unresolved = hasConflictMarkers(result)
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="border-b border-border px-4 py-2 flex items-center justify-between gap-4 bg-yellow-500/10">
+        <div className="flex items-center gap-2 text-sm">
+          <AlertTriangleIcon className="h-4 w-4 shrink-0 text-yellow-600" />
+          <span>
+            {conflict.currentVersion === 0
+              ? "This file was deleted while you were editing."
+              : `Version ${conflict.currentVersion} was saved while you were editing.`}{" "}
+            {merged.conflicts > 0
+              ? `${merged.conflicts} conflicting change(s) need resolving.`
+              : "Your changes were merged automatically."}
+          </span>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => onResolveAction(null)}
+          >
+            Keep current
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onResolveAction(conflict.localContent)}
+          >
+            Use mine
+          </Button>
+          <Button
+            size="sm"
+            disabled={unresolved}
+            title={unresolved ? "Resolve the conflict markers first" : ""}
+            onClick={() => onResolveAction(resultRef.current)}
+          >
+            Save merge
+          </Button>
+        </div>
+      </div>
+
+      <div className="border-b border-border px-4 py-1.5 flex items-center justify-between text-xs text-muted-foreground">
+        <div className="flex items-center gap-1">
+          <span className="mr-1">Compare with</span>
+          {compareOptions.map((option) => (
+            <button
+              key={option.side}
+              onClick={() => setCompareWith(option.side)}
+              className={cn(
+                "px-2 py-0.5 rounded hover:bg-accent transition-colors",
+                compareWith === option.side && "bg-accent text-foreground",
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <span>Merged result (editable)</span>
+      </div>
+
+      <div className="flex-1 overflow-hidden">
+        <DiffEditor
+          height="100%"
+          language={language}
+          original={compareContent}
+          modified={result}
+          theme={theme === "dark" ? "vs-dark" : "light"}
+          onMount={(editor) => {
+            const modified = editor.getModifiedEditor()
+            modified.onDidChangeModelContent(() => {
+              resultRef.current = modified.getValue()
+              setResult(resultRef.current)
+            })
+          }}
+          options={{
+            originalEditable: false,
+            renderSideBySide: true,
+            minimap: { enabled: false },
+            fontSize: 14,
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+          }}
+          loading={
+            <div className="flex items-center justify-center h-full">
+              <div className="text-sm text-muted-foreground">
+                Loading merge view...
+              </div>
+            </div>
+          }
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,277 @@
+"use client"
+
+import { MessageResponse } from "@/components/ai-elements/message"
+import {
+  Reasoning,
+  ReasoningContent,
+  ReasoningTrigger,
+} from "@/components/ai-elements/reasoning"
+import {
+  Tool,
+  ToolContent,
+  ToolHeader,
+  ToolInput,
+  ToolOutput,
+} from "@/components/ai-elements/tool"
+import {
+  ChainOfThought,
+  ChainOfThoughtContent,
+  ChainOfThoughtHeader,
+  ChainOfThoughtStep,
+} from "@/components/ai-elements/chain-of-thought"
+import {
+  Confirmation,
+  ConfirmationAccepted,
+  ConfirmationAction,
+  ConfirmationActions,
+  ConfirmationRejected,
+  ConfirmationRequest,
+  ConfirmationTitle,
+} from "@/components/ai-elements/confirmation"
+import { CodeBlock } from "@/components/ai-elements/code-block"
+import type {
+  FileEditPart,
+  MessagePart,
+  ToolCallPart,
+} from "@/convex/messageParts"
+import {
+  CheckIcon,
+  FileCodeIcon,
+  FileMinusIcon,
+  FilePenIcon,
+  FilePlusIcon,
+  XIcon,
+} from "lucide-react"
+import { useState } from "react"
+
+interface MessagePartsProps {
+  parts: MessagePart[]
+  isStreaming?: boolean
+  onApprovalResponse?: (approvalId: string, approved: boolean) => Promise<void>
+}
+
+// Consecutive file edits are collapsed into one chain-of-thought block
+type RenderGroup =
+  | { kind: "part"; part: Exclude<MessagePart, FileEditPart>; index: number }
+  | { kind: "edits"; edits: FileEditPart[]; index: number }
+
+function groupParts(parts: MessagePart[]): RenderGroup[] {
+  const groups: RenderGroup[] = []
+  parts.forEach((part, index) => {
+    if (part.type === "file-edit") {
+      const last = groups[groups.length - 1]
+      if (last?.kind === "edits") {
+        last.edits.push(part)
+      } else {
+        groups.push({ kind: "edits", edits: [part], index })
+      }
+    } else {
+      groups.push({ kind: "part", part, index })
+    }
+  })
+  return groups
+}
+
+export function MessageParts({
+  parts,
+  isStreaming = false,
+  onApprovalResponse,
+}: MessagePartsProps) {
+  const groups = groupParts(parts)
+
+  return (
+    <>
+      {groups.map((group, groupIndex) => {
+        const isLast = groupIndex === groups.length - 1
+
+        if (group.kind === "edits") {
+          return (
+            <FileEditGroup
+              key={`edits-${group.index}`}
+              edits={group.edits}
+              isStreaming={isStreaming && isLast}
+            />
+          )
+        }
+
+        const { part, index } = group
+        switch (part.type) {
+          case "text":
+            return <MessageResponse key={index}>{part.text}</MessageResponse>
+          case "reasoning":
+            return (
+              <Reasoning
+                key={index}
+                className="w-full"
+                isStreaming={isStreaming && isLast}
+              >
+                <ReasoningTrigger />
+                <ReasoningContent>{part.text}</ReasoningContent>
+              </Reasoning>
+            )
+          case "tool-call":
+            return (
+              <Tool
+                key={part.toolCallId}
+                defaultOpen={part.state === "approval-requested"}
+              >
+                <ToolHeader type={`tool-${part.toolName}`} state={part.state} />
+                <ToolContent>
+                  <ToolInput input={part.input} />
+                  <ToolApproval
+                    part={part}
+                    onApprovalResponse={onApprovalResponse}
+                  />
+                  <ToolOutput output={part.output} errorText={part.errorText} />
+                </ToolContent>
+              </Tool>
+            )
+          case "error":
+            return (
+              <p key={index} className="text-sm text-destructive">
+                {part.message}
+              </p>
+            )
+        }
+      })}
+    </>
+  )
+}
+
+function ToolApproval({
+  part,
+  onApprovalResponse,
+}: {
+  part: ToolCallPart
+  onApprovalResponse?: (approvalId: string, approved: boolean) => Promise<void>
+}) {
+  const [responded, setResponded] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { approval } = part
+  if (!approval) return null
+
+  const respond = async (approved: boolean) => {
+    // Disable the buttons until the mutation updates the part
+    setResponded(true)
+    setError(null)
+    try {
+      await onApprovalResponse?.(approval.id, approved)
+    } catch (error) {
+      console.error("Failed to respond to approval request:", error)
+      // Let the user answer again if the response wasn't recorded
+      setResponded(false)
+      setError(error instanceof Error ? error.message : "Unknown error")
+    }
+  }
+
+  return (
+    <div className="px-4 pb-4">
+      <Confirmation
+        approval={
+          approval.approved === undefined
+            ? { id: approval.id }
+            : { ...approval, approved: approval.approved }
+        }
+        state={part.state}
+      >
+        <ConfirmationTitle>
+          <ConfirmationRequest>
+            {describeApprovalRequest(part)}
+          </ConfirmationRequest>
+          <ConfirmationAccepted>
+            <CheckIcon className="inline size-4 text-green-600" /> Approved
+          </ConfirmationAccepted>
+          <ConfirmationRejected>
+            <XIcon className="inline size-4 text-destructive" /> Rejected
+            {approval.reason && `: ${approval.reason}`}
+          </ConfirmationRejected>
+        </ConfirmationTitle>
+        <ConfirmationActions>
+          <ConfirmationAction
+            variant="outline"
+            disabled={responded}
+            onClick={() => respond(false)}
+          >
+            Reject
+          </ConfirmationAction>
+          <ConfirmationAction
+            disabled={responded}
+            onClick={() => respond(true)}
+          >
+            Approve
+          </ConfirmationAction>
+        </ConfirmationActions>
+      </Confirmation>
+      {error && (
+        <p className="mt-2 text-sm text-destructive">
+          Couldn&apos;t send your response: {error}
+        </p>
+      )}
+    </div>
+  )
+}
+
+function describeApprovalRequest(part: ToolCallPart): string {
+  const input = part.input ?? {}
+  switch (part.toolName) {
+    case "run_command":
+      return `The agent wants to run \`${input.command}\``
+    case "delete_file":
+      return `The agent wants to delete ${input.path}`
+    case "rename_file":
+      return `The agent wants to rename ${input.fromPath} to ${input.toPath}`
+    default:
+      return `The agent wants to edit ${input.path}`
+  }
+}
+
+const FILE_EDIT_ICONS = {
+  create: FilePlusIcon,
+  update: FileCodeIcon,
+  rename: FilePenIcon,
+  delete: FileMinusIcon,
+}
+
+function describeFileEdit(edit: FileEditPart): string {
+  switch (edit.operation) {
+    case "create":
+      return `Created (v${edit.afterVersion})`
+    case "update":
+      return `v${edit.beforeVersion} → v${edit.afterVersion}`
+    case "rename":
+      return `Renamed from ${edit.previousPath}`
+    case "delete":
+      return "Deleted"
+  }
+}
+
+function FileEditGroup({
+  edits,
+  isStreaming,
+}: {
+  edits: FileEditPart[]
+  isStreaming: boolean
+}) {
+  return (
+    <ChainOfThought>
+      <ChainOfThoughtHeader>
+        {isStreaming ? "Editing files..." : `Edited ${edits.length} file(s)`}
+      </ChainOfThoughtHeader>
+      <ChainOfThoughtContent>
+        {edits.map((edit, i) => (
+          <ChainOfThoughtStep
+            key={`${edit.path}-${edit.afterVersion}-${i}`}
+            icon={FILE_EDIT_ICONS[edit.operation]}
+            label={<span className="font-mono text-xs">{edit.path}</span>}
+            description={describeFileEdit(edit)}
+            status={
+              isStreaming && i === edits.length - 1 ? "active" : "complete"
+            }
+          >
+            {edit.diff && <CodeBlock code={edit.diff} language="diff" />}
+          </ChainOfThoughtStep>
+        ))}
+      </ChainOfThoughtContent>
+    </ChainOfThought>
+  )
+}
@@ -7,93 +7,222 @@
  * - Debounced onChange (300ms) to prevent excessive updates
  * - Dark/light theme support
  * - TypeScript, JavaScript, CSS, HTML, JSON support
+ * - Keeps unsaved typing when the file changes elsewhere, and shows a
+ *   merge view when the save is rejected as stale
+ * - One Monaco model per file, so switching files keeps cursor, scroll and
+ *   undo history; a pending save is sent right away when switching
+ * - Can jump to and select a range, e.g. a search match
  */
 
 "use client"
 
 import { useEffect, useRef, useState } from "react"
-import Editor from "@monaco-editor/react"
+import Editor, { type OnMount } from "@monaco-editor/react"
 import { useTheme } from "next-themes"
+import { MergeConflictEditor } from "@/components/MergeConflictEditor"
+import type { FileEditConflict } from "@/hooks/useFileEdit"
+
+// A range to select and scroll to. Pass a new object to jump again.
+export type EditorReveal = {
+  line: number
+  column: number
+  length: number
+}
 
 type MonacoEditorProps = {
   path: string
   content: string
-  onChangeAction: (content: string) => void
+  // Version of `content`, passed back with each change as the edit's base
+  version?: number
+  onChangeAction: (content: string, baseVersion?: number) => void
   readOnly?: boolean
+  conflict?: FileEditConflict | null
+  onResolveConflictAction?: (content: string | null) => void
+  // Called when typing starts waiting for the debounce, and once it's sent
+  onDirtyChangeAction?: (path: string, dirty: boolean) => void
+  reveal?: EditorReveal | null
+}
+
+type CodeEditor = Parameters<OnMount>[0]
+
+function revealRange(editor: CodeEditor, reveal: EditorReveal) {
+  const range = {
+    startLineNumber: reveal.line,
+    startColumn: reveal.column,
+    endLineNumber: reveal.line,
+    endColumn: reveal.column + reveal.length,
+  }
+  editor.setSelection(range)
+  editor.revealRangeInCenterIfOutsideViewport(range)
+  editor.focus()
+}
+
+// Get language from file extension
+export function getLanguage(filePath: string): string {
+  const ext = filePath.split(".").pop()?.toLowerCase()
+  switch (ext) {
+    case "ts":
+    case "tsx":
+      return "typescript"
+    case "js":
+    case "jsx":
+      return "javascript"
+    case "json":
+      return "json"
+    case "css":
+      return "css"
+    case "html":
+      return "html"
+    case "md":
+      return "markdown"
+    case "yml":
+    case "yaml":
+      return "yaml"
+    default:
+      return "plaintext"
+  }
 }
 
 export function MonacoEditor({
   path,
   content,
+  version,
   onChangeAction,
   readOnly = false,
+  conflict,
+  onResolveConflictAction,
+  onDirtyChangeAction,
+  reveal,
 }: MonacoEditorProps) {
   const { theme } = useTheme()
   const [localContent, setLocalContent] = useState(content)
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null)
+  // Sends the typing the debounce timer is waiting on
+  const pendingSaveRef = useRef<(() => void) | null>(null)
+  const editorRef = useRef<CodeEditor | null>(null)
+  // The latest reveal asked for, and the last one carried out
+  const revealRef = useRef(reveal)
+  const revealedRef = useRef<EditorReveal | null>(null)
 
-  // Update local content when prop changes (e.g., switching files)
-  useEffect(() => {
-    setLocalContent(content)
-  }, [content, path])
-
-  // Get language from file extension
-  const getLanguage = (filePath: string): string => {
-    const ext = filePath.split(".").pop()?.toLowerCase()
-    switch (ext) {
-      case "ts":
-      case "tsx":
-        return "typescript"
-      case "js":
-      case "jsx":
-        return "javascript"
-      case "json":
-        return "json"
-      case "css":
-        return "css"
-      case "html":
-        return "html"
-      case "md":
-        return "markdown"
-      case "yml":
-      case "yaml":
-        return "yaml"
-      default:
-        return "plaintext"
+  // What the editor shows, what was last loaded or sent for saving, and the
+  // version that content was based on. They differ while the user has
+  // typed something that hasn't been sent yet.
+  const localContentRef = useRef(content)
+  const savedContentRef = useRef(content)
+  const baseVersionRef = useRef(version)
+  const pathRef = useRef(path)
+
+  const loadContent = (next: string, nextVersion: number | undefined) => {
+    setLocalContent(next)
+    localContentRef.current = next
+    savedContentRef.current = next
+    baseVersionRef.current = nextVersion
+  }
+
+  const flushPendingSave = () => {
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current)
+      debounceTimerRef.current = null
     }
+    const save = pendingSaveRef.current
+    pendingSaveRef.current = null
+    save?.()
   }
 
+  // Update local content when prop changes (e.g., switching files).
+  // Unsaved typing is kept - saving it will surface the conflict.
+  useEffect(() => {
+    const switchedFile = pathRef.current !== path
+    pathRef.current = path
+    if (switchedFile) {
+      // Typing in the previous file still goes to that file
+      flushPendingSave()
+    } else if (localContentRef.current !== savedContentRef.current) {
+      return
+    }
+    loadContent(content, version)
+  }, [content, version, path])
+
   const handleEditorChange = (value: string | undefined) => {
     if (value === undefined) return
 
     setLocalContent(value)
+    localContentRef.current = value
 
     // Clear existing timer
     if (debounceTimerRef.current) {
       clearTimeout(debounceTimerRef.current)
+    } else {
+      onDirtyChangeAction?.(path, true)
+    }
+
+    pendingSaveRef.current = () => {
+      savedContentRef.current = value
+      onChangeAction(value, baseVersionRef.current)
+      onDirtyChangeAction?.(path, false)
     }
 
     // Set new timer for debounced save
-    debounceTimerRef.current = setTimeout(() => {
-      onChangeAction(value)
-    }, 300) // 300ms debounce
+    debounceTimerRef.current = setTimeout(flushPendingSave, 300) // 300ms debounce
+  }
+
+  // Each reveal is carried out once, so coming back to a file doesn't jump
+  // to an old search match again
+  const applyReveal = () => {
+    const next = revealRef.current
+    if (!editorRef.current || !next || next === revealedRef.current) return
+    revealedRef.current = next
+    revealRange(editorRef.current, next)
   }
 
-  // Cleanup timer on unmount
+  // Runs after the editor has switched to this path's model. A reveal
+  // requested before the editor is ready is applied once it mounts.
   useEffect(() => {
-    return () => {
-      if (debounceTimerRef.current) {
-        clearTimeout(debounceTimerRef.current)
-      }
-    }
+    revealRef.current = reveal
+    applyReveal()
+  }, [reveal])
+
+  // Send pending typing on unmount instead of dropping it
+  useEffect(() => {
+    return () => flushPendingSave()
   }, [])
 
+  if (conflict) {
+    return (
+      <MergeConflictEditor
+        conflict={conflict}
+        language={getLanguage(path)}
+        onResolveAction={(resolved) => {
+          if (resolved === null) {
+            loadContent(conflict.currentContent, conflict.currentVersion)
+          } else {
+            // The saved result comes back as a newer version and is
+            // picked up by the effect above
+            setLocalContent(resolved)
+            localContentRef.current = resolved
+            savedContentRef.current = resolved
+          }
+          onResolveConflictAction?.(resolved)
+        }}
+      />
+    )
+  }
+
   return (
     <Editor
       height="100%"
+      // A model per path keeps each file's view state and undo history.
+      // Models outlive this editor; there's one for every project file.
+      path={path}
+      defaultValue={content}
+      keepCurrentModel
       language={getLanguage(path)}
       value={localContent}
       onChange={handleEditorChange}
+      onMount={(editor) => {
+        editorRef.current = editor
+        applyReveal()
+      }}
       theme={theme === "dark" ? "vs-dark" : "light"}
       options={{
         readOnly,
@@ -1,6 +1,15 @@
 "use client"
 
-import React, { useState } from "react"
+import React, { useEffect, useRef, useState } from "react"
+import { useMutation, useQuery } from "convex/react"
+import { api } from "@/convex/_generated/api"
+import { Id } from "@/convex/_generated/dataModel"
+import {
+  PREVIEW_CONSOLE_MESSAGE,
+  type PreviewConsoleMessage,
+} from "@/convex/previewProxy"
+import type { LogEntry, LogLevel } from "@/convex/sandboxLogs"
+import type { DevServerStatus } from "@/convex/devServer"
 import {
   WebPreview,
   WebPreviewNavigation,
@@ -9,17 +18,121 @@ import {
   WebPreviewBody,
   WebPreviewConsole,
 } from "@/components/ai-elements/web-preview"
-import { ArrowLeftIcon, ArrowRightIcon, RotateCwIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import {
+  ArrowLeftIcon,
+  ArrowRightIcon,
+  LoaderCircleIcon,
+  RotateCwIcon,
+  Trash2Icon,
+} from "lucide-react"
 
 interface PreviewPanelProps {
+  projectId: Id<"projects">
   previewUrl?: string
+  status?: DevServerStatus
+  // Why the dev server crashed
+  error?: string
 }
 
-export function PreviewPanel({ previewUrl }: PreviewPanelProps) {
+// Browser logs are sent to Convex in batches this often
+const LOG_FLUSH_INTERVAL_MS = 500
+
+const LOG_LEVELS: { level: LogLevel; label: string }[] = [
+  { level: "log", label: "Logs" },
+  { level: "warn", label: "Warnings" },
+  { level: "error", label: "Errors" },
+]
+
+export function PreviewPanel({
+  projectId,
+  previewUrl,
+  status,
+  error,
+}: PreviewPanelProps) {
   const [url, setUrl] = useState(previewUrl || "")
   const [history, setHistory] = useState<string[]>([])
   const [currentIndex, setCurrentIndex] = useState(-1)
 
+  const logs = useQuery(api.sandboxLogs.getSandboxLogs, { projectId })
+  const appendLogs = useMutation(api.sandboxLogs.appendSandboxLogs)
+  const clearLogs = useMutation(api.sandboxLogs.clearSandboxLogs)
+  const [levels, setLevels] = useState<Set<LogLevel>>(
+    () => new Set(["log", "warn", "error"]),
+  )
+  const [search, setSearch] = useState("")
+  const pendingLogsRef = useRef<LogEntry[]>([])
+
+  // Console calls from the preview page, posted by the bridge the preview
+  // proxy adds to it
+  useEffect(() => {
+    if (!previewUrl) return
+    const origin = new URL(previewUrl).origin
+
+    const handleMessage = (event: MessageEvent) => {
+      const data = event.data as PreviewConsoleMessage | undefined
+      if (event.origin !== origin || data?.type !== PREVIEW_CONSOLE_MESSAGE) {
+        return
+      }
+      pendingLogsRef.current.push({
+        source: "browser",
+        level:
+          data.level === "warn" || data.level === "error" ? data.level : "log",
+        message: String(data.message),
+        createdAt: Date.now(),
+      })
+    }
+
+    const flush = () => {
+      const entries = pendingLogsRef.current
+      if (entries.length === 0) return
+      pendingLogsRef.current = []
+      appendLogs({ projectId, entries }).catch((error) =>
+        console.error("Failed to save preview console logs:", error),
+      )
+    }
+
+    window.addEventListener("message", handleMessage)
+    const timer = setInterval(flush, LOG_FLUSH_INTERVAL_MS)
+    return () => {
+      window.removeEventListener("message", handleMessage)
+      clearInterval(timer)
+      flush()
+    }
+  }, [previewUrl, projectId, appendLogs])
+
+  const query = search.trim().toLowerCase()
+  const visibleLogs = (logs ?? [])
+    .filter(
+      (log) =>
+        levels.has(log.level) &&
+        (!query || log.message.toLowerCase().includes(query)),
+    )
+    .map((log) => ({
+      level: log.level,
+      message: `[${log.source}] ${log.message}`,
+      timestamp: new Date(log.createdAt),
+    }))
+
+  const toggleLevel = (level: LogLevel) => {
+    setLevels((prev) => {
+      const next = new Set(prev)
+      if (next.has(level)) next.delete(level)
+      else next.add(level)
+      return next
+    })
+  }
+
+  const handleClearLogs = async () => {
+    try {
+      await clearLogs({ projectId })
+    } catch (error) {
+      console.error("Failed to clear logs:", error)
+    }
+  }
+
   // Update URL when previewUrl prop changes
   React.useEffect(() => {
     if (previewUrl && previewUrl !== url) {
@@ -65,12 +178,35 @@ export function PreviewPanel({ previewUrl }: PreviewPanelProps) {
   if (!previewUrl) {
     return (
       <div className="h-full flex items-center justify-center text-muted-foreground bg-muted/20">
-        <div className="text-center space-y-2">
-          <p className="text-sm">No preview available</p>
-          <p className="text-xs text-muted-foreground">
-            Click "Start" to launch the dev server
-          </p>
-        </div>
+        {status === "installing" || status === "starting" ? (
+          <div className="flex items-center gap-2">
+            <LoaderCircleIcon className="h-4 w-4 animate-spin" />
+            <p className="text-sm">
+              {status === "installing"
+                ? "Installing dependencies..."
+                : "Starting dev server..."}
+            </p>
+          </div>
+        ) : status === "crashed" ? (
+          <div className="max-w-lg space-y-2 px-6 text-center">
+            <p className="text-sm text-destructive">The dev server crashed</p>
+            {error && (
+              <pre className="max-h-48 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-left text-xs">
+                {error}
+              </pre>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Start it again once the problem is fixed
+            </p>
+          </div>
+        ) : (
+          <div className="text-center space-y-2">
+            <p className="text-sm">No preview available</p>
+            <p className="text-xs text-muted-foreground">
+              Click "Start" to launch the dev server
+            </p>
+          </div>
+        )}
       </div>
     )
   }
@@ -102,7 +238,38 @@ export function PreviewPanel({ previewUrl }: PreviewPanelProps) {
         <WebPreviewUrl />
       </WebPreviewNavigation>
       <WebPreviewBody />
-      <WebPreviewConsole />
+      <WebPreviewConsole
+        logs={visibleLogs}
+        actions={
+          <div className="flex items-center gap-1 pb-2">
+            {LOG_LEVELS.map(({ level, label }) => (
+              <Button
+                key={level}
+                size="xs"
+                variant={levels.has(level) ? "secondary" : "ghost"}
+                onClick={() => toggleLevel(level)}
+                className={cn(!levels.has(level) && "text-muted-foreground")}
+              >
+                {label}
+              </Button>
+            ))}
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Filter"
+              className="ml-auto h-6 w-40 text-xs"
+            />
+            <Button
+              size="icon-xs"
+              variant="ghost"
+              onClick={handleClearLogs}
+              title="Clear console"
+            >
+              <Trash2Icon />
+            </Button>
+          </div>
+        }
+      />
     </WebPreview>
   )
 }
@@ -0,0 +1,300 @@
+/**
+ * Search Panel
+ *
+ * Project-wide search and replace in the code panel's sidebar. Matches
+ * are grouped by file, with the lines around them; clicking one opens it
+ * in the editor.
+ */
+
+"use client"
+
+import { useEffect, useState } from "react"
+import { useQuery } from "convex/react"
+import {
+  CaseSensitiveIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  RegexIcon,
+  ReplaceAllIcon,
+  WholeWordIcon,
+} from "lucide-react"
+import { api } from "@/convex/_generated/api"
+import { Id } from "@/convex/_generated/dataModel"
+import type { SearchMatch, SearchOptions } from "@/convex/search"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+
+interface SearchPanelProps {
+  projectId: Id<"projects">
+  onOpenMatchAction: (path: string, match: SearchMatch) => void
+  onReplaceAllAction: (
+    options: SearchOptions,
+    replacement: string,
+    files: { path: string; version: number }[],
+  ) => Promise<number | null>
+}
+
+// Characters of a long line shown before its match
+const MATCH_LEAD = 30
+
+function OptionToggle({
+  active,
+  title,
+  onClick,
+  children,
+}: {
+  active: boolean
+  title: string
+  onClick: () => void
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      type="button"
+      title={title}
+      aria-pressed={active}
+      onClick={onClick}
+      className={cn(
+        "h-6 w-6 rounded-sm flex items-center justify-center text-muted-foreground hover:bg-accent",
+        active && "bg-primary/15 text-foreground",
+      )}
+    >
+      {children}
+    </button>
+  )
+}
+
+function MatchLine({ match }: { match: SearchMatch }) {
+  const start = match.column - 1
+  const lead = Math.max(0, start - MATCH_LEAD)
+
+  return (
+    <span className="whitespace-pre">
+      {lead > 0 && "…"}
+      {match.text.slice(lead, start).trimStart()}
+      <mark className="bg-yellow-300/60 dark:bg-yellow-500/40 text-foreground rounded-[2px]">
+        {match.text.slice(start, start + match.length)}
+      </mark>
+      {match.text.slice(start + match.length)}
+    </span>
+  )
+}
+
+export function SearchPanel({
+  projectId,
+  onOpenMatchAction,
+  onReplaceAllAction,
+}: SearchPanelProps) {
+  const [options, setOptions] = useState<SearchOptions>({
+    query: "",
+    isRegex: false,
+    caseSensitive: false,
+    wholeWord: false,
+    include: "",
+    exclude: "",
+  })
+  const [replacement, setReplacement] = useState("")
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [isReplacing, setIsReplacing] = useState(false)
+
+  // Search once typing pauses
+  const [searchedOptions, setSearchedOptions] = useState(options)
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchedOptions(options), 300)
+    return () => clearTimeout(timer)
+  }, [options])
+
+  const search = useQuery(
+    api.search.searchProjectFiles,
+    searchedOptions.query
+      ? { projectId, options: searchedOptions, contextLines: 1 }
+      : "skip",
+  )
+
+  const setOption = <K extends keyof SearchOptions>(
+    key: K,
+    value: SearchOptions[K],
+  ) => setOptions((prev) => ({ ...prev, [key]: value }))
+
+  const results = search?.results ?? []
+  const matchCount = results.reduce((sum, r) => sum + r.matches.length, 0)
+
+  const handleReplaceAll = async () => {
+    const confirmed = confirm(
+      `Replace ${matchCount} ${matchCount === 1 ? "match" : "matches"} in ${
+        results.length
+      } ${results.length === 1 ? "file" : "files"} with "${replacement}"?`,
+    )
+    if (!confirmed) return
+
+    setIsReplacing(true)
+    try {
+      await onReplaceAllAction(
+        searchedOptions,
+        replacement,
+        results.map((r) => ({ path: r.path, version: r.version })),
+      )
+    } finally {
+      setIsReplacing(false)
+    }
+  }
+
+  const inputClassName =
+    "w-full min-w-0 rounded-md border border-input bg-background px-2 py-1 text-sm outline-none focus-visible:border-ring"
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 space-y-2 border-b border-border">
+        <div className="relative">
+          <input
+            autoFocus
+            value={options.query}
+            onChange={(e) => setOption("query", e.target.value)}
+            placeholder="Search"
+            className={cn(inputClassName, "pr-20")}
+          />
+          <div className="absolute right-1 top-1/2 -translate-y-1/2 flex">
+            <OptionToggle
+              active={options.caseSensitive}
+              title="Match case"
+              onClick={() => setOption("caseSensitive", !options.caseSensitive)}
+            >
+              <CaseSensitiveIcon className="h-4 w-4" />
+            </OptionToggle>
+            <OptionToggle
+              active={options.wholeWord}
+              title="Match whole word"
+              onClick={() => setOption("wholeWord", !options.wholeWord)}
+            >
+              <WholeWordIcon className="h-4 w-4" />
+            </OptionToggle>
+            <OptionToggle
+              active={options.isRegex}
+              title="Use regular expression"
+              onClick={() => setOption("isRegex", !options.isRegex)}
+            >
+              <RegexIcon className="h-4 w-4" />
+            </OptionToggle>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            placeholder="Replace"
+            className={inputClassName}
+          />
+          <Button
+            size="icon-sm"
+            variant="ghost"
+            onClick={handleReplaceAll}
+            disabled={matchCount === 0 || isReplacing}
+            title="Replace all"
+          >
+            <ReplaceAllIcon className="h-4 w-4" />
+          </Button>
+        </div>
+        <input
+          value={options.include}
+          onChange={(e) => setOption("include", e.target.value)}
+          placeholder="Files to include (e.g. src/**, *.tsx)"
+          className={cn(inputClassName, "text-xs")}
+        />
+        <input
+          value={options.exclude}
+          onChange={(e) => setOption("exclude", e.target.value)}
+          placeholder="Files to exclude"
+          className={cn(inputClassName, "text-xs")}
+        />
+      </div>
+
+      <div className="flex-1 overflow-auto text-sm">
+        {search?.error ? (
+          <p className="p-3 text-xs text-destructive">{search.error}</p>
+        ) : searchedOptions.query && search === undefined ? (
+          <p className="p-3 text-xs text-muted-foreground">Searching...</p>
+        ) : searchedOptions.query ? (
+          <p className="px-3 py-2 text-xs text-muted-foreground">
+            {matchCount === 0
+              ? "No results"
+              : `${matchCount} ${matchCount === 1 ? "result" : "results"} in ${
+                  results.length
+                } ${results.length === 1 ? "file" : "files"}`}
+            {search?.truncated && " (showing the first matches only)"}
+          </p>
+        ) : null}
+
+        {results.map((result) => {
+          const isCollapsed = collapsed.has(result.path)
+          return (
+            <div key={result.path}>
+              <button
+                onClick={() =>
+                  setCollapsed((prev) => {
+                    const next = new Set(prev)
+                    if (isCollapsed) {
+                      next.delete(result.path)
+                    } else {
+                      next.add(result.path)
+                    }
+                    return next
+                  })
+                }
+                className="w-full flex items-center gap-1 px-2 py-1 hover:bg-accent text-left"
+                title={result.path}
+              >
+                {isCollapsed ? (
+                  <ChevronRightIcon className="h-3.5 w-3.5 shrink-0" />
+                ) : (
+                  <ChevronDownIcon className="h-3.5 w-3.5 shrink-0" />
+                )}
+                <span className="truncate font-medium">{result.path}</span>
+                <span className="ml-auto shrink-0 rounded-full bg-muted px-1.5 text-xs text-muted-foreground">
+                  {result.matches.length}
+                </span>
+              </button>
+
+              {!isCollapsed &&
+                result.matches.map((match, i) => (
+                  <button
+                    key={`${match.line}:${match.column}:${i}`}
+                    onClick={() => onOpenMatchAction(result.path, match)}
+                    className="w-full pl-6 pr-2 py-1 hover:bg-accent text-left font-mono text-xs overflow-hidden"
+                  >
+                    {match.before.map((line, j) => (
+                      <div
+                        key={`before-${j}`}
+                        className="truncate text-muted-foreground/70"
+                      >
+                        <span className="inline-block w-8 text-right mr-2">
+                          {match.line - match.before.length + j}
+                        </span>
+                        {line}
+                      </div>
+                    ))}
+                    <div className="truncate">
+                      <span className="inline-block w-8 text-right mr-2 text-muted-foreground">
+                        {match.line}
+                      </span>
+                      <MatchLine match={match} />
+                    </div>
+                    {match.after.map((line, j) => (
+                      <div
+                        key={`after-${j}`}
+                        className="truncate text-muted-foreground/70"
+                      >
+                        <span className="inline-block w-8 text-right mr-2">
+                          {match.line + j + 1}
+                        </span>
+                        {line}
+                      </div>
+                    ))}
+                  </button>
+                ))}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
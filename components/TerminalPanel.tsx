@@ -0,0 +1,269 @@
+/**
+ * Terminal Panel
+ *
+ * Shells in the project's sandbox, one tab per session. Output is
+ * rendered with xterm from what the sandbox streamed into Convex, so a
+ * session picks up where it was after switching tabs or reloading.
+ */
+
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useQuery } from "convex/react"
+import { useTheme } from "next-themes"
+import { PlusIcon, SquareTerminalIcon, XIcon } from "lucide-react"
+import type { ITheme, Terminal } from "@xterm/xterm"
+import "@xterm/xterm/css/xterm.css"
+import { api } from "@/convex/_generated/api"
+import { Doc, Id } from "@/convex/_generated/dataModel"
+import { Button } from "@/components/ui/button"
+import { useTerminalSessions } from "@/hooks/useTerminalSessions"
+import { cn } from "@/lib/utils"
+
+interface TerminalPanelProps {
+  projectId: Id<"projects">
+  sandboxId: string | undefined
+}
+
+// Size of a new session before the view has measured itself
+const DEFAULT_SIZE = { cols: 80, rows: 24 }
+
+// Resizing the PTY waits for dragging to stop
+const RESIZE_DEBOUNCE_MS = 200
+
+const DARK_THEME: ITheme = { background: "#1e1e1e", foreground: "#d4d4d4" }
+const LIGHT_THEME: ITheme = {
+  background: "#ffffff",
+  foreground: "#1f1f1f",
+  cursor: "#1f1f1f",
+  selectionBackground: "#add6ff",
+}
+
+interface TerminalViewProps {
+  session: Doc<"terminalSessions">
+  onInputAction: (data: string) => void
+  onResizeAction: (cols: number, rows: number) => void
+  onOutputAction: () => void
+}
+
+function TerminalView({
+  session,
+  onInputAction,
+  onResizeAction,
+  onOutputAction,
+}: TerminalViewProps) {
+  const { resolvedTheme } = useTheme()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [terminal, setTerminal] = useState<Terminal | null>(null)
+  // Sequence number of the last output chunk written to the terminal
+  const writtenSeqRef = useRef(0)
+  const output = useQuery(api.terminalSessions.getTerminalOutput, {
+    sessionId: session._id,
+  })
+
+  // Latest callbacks, so the terminal is only created once
+  const callbacksRef = useRef({ onInputAction, onResizeAction, onOutputAction })
+  useEffect(() => {
+    callbacksRef.current = { onInputAction, onResizeAction, onOutputAction }
+  }, [onInputAction, onResizeAction, onOutputAction])
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    let disposed = false
+    let cleanup = () => {}
+
+    // xterm needs the DOM, so it's loaded in the browser only
+    Promise.all([import("@xterm/xterm"), import("@xterm/addon-fit")]).then(
+      ([{ Terminal }, { FitAddon }]) => {
+        if (disposed) return
+
+        const instance = new Terminal({
+          cursorBlink: true,
+          fontSize: 13,
+          fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+          scrollback: 5000,
+        })
+        const fitAddon = new FitAddon()
+        instance.loadAddon(fitAddon)
+        instance.open(container)
+
+        // Hidden containers have no size to fit to
+        const fit = () => {
+          if (container.clientWidth > 0 && container.clientHeight > 0) {
+            fitAddon.fit()
+          }
+        }
+        const observer = new ResizeObserver(fit)
+        observer.observe(container)
+
+        let resizeTimer: NodeJS.Timeout | undefined
+        const resizeListener = instance.onResize(({ cols, rows }) => {
+          clearTimeout(resizeTimer)
+          resizeTimer = setTimeout(
+            () => callbacksRef.current.onResizeAction(cols, rows),
+            RESIZE_DEBOUNCE_MS,
+          )
+        })
+        const dataListener = instance.onData((data) =>
+          callbacksRef.current.onInputAction(data),
+        )
+
+        fit()
+        instance.focus()
+        writtenSeqRef.current = 0
+        setTerminal(instance)
+
+        cleanup = () => {
+          clearTimeout(resizeTimer)
+          observer.disconnect()
+          resizeListener.dispose()
+          dataListener.dispose()
+          instance.dispose()
+        }
+      },
+    )
+
+    return () => {
+      disposed = true
+      cleanup()
+      setTerminal(null)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (terminal) {
+      terminal.options.theme =
+        resolvedTheme === "dark" ? DARK_THEME : LIGHT_THEME
+    }
+  }, [terminal, resolvedTheme])
+
+  // Write the chunks that arrived since the last render
+  useEffect(() => {
+    if (!terminal || !output) return
+    const fresh = output.filter((chunk) => chunk.seq > writtenSeqRef.current)
+    if (fresh.length === 0) return
+
+    for (const chunk of fresh) terminal.write(chunk.data)
+    writtenSeqRef.current = fresh[fresh.length - 1].seq
+    callbacksRef.current.onOutputAction()
+  }, [terminal, output])
+
+  return (
+    <div
+      className={cn(
+        "h-full p-2",
+        resolvedTheme === "dark" ? "bg-[#1e1e1e]" : "bg-white",
+      )}
+    >
+      <div ref={containerRef} className="h-full w-full" />
+    </div>
+  )
+}
+
+export function TerminalPanel({ projectId, sandboxId }: TerminalPanelProps) {
+  const terminals = useTerminalSessions(projectId, sandboxId)
+  const { sessions, openSession } = terminals
+  const [activeId, setActiveId] = useState<Id<"terminalSessions"> | null>(null)
+  const autoOpenedRef = useRef(false)
+
+  const active =
+    sessions?.find((session) => session._id === activeId) ?? sessions?.[0]
+
+  const handleOpen = async () => {
+    const sessionId = await openSession(DEFAULT_SIZE.cols, DEFAULT_SIZE.rows)
+    if (sessionId) setActiveId(sessionId)
+  }
+
+  // Open a first shell when the tab is shown without any
+  useEffect(() => {
+    if (!sandboxId || !sessions || autoOpenedRef.current) return
+    autoOpenedRef.current = true
+    if (sessions.length === 0) {
+      openSession(DEFAULT_SIZE.cols, DEFAULT_SIZE.rows)
+    }
+  }, [sandboxId, sessions, openSession])
+
+  if (!sandboxId) {
+    return (
+      <div className="h-full flex items-center justify-center text-muted-foreground">
+        <p className="text-sm">
+          The terminal is available once the sandbox has started
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-stretch border-b border-border bg-muted/20">
+        <div className="flex-1 flex overflow-x-auto">
+          {sessions?.map((session, index) => (
+            <div
+              key={session._id}
+              onClick={() => setActiveId(session._id)}
+              className={cn(
+                "group flex items-center gap-1.5 border-r border-border pl-3 pr-1.5 py-1.5 text-sm cursor-pointer select-none whitespace-nowrap",
+                session._id === active?._id
+                  ? "bg-background text-foreground"
+                  : "text-muted-foreground hover:bg-accent/50",
+              )}
+            >
+              <SquareTerminalIcon className="h-3.5 w-3.5 shrink-0" />
+              <span>Terminal {index + 1}</span>
+              {session.status === "exited" && (
+                <span className="text-xs text-muted-foreground">(exited)</span>
+              )}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  terminals.closeSession(session._id)
+                }}
+                className="h-4 w-4 rounded-sm flex items-center justify-center hover:bg-accent"
+                title="Close terminal"
+              >
+                <XIcon className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center px-1 border-l border-border">
+          <Button
+            size="icon-sm"
+            variant="ghost"
+            onClick={handleOpen}
+            title="New terminal"
+          >
+            <PlusIcon className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-hidden">
+        {active ? (
+          <TerminalView
+            key={active._id}
+            session={active}
+            onInputAction={(data) => terminals.sendInput(active._id, data)}
+            onResizeAction={(cols, rows) =>
+              terminals.resize(active._id, cols, rows)
+            }
+            onOutputAction={terminals.notifyOutput}
+          />
+        ) : (
+          <div className="h-full flex items-center justify-center text-muted-foreground">
+            <p className="text-sm">
+              {sessions === undefined ? "Loading..." : "No terminals open"}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {terminals.lastError && (
+        <div className="border-t border-border px-4 py-2 bg-destructive/10">
+          <p className="text-sm text-destructive">{terminals.lastError}</p>
+        </div>
+      )}
+    </div>
+  )
+}
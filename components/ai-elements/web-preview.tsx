@@ -197,11 +197,14 @@ export type WebPreviewConsoleProps = ComponentProps<"div"> & {
     message: string;
     timestamp: Date;
   }>;
+  // Controls shown above the logs, e.g. filters
+  actions?: ReactNode;
 };
 
 export const WebPreviewConsole = ({
   className,
   logs = [],
+  actions,
   children,
   ...props
 }: WebPreviewConsoleProps) => {
@@ -234,6 +237,7 @@ export const WebPreviewConsole = ({
           "data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95 data-[side=bottom]:slide-in-from-top-2 data-[side=left]:slide-in-from-right-2 data-[side=right]:slide-in-from-left-2 data-[side=top]:slide-in-from-bottom-2 outline-none data-[state=closed]:animate-out data-[state=open]:animate-in"
         )}
       >
+        {actions}
         <div className="max-h-48 space-y-1 overflow-y-auto">
           {logs.length === 0 ? (
             <p className="text-muted-foreground">No console output</p>
@@ -8,12 +8,49 @@
  * @module
  */
 
+import type * as agent from "../agent.js";
+import type * as agentDiagnostics from "../agentDiagnostics.js";
+import type * as agentLoop from "../agentLoop.js";
+import type * as agentModel from "../agentModel.js";
+import type * as agentShell from "../agentShell.js";
+import type * as agentTools from "../agentTools.js";
+import type * as archives from "../archives.js";
+import type * as checkpoints from "../checkpoints.js";
 import type * as cleanup from "../cleanup.js";
+import type * as commandPolicy from "../commandPolicy.js";
+import type * as contentTypes from "../contentTypes.js";
+import type * as crons from "../crons.js";
+import type * as devServer from "../devServer.js";
+import type * as devServerLogs from "../devServerLogs.js";
+import type * as diagnostics from "../diagnostics.js";
+import type * as fileAssets from "../fileAssets.js";
+import type * as fileConflict from "../fileConflict.js";
+import type * as fileVersions from "../fileVersions.js";
 import type * as files from "../files.js";
+import type * as importFilters from "../importFilters.js";
+import type * as messageParts from "../messageParts.js";
 import type * as messages from "../messages.js";
+import type * as orphanReaper from "../orphanReaper.js";
+import type * as previewProxy from "../previewProxy.js";
 import type * as projects from "../projects.js";
 import type * as sandbox from "../sandbox.js";
+import type * as sandboxFiles from "../sandboxFiles.js";
+import type * as sandboxLogs from "../sandboxLogs.js";
+import type * as sandboxProvider from "../sandboxProvider.js";
+import type * as sandboxProviders_e2b from "../sandboxProviders/e2b.js";
+import type * as sandboxProviders_local from "../sandboxProviders/local.js";
+import type * as sandboxReaper from "../sandboxReaper.js";
+import type * as sandboxes from "../sandboxes.js";
+import type * as search from "../search.js";
+import type * as starters_html from "../starters/html.js";
+import type * as starters_nextjsApp from "../starters/nextjsApp.js";
+import type * as starters_viteReact from "../starters/viteReact.js";
+import type * as templateImport from "../templateImport.js";
+import type * as templateRegistry from "../templateRegistry.js";
 import type * as templates from "../templates.js";
+import type * as terminal from "../terminal.js";
+import type * as terminalSessions from "../terminalSessions.js";
+import type * as typeDeclarations from "../typeDeclarations.js";
 
 import type {
   ApiFromModules,
@@ -22,12 +59,49 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  agent: typeof agent;
+  agentDiagnostics: typeof agentDiagnostics;
+  agentLoop: typeof agentLoop;
+  agentModel: typeof agentModel;
+  agentShell: typeof agentShell;
+  agentTools: typeof agentTools;
+  archives: typeof archives;
+  checkpoints: typeof checkpoints;
   cleanup: typeof cleanup;
+  commandPolicy: typeof commandPolicy;
+  contentTypes: typeof contentTypes;
+  crons: typeof crons;
+  devServer: typeof devServer;
+  devServerLogs: typeof devServerLogs;
+  diagnostics: typeof diagnostics;
+  fileAssets: typeof fileAssets;
+  fileConflict: typeof fileConflict;
+  fileVersions: typeof fileVersions;
   files: typeof files;
+  importFilters: typeof importFilters;
+  messageParts: typeof messageParts;
   messages: typeof messages;
+  orphanReaper: typeof orphanReaper;
+  previewProxy: typeof previewProxy;
   projects: typeof projects;
   sandbox: typeof sandbox;
+  sandboxFiles: typeof sandboxFiles;
+  sandboxLogs: typeof sandboxLogs;
+  sandboxProvider: typeof sandboxProvider;
+  "sandboxProviders/e2b": typeof sandboxProviders_e2b;
+  "sandboxProviders/local": typeof sandboxProviders_local;
+  sandboxReaper: typeof sandboxReaper;
+  sandboxes: typeof sandboxes;
+  search: typeof search;
+  "starters/html": typeof starters_html;
+  "starters/nextjsApp": typeof starters_nextjsApp;
+  "starters/viteReact": typeof starters_viteReact;
+  templateImport: typeof templateImport;
+  templateRegistry: typeof templateRegistry;
   templates: typeof templates;
+  terminal: typeof terminal;
+  terminalSessions: typeof terminalSessions;
+  typeDeclarations: typeof typeDeclarations;
 }>;
 
 /**
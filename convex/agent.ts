@@ -0,0 +1,380 @@
+"use node"
+
+import { action, type ActionCtx } from "./_generated/server"
+import { v } from "convex/values"
+import { api } from "./_generated/api"
+import { Doc, Id } from "./_generated/dataModel"
+import type { ModelMessage } from "ai"
+import { getSandboxProvider } from "./sandboxProvider"
+import { runAgentLoop } from "./agentLoop"
+import type { CommandRunner } from "./agentShell"
+import type { DiagnosticsRunner } from "./agentDiagnostics"
+import type { FileStore, StoredFile } from "./agentTools"
+import { getAgentModel } from "./agentModel"
+import type { MessagePart } from "./messageParts"
+
+// How often buffered tokens are written to the message
+const STREAM_FLUSH_INTERVAL_MS = 150
+
+export const runAgent = action({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, { projectId }): Promise<Id<"messages">> => {
+    const project = await ctx.runQuery(api.projects.getProject, { projectId })
+    if (!project) throw new Error("Project not found")
+
+    // The latest user message is already in the table, so the whole
+    // conversation becomes the prompt
+    const history = await loadHistory(ctx, projectId)
+
+    const messageId = await ctx.runMutation(
+      api.messages.createStreamingMessage,
+      { projectId },
+    )
+
+    // Snapshot the files before the agent touches them so the turn can be
+    // undone from the chat
+    await ctx.runMutation(api.checkpoints.createCheckpoint, {
+      projectId,
+      messageId,
+    })
+
+    console.log(`Running agent for project ${projectId}`)
+
+    await streamAgentReply(ctx, {
+      project,
+      messageId,
+      history,
+      continuation: [],
+      initialParts: [],
+      previousSteps: 0,
+    })
+
+    return messageId
+  },
+})
+
+/**
+ * Approve or reject a tool call the agent paused on.
+ * Once every pending call on the message has an answer the run resumes
+ * in this action, picking up from the stored model messages.
+ */
+export const respondToApproval = action({
+  args: {
+    messageId: v.id("messages"),
+    approvalId: v.string(),
+    approved: v.boolean(),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, { messageId, approvalId, approved, reason }) => {
+    const paused = await ctx.runMutation(api.messages.respondToApproval, {
+      messageId,
+      approvalId,
+      approved,
+      reason,
+    })
+    // Other calls in the same step are still waiting
+    if (!paused) return
+
+    const project = await ctx.runQuery(api.projects.getProject, {
+      projectId: paused.projectId,
+    })
+    if (!project) throw new Error("Project not found")
+
+    const history = await loadHistory(ctx, paused.projectId, messageId)
+
+    // Every call answered since the pause goes back to the model as one
+    // tool message; the SDK executes approved calls before the next step
+    const responses: ModelMessage = {
+      role: "tool",
+      content: paused.parts.flatMap((part) =>
+        part.type === "tool-call" &&
+        part.state === "approval-responded" &&
+        part.approval?.approved !== undefined
+          ? [
+              {
+                type: "tool-approval-response" as const,
+                approvalId: part.approval.id,
+                approved: part.approval.approved,
+                reason: part.approval.reason,
+              },
+            ]
+          : [],
+      ),
+    }
+
+    console.log(`Resuming agent for message ${messageId}`)
+
+    await streamAgentReply(ctx, {
+      project,
+      messageId,
+      history,
+      continuation: [
+        ...(paused.pendingModelMessages as ModelMessage[]),
+        responses,
+      ],
+      initialParts: paused.parts,
+      previousSteps: paused.steps,
+    })
+  },
+})
+
+/**
+ * Conversation so far as model messages, up to (not including) `beforeMessageId`.
+ */
+async function loadHistory(
+  ctx: ActionCtx,
+  projectId: Id<"projects">,
+  beforeMessageId?: Id<"messages">,
+): Promise<ModelMessage[]> {
+  const history = await ctx.runQuery(api.messages.getMessages, { projectId })
+  const end = beforeMessageId
+    ? history.findIndex((message) => message._id === beforeMessageId)
+    : -1
+
+  // Skip empty replies left behind by failed or cancelled runs
+  return history
+    .slice(0, end === -1 ? history.length : end)
+    .filter((message) => message.content.trim())
+    .map((message) => ({
+      role: message.role,
+      content: message.content,
+    }))
+}
+
+function toStoredFile(file: Doc<"files">): StoredFile {
+  return {
+    path: file.path,
+    content: file.content,
+    version: file.version,
+    binary: file.storageId
+      ? {
+          contentType: file.contentType ?? "application/octet-stream",
+          size: file.size ?? 0,
+        }
+      : undefined,
+  }
+}
+
+/**
+ * Run the agent loop and stream its parts into an existing message.
+ *
+ * `continuation` holds the model messages of a paused run plus the
+ * approval responses; it is empty for a fresh run. If the run pauses
+ * again it is stored on the message together with the new messages.
+ */
+async function streamAgentReply(
+  ctx: ActionCtx,
+  {
+    project,
+    messageId,
+    history,
+    continuation,
+    initialParts,
+    previousSteps,
+  }: {
+    project: Doc<"projects">
+    messageId: Id<"messages">
+    history: ModelMessage[]
+    continuation: ModelMessage[]
+    initialParts: MessagePart[]
+    previousSteps: number
+  },
+) {
+  const projectId = project._id
+
+  // Files go through the same mutations the editor uses, then get
+  // mirrored to the sandbox so the preview picks them up
+  const mirrorToSandbox = async (
+    description: string,
+    sync: (sandboxId: string) => Promise<unknown>,
+  ) => {
+    if (!project.sandboxId) return
+    try {
+      await sync(project.sandboxId)
+    } catch (error) {
+      // Convex is the source of truth, the sandbox catches up on restart
+      console.warn(`Agent could not ${description} in sandbox:`, error)
+    }
+  }
+
+  const files: FileStore = {
+    listFiles: async () => {
+      const rows = await ctx.runQuery(api.files.getProjectFiles, {
+        projectId,
+      })
+      return rows.map(toStoredFile)
+    },
+    readFile: async (path) => {
+      const file = await ctx.runQuery(api.files.getFile, { projectId, path })
+      return file ? toStoredFile(file) : null
+    },
+    writeFile: async (path, content) => {
+      const { version } = await ctx.runMutation(api.files.updateFile, {
+        projectId,
+        path,
+        content,
+        author: "agent",
+        messageId,
+      })
+      await mirrorToSandbox(`write ${path}`, (sandboxId) =>
+        ctx.runAction(api.sandbox.syncFileToSandbox, {
+          sandboxId,
+          path,
+          content,
+          version,
+        }),
+      )
+      return { version }
+    },
+    renameFile: async (fromPath, toPath) => {
+      const { version } = await ctx.runMutation(api.files.renameFile, {
+        projectId,
+        fromPath,
+        toPath,
+        author: "agent",
+        messageId,
+      })
+      await mirrorToSandbox(`rename ${fromPath}`, (sandboxId) =>
+        ctx.runAction(api.sandbox.renameFileInSandbox, {
+          sandboxId,
+          fromPath,
+          toPath,
+        }),
+      )
+      return { version }
+    },
+    deleteFile: async (path) => {
+      await ctx.runMutation(api.files.deleteFile, {
+        projectId,
+        path,
+        author: "agent",
+        messageId,
+      })
+      await mirrorToSandbox(`delete ${path}`, (sandboxId) =>
+        ctx.runAction(api.sandbox.deleteFileFromSandbox, { sandboxId, path }),
+      )
+    },
+  }
+
+  // Commands run in the project's sandbox, from the project root
+  const commands: CommandRunner | undefined = project.sandboxId
+    ? {
+        run: async (command, { cwd, timeoutMs, onStdout, onStderr }) => {
+          const sandbox = await getSandboxProvider().connect(project.sandboxId!)
+
+          // A non-zero exit is a normal result for the agent, not a failure
+          return await sandbox.run(command, {
+            cwd: cwd ? `${sandbox.projectRoot}/${cwd}` : undefined,
+            timeoutMs,
+            onStdout,
+            onStderr,
+          })
+        },
+      }
+    : undefined
+
+  // Checks store their results too, so the editor shows what the agent saw
+  const diagnostics: DiagnosticsRunner | undefined = project.sandboxId
+    ? () =>
+        ctx.runAction(api.sandbox.runDiagnostics, {
+          projectId,
+          sandboxId: project.sandboxId!,
+        })
+    : undefined
+
+  // Parts are buffered and flushed on an interval so a fast model doesn't
+  // turn into one mutation per token. Each flush also renews the message's
+  // streaming lease and reports whether the user pressed stop.
+  const abortController = new AbortController()
+  let latestParts: MessagePart[] = []
+  let flushing: Promise<void> = Promise.resolve()
+
+  const flush = () => {
+    flushing = flushing.then(async () => {
+      try {
+        const { cancelRequested } = await ctx.runMutation(
+          api.messages.updateMessageParts,
+          { messageId, parts: latestParts },
+        )
+        if (cancelRequested && !abortController.signal.aborted) {
+          console.log(`Agent run for message ${messageId} cancelled by user`)
+          abortController.abort()
+        }
+      } catch (error) {
+        console.warn(`Failed to flush message parts:`, error)
+      }
+    })
+    return flushing
+  }
+
+  const flushTimer = setInterval(flush, STREAM_FLUSH_INTERVAL_MS)
+  const model = getAgentModel()
+  latestParts = initialParts
+
+  try {
+    const result = await runAgentLoop({
+      model,
+      messages: [...history, ...continuation],
+      initialParts,
+      files,
+      commands,
+      diagnostics,
+      abortSignal: abortController.signal,
+      onPartsChange: (parts) => {
+        latestParts = parts.map((part) => ({ ...part }))
+      },
+    })
+
+    clearInterval(flushTimer)
+    latestParts = result.parts
+    await flush()
+
+    const metadata = {
+      model: typeof model === "string" ? model : model.modelId,
+      steps: previousSteps + result.steps,
+    }
+
+    if (result.awaitingApproval) {
+      console.log(`Agent paused for approval on message ${messageId}`)
+
+      await ctx.runMutation(api.messages.finishMessage, {
+        messageId,
+        status: "awaiting-approval",
+        metadata,
+        // Round-trip through JSON to drop undefined fields, which
+        // Convex does not store
+        pendingModelMessages: JSON.parse(
+          JSON.stringify([...continuation, ...result.responseMessages]),
+        ),
+      })
+      return
+    }
+
+    console.log(
+      `Agent finished in ${result.steps} steps, edited ${result.editedFiles.length} files`,
+    )
+
+    await ctx.runMutation(api.messages.finishMessage, {
+      messageId,
+      status: "complete",
+      metadata,
+    })
+  } catch (error) {
+    clearInterval(flushTimer)
+
+    console.error("Agent run failed:", error)
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error"
+
+    latestParts = [...latestParts, { type: "error", message: errorMessage }]
+    await flush()
+
+    await ctx.runMutation(api.messages.finishMessage, {
+      messageId,
+      status: "error",
+      error: errorMessage,
+    })
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Agent Diagnostics Tool
+ *
+ * The get_diagnostics tool. Type-checks and lints the project through a
+ * DiagnosticsRunner (the project's sandbox in production), so the agent can fix
+ * the errors its changes caused. The editor shows the same results.
+ */
+
+import { tool } from "ai"
+import { z } from "zod"
+import type { Diagnostic } from "./diagnostics"
+
+// Problems listed to the model, errors first
+const MAX_REPORTED_DIAGNOSTICS = 50
+
+export type DiagnosticsRunner = () => Promise<Diagnostic[]>
+
+// e.g. "src/App.tsx:12:5 error TS2322: Type 'string' is not ..."
+function formatDiagnostic(diagnostic: Diagnostic): string {
+  const code = diagnostic.code ? ` ${diagnostic.code}:` : ""
+  return `${diagnostic.path}:${diagnostic.line}:${diagnostic.column} ${diagnostic.severity}${code} ${diagnostic.message}`
+}
+
+export function createDiagnosticsTools(runDiagnostics: DiagnosticsRunner) {
+  return {
+    get_diagnostics: tool({
+      description:
+        "Type-check and lint the project in its sandbox (tsc and ESLint, where configured) " +
+        "and list the errors and warnings found. Use it after making changes to catch mistakes.",
+      inputSchema: z.object({
+        path: z
+          .string()
+          .optional()
+          .describe("Only report problems in this file or folder"),
+      }),
+      execute: async ({ path }) => {
+        const prefix = path?.replace(/^\.\//, "").replace(/\/$/, "")
+        const diagnostics = (await runDiagnostics())
+          .filter(
+            (d) =>
+              !prefix || d.path === prefix || d.path.startsWith(`${prefix}/`),
+          )
+          .sort(
+            (a, b) =>
+              Number(a.severity === "warning") -
+                Number(b.severity === "warning") ||
+              a.path.localeCompare(b.path) ||
+              a.line - b.line,
+          )
+
+        const errors = diagnostics.filter((d) => d.severity === "error")
+        return {
+          errors: errors.length,
+          warnings: diagnostics.length - errors.length,
+          problems: diagnostics
+            .slice(0, MAX_REPORTED_DIAGNOSTICS)
+            .map(formatDiagnostic),
+          truncated: diagnostics.length > MAX_REPORTED_DIAGNOSTICS,
+        }
+      },
+    }),
+  }
+}
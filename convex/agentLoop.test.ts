@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest"
+import { simulateReadableStream } from "ai"
+import { MockLanguageModelV3 } from "ai/test"
+import type { LanguageModelV3StreamPart } from "@ai-sdk/provider"
+import { runAgentLoop } from "./agentLoop"
+import { InMemoryFileStore } from "./agentTools"
+
+/**
+ * A single scripted model turn: plain text (ends the run) or a list of
+ * tool calls (continues the loop).
+ */
+type MockAgentStep =
+  | { text: string }
+  | { toolCalls: Array<{ toolName: string; input: Record<string, unknown> }> }
+
+const MOCK_USAGE = {
+  inputTokens: {
+    total: 0,
+    noCache: 0,
+    cacheRead: undefined,
+    cacheWrite: undefined,
+  },
+  outputTokens: { total: 0, text: 0, reasoning: undefined },
+}
+
+/**
+ * A model that streams back the given steps in order, then keeps replying
+ * with the last one.
+ */
+function createMockAgentModel(steps: MockAgentStep[]) {
+  let stepIndex = 0
+
+  return new MockLanguageModelV3({
+    provider: "mock",
+    modelId: "mock-agent",
+    doStream: async () => {
+      const step = steps[Math.min(stepIndex, steps.length - 1)]
+      stepIndex++
+
+      return {
+        stream: simulateReadableStream({
+          chunks: toStreamParts(step, stepIndex),
+        }),
+      }
+    },
+  })
+}
+
+function toStreamParts(
+  step: MockAgentStep,
+  stepIndex: number,
+): LanguageModelV3StreamPart[] {
+  const parts: LanguageModelV3StreamPart[] = [
+    { type: "stream-start", warnings: [] },
+  ]
+
+  if ("text" in step) {
+    const id = `mock-text-${stepIndex}`
+    parts.push({ type: "text-start", id })
+    // Split on word boundaries so consumers see incremental deltas
+    for (const word of step.text.match(/\S+\s*/g) ?? []) {
+      parts.push({ type: "text-delta", id, delta: word })
+    }
+    parts.push({ type: "text-end", id })
+    parts.push({
+      type: "finish",
+      finishReason: { unified: "stop", raw: "stop" },
+      usage: MOCK_USAGE,
+    })
+    return parts
+  }
+
+  step.toolCalls.forEach((call, i) => {
+    parts.push({
+      type: "tool-call",
+      toolCallId: `mock-call-${stepIndex}-${i}`,
+      toolName: call.toolName,
+      input: JSON.stringify(call.input),
+    })
+  })
+  parts.push({
+    type: "finish",
+    finishReason: { unified: "tool-calls", raw: "tool_calls" },
+    usage: MOCK_USAGE,
+  })
+  return parts
+}
+
+const userMessage = (content: string) => [{ role: "user" as const, content }]
+
+describe("runAgentLoop", () => {
+  it("applies tool calls to the file store and records them as parts", async () => {
+    const files = new InMemoryFileStore([
+      { path: "src/App.tsx", content: "export default 1\n" },
+    ])
+    const model = createMockAgentModel([
+      {
+        toolCalls: [
+          {
+            toolName: "write_file",
+            input: { path: "src/App.tsx", content: "export default 2\n" },
+          },
+        ],
+      },
+      { text: "Changed the default export." },
+    ])
+    const snapshots: number[] = []
+
+    const result = await runAgentLoop({
+      model,
+      messages: userMessage("Bump the export"),
+      files,
+      onPartsChange: (parts) => snapshots.push(parts.length),
+    })
+
+    expect(await files.readFile("src/App.tsx")).toMatchObject({
+      content: "export default 2\n",
+      version: 2,
+    })
+    expect(result.steps).toBe(2)
+    expect(result.editedFiles).toEqual(["src/App.tsx"])
+    expect(result.aborted).toBe(false)
+    expect(result.awaitingApproval).toBe(false)
+    expect(result.parts.map((p) => p.type)).toEqual([
+      "tool-call",
+      "file-edit",
+      "text",
+    ])
+    expect(result.parts[0]).toMatchObject({
+      toolName: "write_file",
+      state: "output-available",
+      output: { path: "src/App.tsx", version: 2 },
+    })
+    expect(result.parts[1]).toMatchObject({
+      operation: "update",
+      beforeVersion: 1,
+      afterVersion: 2,
+    })
+    expect(result.parts[2]).toEqual({
+      type: "text",
+      text: "Changed the default export.",
+    })
+    // Text arrives as several deltas, not one final update
+    expect(snapshots.length).toBeGreaterThan(3)
+  })
+
+  it("reports failing tool calls to the model and keeps going", async () => {
+    const files = new InMemoryFileStore()
+    const model = createMockAgentModel([
+      { toolCalls: [{ toolName: "read_file", input: { path: "missing.ts" } }] },
+      { text: "That file doesn't exist." },
+    ])
+
+    const result = await runAgentLoop({
+      model,
+      messages: userMessage("Read missing.ts"),
+      files,
+    })
+
+    expect(result.parts[0]).toMatchObject({
+      type: "tool-call",
+      state: "output-error",
+      errorText: "File not found: missing.ts",
+    })
+    expect(result.parts.at(-1)).toEqual({
+      type: "text",
+      text: "That file doesn't exist.",
+    })
+  })
+
+  it("pauses on tool calls that need approval", async () => {
+    const files = new InMemoryFileStore([
+      { path: "src/old.ts", content: "old\n" },
+    ])
+    const model = createMockAgentModel([
+      {
+        toolCalls: [{ toolName: "delete_file", input: { path: "src/old.ts" } }],
+      },
+      { text: "Deleted." },
+    ])
+
+    const result = await runAgentLoop({
+      model,
+      messages: userMessage("Delete src/old.ts"),
+      files,
+    })
+
+    expect(result.awaitingApproval).toBe(true)
+    expect(result.steps).toBe(1)
+    expect(result.parts).toEqual([
+      expect.objectContaining({
+        type: "tool-call",
+        toolName: "delete_file",
+        state: "approval-requested",
+      }),
+    ])
+    expect(result.responseMessages.length).toBeGreaterThan(0)
+    expect(await files.readFile("src/old.ts")).not.toBeNull()
+  })
+
+  it("stops when aborted", async () => {
+    const abortController = new AbortController()
+    abortController.abort()
+
+    const result = await runAgentLoop({
+      model: createMockAgentModel([{ text: "Never seen" }]),
+      messages: userMessage("Hello"),
+      files: new InMemoryFileStore(),
+      abortSignal: abortController.signal,
+    })
+
+    expect(result.aborted).toBe(true)
+    expect(result.responseMessages).toEqual([])
+  })
+})
@@ -0,0 +1,237 @@
+/**
+ * Agent Loop
+ *
+ * Runs the tool-calling loop for the coding agent.
+ * Kept free of Convex and E2B so it can be driven by a mock model
+ * and an in-memory file store.
+ */
+
+import {
+  stepCountIs,
+  streamText,
+  type LanguageModel,
+  type ModelMessage,
+  type ToolSet,
+} from "ai"
+import { createShellTools, type CommandRunner } from "./agentShell"
+import {
+  createDiagnosticsTools,
+  type DiagnosticsRunner,
+} from "./agentDiagnostics"
+import { createFileTools, type FileStore } from "./agentTools"
+import type { FileEditPart, MessagePart, ToolCallPart } from "./messageParts"
+
+// Hard cap on model round-trips per user message
+const MAX_AGENT_STEPS = 20
+
+// Long tool inputs (e.g. full file contents) are shortened before they are
+// stored on the message - the file itself is the source of truth
+const MAX_STORED_STRING_LENGTH = 5000
+
+export type AgentRunResult = {
+  parts: MessagePart[]
+  editedFiles: string[]
+  steps: number
+  aborted: boolean
+  // True when the run stopped on tool calls that need the user's approval
+  awaitingApproval: boolean
+  // Model messages produced by this run, needed to resume after approval
+  responseMessages: ModelMessage[]
+}
+
+const SYSTEM_PROMPT = `You are a coding agent working on a web project that runs in a sandbox with a live preview.
+Files are stored in a database and synced to the sandbox whenever you write them.
+
+How to work:
+- Use list_files to see the project layout and search to find code before making changes.
+- Read a file before editing it. Use apply_patch for small changes and write_file for new files or rewrites.
+- Use rename_file and delete_file to move or remove files.
+- Use run_command for things like installing packages. The dev server is already managed for you.
+- After changing code, use get_diagnostics to find type and lint errors, and fix the ones your changes caused.
+- Deleting files, running commands and editing package.json, lockfiles or .env files need the user's approval. If a call is denied, do not retry it - explain or pick another approach.
+- Keep changes focused on what the user asked for.
+- When you are done, reply with a short summary of what you changed.`
+
+export async function runAgentLoop({
+  model,
+  messages,
+  initialParts = [],
+  files,
+  commands,
+  diagnostics,
+  abortSignal,
+  onPartsChange,
+}: {
+  model: LanguageModel
+  messages: ModelMessage[]
+  // Parts already on the message, when resuming a paused run
+  initialParts?: MessagePart[]
+  files: FileStore
+  // Shell access; run_command is only offered when a runner is available
+  commands?: CommandRunner
+  // Type-checking and linting; get_diagnostics is only offered with a runner
+  diagnostics?: DiagnosticsRunner
+  abortSignal?: AbortSignal
+  // Called whenever the message parts change (new tokens, tool results, edits)
+  onPartsChange?: (parts: MessagePart[]) => void
+}): Promise<AgentRunResult> {
+  const parts: MessagePart[] = [...initialParts]
+  const editedFiles = new Set<string>()
+
+  // Tools run ahead of the stream consumer, so edits are held back until the
+  // matching tool result arrives and then placed right after the tool call
+  const pendingEdits = new Map<string, FileEditPart[]>()
+  const recordEdit = (toolCallId: string, edit: FileEditPart) => {
+    editedFiles.add(edit.path)
+    pendingEdits.set(toolCallId, [
+      ...(pendingEdits.get(toolCallId) ?? []),
+      edit,
+    ])
+  }
+  const flushEdits = (toolCallId: string) => {
+    parts.push(...(pendingEdits.get(toolCallId) ?? []))
+    pendingEdits.delete(toolCallId)
+  }
+
+  const changed = () => onPartsChange?.(parts)
+
+  // Append streamed text to the trailing part of the same type,
+  // or start a new one
+  const appendText = (type: "text" | "reasoning", delta: string) => {
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) {
+      last.text += delta
+    } else {
+      parts.push({ type, text: delta })
+    }
+    changed()
+  }
+
+  const tools: ToolSet = {
+    ...createFileTools(files, recordEdit),
+    ...(commands
+      ? createShellTools(commands, (toolCallId, output) => {
+          updateToolCall(parts, toolCallId, { output })
+          changed()
+        })
+      : {}),
+    ...(diagnostics ? createDiagnosticsTools(diagnostics) : {}),
+  }
+
+  const result = streamText({
+    model,
+    system: SYSTEM_PROMPT,
+    messages,
+    tools,
+    stopWhen: stepCountIs(MAX_AGENT_STEPS),
+    abortSignal,
+  })
+
+  let steps = 0
+  let aborted = false
+  let awaitingApproval = false
+
+  for await (const part of result.fullStream) {
+    switch (part.type) {
+      case "text-delta":
+        appendText("text", part.text)
+        break
+      case "reasoning-delta":
+        appendText("reasoning", part.text)
+        break
+      case "tool-call":
+        parts.push({
+          type: "tool-call",
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          state: "input-available",
+          input: compactForStorage(part.input),
+        })
+        changed()
+        break
+      case "tool-result":
+        updateToolCall(parts, part.toolCallId, {
+          state: "output-available",
+          output: compactForStorage(part.output),
+        })
+        flushEdits(part.toolCallId)
+        changed()
+        break
+      case "tool-error":
+        updateToolCall(parts, part.toolCallId, {
+          state: "output-error",
+          errorText:
+            part.error instanceof Error
+              ? part.error.message
+              : String(part.error),
+        })
+        flushEdits(part.toolCallId)
+        changed()
+        break
+      case "tool-approval-request":
+        updateToolCall(parts, part.toolCall.toolCallId, {
+          state: "approval-requested",
+          approval: { id: part.approvalId },
+        })
+        awaitingApproval = true
+        changed()
+        break
+      case "tool-output-denied":
+        updateToolCall(parts, part.toolCallId, { state: "output-denied" })
+        changed()
+        break
+      case "finish-step":
+        steps++
+        break
+      case "abort":
+        aborted = true
+        break
+      case "error":
+        throw part.error
+    }
+  }
+
+  return {
+    parts,
+    editedFiles: Array.from(editedFiles),
+    steps,
+    aborted,
+    awaitingApproval: awaitingApproval && !aborted,
+    responseMessages: aborted ? [] : (await result.response).messages,
+  }
+}
+
+function updateToolCall(
+  parts: MessagePart[],
+  toolCallId: string,
+  update: Partial<ToolCallPart>,
+) {
+  const index = parts.findIndex(
+    (p) => p.type === "tool-call" && p.toolCallId === toolCallId,
+  )
+  if (index !== -1) {
+    parts[index] = { ...parts[index], ...update } as MessagePart
+  }
+}
+
+/**
+ * Shorten long strings anywhere in a JSON value so tool inputs and outputs
+ * stay small enough to live on the message document.
+ */
+function compactForStorage(value: unknown): unknown {
+  if (typeof value === "string") {
+    if (value.length <= MAX_STORED_STRING_LENGTH) return value
+    return `${value.slice(0, MAX_STORED_STRING_LENGTH)}… (${
+      value.length - MAX_STORED_STRING_LENGTH
+    } more characters)`
+  }
+  if (Array.isArray(value)) {
+    return value.map(compactForStorage)
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, compactForStorage(v)]),
+    )
+  }
+  return value
+}
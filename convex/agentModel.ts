@@ -0,0 +1,17 @@
+import type { LanguageModel } from "ai"
+
+// Default model, resolved through the AI Gateway (needs AI_GATEWAY_API_KEY)
+const DEFAULT_AGENT_MODEL = "anthropic/claude-sonnet-4.5"
+
+/**
+ * Resolve the language model the agent runs against.
+ *
+ * Controlled by the AGENT_MODEL environment variable, an AI Gateway model
+ * id such as "openai/gpt-5". Tests drive runAgentLoop with a mock model
+ * instead, see agentLoop.test.ts.
+ */
+export function getAgentModel(
+  modelId: string | undefined = process.env.AGENT_MODEL,
+): LanguageModel {
+  return modelId || DEFAULT_AGENT_MODEL
+}
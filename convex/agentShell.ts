@@ -0,0 +1,135 @@
+/**
+ * Agent Shell Tool
+ *
+ * The run_command tool. Commands are checked against the command policy,
+ * run through a CommandRunner (the project's sandbox in production) and their
+ * output is streamed back and truncated before it reaches the model.
+ */
+
+import { tool } from "ai"
+import { z } from "zod"
+import { checkCommand } from "./commandPolicy"
+
+const DEFAULT_TIMEOUT_MS = 60_000
+const MAX_TIMEOUT_MS = 5 * 60_000
+
+// Per-stream cap on output returned to the model and stored on the message
+const MAX_OUTPUT_LENGTH = 4000
+
+export type CommandOutput = {
+  stdout: string
+  stderr: string
+  exitCode: number
+}
+
+export interface CommandRunner {
+  run(
+    command: string,
+    options: {
+      cwd?: string
+      timeoutMs: number
+      onStdout: (data: string) => void
+      onStderr: (data: string) => void
+    },
+  ): Promise<CommandOutput>
+}
+
+/**
+ * Keep the start and end of long output, dropping the middle.
+ * The end usually holds the error, the start holds what was running.
+ */
+export function truncateOutput(
+  output: string,
+  maxLength = MAX_OUTPUT_LENGTH,
+): string {
+  if (output.length <= maxLength) return output
+
+  const keep = Math.floor(maxLength / 2)
+  const omitted = output.length - keep * 2
+  return `${output.slice(0, keep)}\n… [${omitted} characters omitted] …\n${output.slice(-keep)}`
+}
+
+/**
+ * Reject working directories that escape the project root.
+ */
+function resolveCwd(cwd: string | undefined): string | undefined {
+  if (!cwd) return undefined
+
+  const normalized = cwd.replace(/\\/g, "/").replace(/^(\.\/)+/, "")
+  if (normalized.startsWith("/") || normalized.split("/").includes("..")) {
+    throw new Error(
+      `Working directory must be inside the project, got "${cwd}"`,
+    )
+  }
+  return normalized
+}
+
+/**
+ * Build the run_command tool.
+ *
+ * `onProgress` is called with the output so far while the command runs,
+ * so it can be shown on the message before the command finishes.
+ */
+export function createShellTools(
+  runner: CommandRunner,
+  onProgress: (toolCallId: string, output: CommandOutput) => void,
+) {
+  return {
+    run_command: tool({
+      description:
+        "Run a shell command in the project's sandbox, e.g. installing a package or running tsc. " +
+        "Long-running processes like the dev server are not allowed.",
+      inputSchema: z.object({
+        command: z.string().describe("The command line to run"),
+        cwd: z
+          .string()
+          .optional()
+          .describe("Working directory relative to the project root"),
+        timeoutMs: z
+          .number()
+          .int()
+          .positive()
+          .max(MAX_TIMEOUT_MS)
+          .optional()
+          .describe(`Timeout in milliseconds, default ${DEFAULT_TIMEOUT_MS}`),
+      }),
+      // Every allowed command is shown to the user first. Rejected ones
+      // skip approval and fail straight away in execute.
+      needsApproval: ({ command }) => checkCommand(command).allowed,
+      execute: async ({ command, cwd, timeoutMs }, { toolCallId }) => {
+        const decision = checkCommand(command)
+        if (!decision.allowed) {
+          throw new Error(`Command rejected: ${decision.reason}`)
+        }
+
+        let stdout = ""
+        let stderr = ""
+        const report = () =>
+          onProgress(toolCallId, {
+            stdout: truncateOutput(stdout),
+            stderr: truncateOutput(stderr),
+            exitCode: -1,
+          })
+
+        const result = await runner.run(command, {
+          cwd: resolveCwd(cwd),
+          timeoutMs: timeoutMs ?? DEFAULT_TIMEOUT_MS,
+          onStdout: (data) => {
+            stdout += data
+            report()
+          },
+          onStderr: (data) => {
+            stderr += data
+            report()
+          },
+        })
+
+        return {
+          exitCode: result.exitCode,
+          stdout: truncateOutput(result.stdout),
+          stderr: truncateOutput(result.stderr),
+        }
+      },
+    }),
+  }
+}
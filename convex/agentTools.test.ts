@@ -0,0 +1,339 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import type { Tool } from "ai"
+import {
+  createFileTools,
+  InMemoryFileStore,
+  isProtectedFile,
+} from "./agentTools"
+import type { FileEditPart } from "./messageParts"
+
+const options = { toolCallId: "call-1", messages: [] }
+
+async function run<INPUT, OUTPUT>(
+  tool: Tool<INPUT, OUTPUT>,
+  input: INPUT,
+): Promise<OUTPUT> {
+  return (await tool.execute!(input, options)) as OUTPUT
+}
+
+async function needsApproval<INPUT, OUTPUT>(
+  tool: Tool<INPUT, OUTPUT>,
+  input: INPUT,
+): Promise<boolean> {
+  const { needsApproval } = tool
+  return typeof needsApproval === "function"
+    ? needsApproval(input, options)
+    : (needsApproval ?? false)
+}
+
+describe("file tools", () => {
+  let store: InMemoryFileStore
+  let edits: FileEditPart[]
+  let tools: ReturnType<typeof createFileTools>
+
+  beforeEach(() => {
+    store = new InMemoryFileStore([
+      { path: "src/App.tsx", content: "line 1\nline 2\nline 3\nline 4" },
+      { path: "src/components/Button.tsx", content: "export const Button" },
+      { path: "src/index.css", content: "body {}" },
+      { path: "README.md", content: "# Project\nuses Button" },
+    ])
+    edits = []
+    tools = createFileTools(store, (toolCallId, edit) => {
+      expect(toolCallId).toBe("call-1")
+      edits.push(edit)
+    })
+  })
+
+  describe("list_files", () => {
+    it("lists every file sorted by path", async () => {
+      const files = await run(tools.list_files, {})
+      expect(files.map((f) => f.path)).toEqual([
+        "README.md",
+        "src/App.tsx",
+        "src/components/Button.tsx",
+        "src/index.css",
+      ])
+      expect(files[1]).toEqual({ path: "src/App.tsx", version: 1, lines: 4 })
+    })
+
+    it("filters with a glob", async () => {
+      const files = await run(tools.list_files, { glob: "src/**/*.tsx" })
+      expect(files.map((f) => f.path)).toEqual([
+        "src/App.tsx",
+        "src/components/Button.tsx",
+      ])
+    })
+  })
+
+  describe("read_file", () => {
+    it("reads a whole file", async () => {
+      const file = await run(tools.read_file, { path: "./src/App.tsx" })
+      expect(file).toMatchObject({
+        path: "src/App.tsx",
+        totalLines: 4,
+        startLine: 1,
+        endLine: 4,
+        content: "line 1\nline 2\nline 3\nline 4",
+      })
+    })
+
+    it("reads a line range", async () => {
+      const file = await run(tools.read_file, {
+        path: "src/App.tsx",
+        startLine: 2,
+        endLine: 3,
+      })
+      expect(file).toMatchObject({
+        startLine: 2,
+        endLine: 3,
+        content: "line 2\nline 3",
+      })
+    })
+
+    it("clamps a range running past the end", async () => {
+      const file = await run(tools.read_file, {
+        path: "src/App.tsx",
+        startLine: 3,
+        endLine: 50,
+      })
+      expect(file).toMatchObject({ endLine: 4, content: "line 3\nline 4" })
+    })
+
+    it("fails for missing files and paths outside the project", async () => {
+      await expect(run(tools.read_file, { path: "nope.ts" })).rejects.toThrow(
+        "File not found: nope.ts",
+      )
+      await expect(
+        run(tools.read_file, { path: "../secrets.txt" }),
+      ).rejects.toThrow("Path must stay inside the project")
+    })
+  })
+
+  describe("write_file", () => {
+    it("creates new files at version 1", async () => {
+      const result = await run(tools.write_file, {
+        path: "src/new.ts",
+        content: "export {}\n",
+      })
+      expect(result).toEqual({ path: "src/new.ts", version: 1 })
+      expect(edits).toEqual([
+        expect.objectContaining({
+          operation: "create",
+          path: "src/new.ts",
+          beforeVersion: undefined,
+          afterVersion: 1,
+        }),
+      ])
+    })
+
+    it("bumps the version of existing files", async () => {
+      await run(tools.write_file, { path: "src/App.tsx", content: "a" })
+      const result = await run(tools.write_file, {
+        path: "src/App.tsx",
+        content: "b",
+      })
+
+      expect(result.version).toBe(3)
+      expect(await store.readFile("src/App.tsx")).toMatchObject({
+        content: "b",
+        version: 3,
+      })
+      expect(edits.map((e) => [e.beforeVersion, e.afterVersion])).toEqual([
+        [1, 2],
+        [2, 3],
+      ])
+    })
+  })
+
+  describe("apply_patch", () => {
+    it("applies a unified diff", async () => {
+      const patch = [
+        "--- src/App.tsx",
+        "+++ src/App.tsx",
+        "@@ -1,4 +1,4 @@",
+        " line 1",
+        "-line 2",
+        "+line two",
+        " line 3",
+        " line 4",
+      ].join("\n")
+
+      const result = await run(tools.apply_patch, {
+        path: "src/App.tsx",
+        patch,
+      })
+
+      expect(result).toEqual({ path: "src/App.tsx", version: 2 })
+      expect((await store.readFile("src/App.tsx"))?.content).toBe(
+        "line 1\nline two\nline 3\nline 4",
+      )
+      expect(edits[0]).toMatchObject({
+        operation: "update",
+        beforeVersion: 1,
+        afterVersion: 2,
+      })
+      expect(edits[0].diff).toContain("+line two")
+    })
+
+    it("leaves the file alone when the patch doesn't apply", async () => {
+      const patch = [
+        "--- src/App.tsx",
+        "+++ src/App.tsx",
+        "@@ -1,2 +1,2 @@",
+        " something else",
+        "-entirely",
+        "+changed",
+      ].join("\n")
+
+      await expect(
+        run(tools.apply_patch, { path: "src/App.tsx", patch }),
+      ).rejects.toThrow("Patch did not apply cleanly to src/App.tsx")
+      expect(await store.readFile("src/App.tsx")).toMatchObject({
+        content: "line 1\nline 2\nline 3\nline 4",
+        version: 1,
+      })
+      expect(edits).toEqual([])
+    })
+  })
+
+  describe("rename_file", () => {
+    it("moves a file and bumps its version", async () => {
+      const result = await run(tools.rename_file, {
+        fromPath: "src/index.css",
+        toPath: "src/styles/index.css",
+      })
+
+      expect(result).toEqual({ path: "src/styles/index.css", version: 2 })
+      expect(await store.readFile("src/index.css")).toBeNull()
+      expect(await store.readFile("src/styles/index.css")).toMatchObject({
+        content: "body {}",
+      })
+      expect(edits).toEqual([
+        expect.objectContaining({
+          operation: "rename",
+          path: "src/styles/index.css",
+          previousPath: "src/index.css",
+          beforeVersion: 1,
+          afterVersion: 2,
+        }),
+      ])
+    })
+
+    it("won't overwrite another file", async () => {
+      await expect(
+        run(tools.rename_file, {
+          fromPath: "src/index.css",
+          toPath: "README.md",
+        }),
+      ).rejects.toThrow("File already exists: README.md")
+      expect(edits).toEqual([])
+    })
+  })
+
+  describe("delete_file", () => {
+    it("always needs approval", async () => {
+      expect(
+        await needsApproval(tools.delete_file, { path: "src/index.css" }),
+      ).toBe(true)
+    })
+
+    it("deletes the file once run", async () => {
+      const result = await run(tools.delete_file, { path: "src/index.css" })
+
+      expect(result).toEqual({ path: "src/index.css", deleted: true })
+      expect(await store.readFile("src/index.css")).toBeNull()
+      expect(edits).toEqual([
+        expect.objectContaining({
+          operation: "delete",
+          path: "src/index.css",
+          beforeVersion: 1,
+        }),
+      ])
+      expect(edits[0].afterVersion).toBeUndefined()
+    })
+  })
+
+  describe("search", () => {
+    it("finds matching lines case-insensitively", async () => {
+      const result = await run(tools.search, { pattern: "button" })
+      expect(result).toEqual({
+        matches: [
+          { path: "README.md", line: 2, text: "uses Button" },
+          {
+            path: "src/components/Button.tsx",
+            line: 1,
+            text: "export const Button",
+          },
+        ],
+        truncated: false,
+      })
+    })
+
+    it("honours case sensitivity and globs", async () => {
+      const caseSensitive = await run(tools.search, {
+        pattern: "button",
+        caseSensitive: true,
+      })
+      expect(caseSensitive.matches).toEqual([])
+
+      const globbed = await run(tools.search, {
+        pattern: "^line \\d$",
+        glob: "src/*.tsx",
+      })
+      expect(globbed.matches.map((m) => m.line)).toEqual([1, 2, 3, 4])
+    })
+
+    it("rejects invalid regular expressions", async () => {
+      await expect(run(tools.search, { pattern: "(" })).rejects.toThrow(
+        "Invalid regular expression",
+      )
+    })
+  })
+})
+
+describe("isProtectedFile", () => {
+  it.each([
+    "package.json",
+    "/package.json",
+    "apps/web/package.json",
+    "package-lock.json",
+    "packages/ui/pnpm-lock.yaml",
+    "yarn.lock",
+    "bun.lock",
+    ".env",
+    ".env.local",
+    "apps/api/.env.production",
+  ])("protects %s", (path) => {
+    expect(isProtectedFile(path)).toBe(true)
+  })
+
+  it.each(["src/App.tsx", "src/package.ts", "docs/env.md", "tsconfig.json"])(
+    "leaves %s alone",
+    (path) => {
+      expect(isProtectedFile(path)).toBe(false)
+    },
+  )
+
+  it("makes edits to protected files wait for approval", async () => {
+    const tools = createFileTools(new InMemoryFileStore(), () => {})
+    expect(
+      await needsApproval(tools.write_file, {
+        path: "apps/web/package.json",
+        content: "{}",
+      }),
+    ).toBe(true)
+    expect(
+      await needsApproval(tools.rename_file, {
+        fromPath: ".env.local",
+        toPath: "env.txt",
+      }),
+    ).toBe(true)
+    expect(
+      await needsApproval(tools.write_file, {
+        path: "src/App.tsx",
+        content: "",
+      }),
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,387 @@
+/**
+ * Agent File Tools
+ *
+ * The file-system toolset the agent uses, backed by a FileStore.
+ * In production the store wraps the Convex files table; InMemoryFileStore
+ * lets the tools be exercised in isolation.
+ */
+
+import { tool } from "ai"
+import { applyPatch, createTwoFilesPatch } from "diff"
+import picomatch from "picomatch"
+import { z } from "zod"
+import type { FileEditPart } from "./messageParts"
+
+// Limits that keep tool results within a sensible context budget
+const MAX_READ_LINES = 2000
+const MAX_SEARCH_RESULTS = 100
+const MAX_SEARCH_LINE_LENGTH = 200
+const MAX_STORED_DIFF_LENGTH = 20000
+
+// Files whose edits need the user's approval, in any folder: a bad
+// package.json or lockfile breaks installs and the dev server, and .env
+// files hold secrets
+const isProtectedPath = picomatch(
+  [
+    "package.json",
+    "package-lock.json",
+    "npm-shrinkwrap.json",
+    "yarn.lock",
+    "pnpm-lock.yaml",
+    "bun.lock",
+    "bun.lockb",
+    ".env",
+    ".env.*",
+  ],
+  { dot: true, basename: true },
+)
+
+export type StoredFile = {
+  path: string
+  // Empty for binary files
+  content: string
+  version: number
+  // Set for images, fonts and other files kept in file storage
+  binary?: { contentType: string; size: number }
+}
+
+/**
+ * Storage the file tools operate on.
+ * Every mutation bumps the file's version, matching files.updateFile.
+ */
+export interface FileStore {
+  listFiles(): Promise<StoredFile[]>
+  readFile(path: string): Promise<StoredFile | null>
+  writeFile(path: string, content: string): Promise<{ version: number }>
+  renameFile(fromPath: string, toPath: string): Promise<{ version: number }>
+  deleteFile(path: string): Promise<void>
+}
+
+/**
+ * Map-backed FileStore for exercising the tools without Convex.
+ */
+export class InMemoryFileStore implements FileStore {
+  private files: Map<string, { content: string; version: number }>
+
+  constructor(initialFiles: Array<{ path: string; content: string }> = []) {
+    this.files = new Map(
+      initialFiles.map((f) => [f.path, { content: f.content, version: 1 }]),
+    )
+  }
+
+  async listFiles(): Promise<StoredFile[]> {
+    return Array.from(this.files.entries()).map(([path, file]) => ({
+      path,
+      ...file,
+    }))
+  }
+
+  async readFile(path: string): Promise<StoredFile | null> {
+    const file = this.files.get(path)
+    return file ? { path, ...file } : null
+  }
+
+  async writeFile(path: string, content: string) {
+    const version = (this.files.get(path)?.version ?? 0) + 1
+    this.files.set(path, { content, version })
+    return { version }
+  }
+
+  async renameFile(fromPath: string, toPath: string) {
+    const file = this.files.get(fromPath)
+    if (!file) throw new Error(`File not found: ${fromPath}`)
+    if (this.files.has(toPath)) {
+      throw new Error(`File already exists: ${toPath}`)
+    }
+
+    const version = file.version + 1
+    this.files.delete(fromPath)
+    this.files.set(toPath, { content: file.content, version })
+    return { version }
+  }
+
+  async deleteFile(path: string) {
+    if (!this.files.delete(path)) throw new Error(`File not found: ${path}`)
+  }
+}
+
+function cleanPath(path: string): string {
+  return path
+    .trim()
+    .replace(/\\/g, "/")
+    .replace(/^(\.\/|\/)+/, "")
+    .replace(/\/{2,}/g, "/")
+}
+
+/**
+ * Normalize a model-supplied path to the form stored in the files table
+ * ("src/App.tsx", no leading "./" or "/"). Paths leaving the project root
+ * are rejected.
+ */
+export function normalizePath(path: string): string {
+  const normalized = cleanPath(path)
+  if (normalized.split("/").includes("..")) {
+    throw new Error(`Path must stay inside the project: ${path}`)
+  }
+  return normalized
+}
+
+// Runs before the tool executes, so bad paths are left for normalizePath to
+// reject there
+export function isProtectedFile(path: string): boolean {
+  return isProtectedPath(cleanPath(path))
+}
+
+function countLines(content: string): number {
+  return content === "" ? 0 : content.split("\n").length
+}
+
+function makeDiff(path: string, before: string, after: string): string {
+  return createTwoFilesPatch(path, path, before, after).slice(
+    0,
+    MAX_STORED_DIFF_LENGTH,
+  )
+}
+
+/**
+ * Build the agent's file tools.
+ *
+ * `onEdit` is called once per successful mutation with the tool call that
+ * caused it, so the edit can be recorded on the assistant message.
+ */
+export function createFileTools(
+  store: FileStore,
+  onEdit: (toolCallId: string, edit: FileEditPart) => void,
+) {
+  const requireFile = async (path: string): Promise<StoredFile> => {
+    const file = await store.readFile(path)
+    if (!file) throw new Error(`File not found: ${path}`)
+    return file
+  }
+
+  const writeWithRecord = async (
+    toolCallId: string,
+    path: string,
+    content: string,
+  ) => {
+    const before = await store.readFile(path)
+    const { version } = await store.writeFile(path, content)
+
+    onEdit(toolCallId, {
+      type: "file-edit",
+      operation: before ? "update" : "create",
+      path,
+      beforeVersion: before?.version,
+      afterVersion: version,
+      diff: makeDiff(path, before?.content ?? "", content),
+    })
+
+    return { path, version }
+  }
+
+  return {
+    list_files: tool({
+      description:
+        "List project files with their versions and line counts. Optionally filter with a glob such as 'src/**/*.tsx'.",
+      inputSchema: z.object({
+        glob: z.string().optional().describe("Glob pattern to filter paths"),
+      }),
+      execute: async ({ glob }) => {
+        const files = await store.listFiles()
+        const isMatch = glob ? picomatch(glob, { dot: true }) : () => true
+
+        return files
+          .filter((f) => isMatch(f.path))
+          .sort((a, b) => a.path.localeCompare(b.path))
+          .map((f) =>
+            f.binary
+              ? {
+                  path: f.path,
+                  version: f.version,
+                  contentType: f.binary.contentType,
+                  size: f.binary.size,
+                }
+              : {
+                  path: f.path,
+                  version: f.version,
+                  lines: countLines(f.content),
+                },
+          )
+      },
+    }),
+
+    read_file: tool({
+      description:
+        "Read a file. Optionally pass a 1-based inclusive line range to read part of a large file.",
+      inputSchema: z.object({
+        path: z.string().describe("Path relative to the project root"),
+        startLine: z.number().int().min(1).optional(),
+        endLine: z.number().int().min(1).optional(),
+      }),
+      execute: async ({ path, startLine, endLine }) => {
+        const file = await requireFile(normalizePath(path))
+        if (file.binary) {
+          return {
+            path: file.path,
+            version: file.version,
+            contentType: file.binary.contentType,
+            size: file.binary.size,
+            note: "Binary file, its contents can't be read as text",
+          }
+        }
+        const lines = file.content.split("\n")
+
+        const start = startLine ?? 1
+        const end = Math.min(
+          endLine ?? lines.length,
+          start + MAX_READ_LINES - 1,
+          lines.length,
+        )
+
+        return {
+          path: file.path,
+          version: file.version,
+          totalLines: lines.length,
+          startLine: start,
+          endLine: end,
+          content: lines.slice(start - 1, end).join("\n"),
+        }
+      },
+    }),
+
+    write_file: tool({
+      description:
+        "Create or overwrite a file with the given contents. Always pass the complete file.",
+      inputSchema: z.object({
+        path: z.string().describe("Path relative to the project root"),
+        content: z.string().describe("Complete new file contents"),
+      }),
+      needsApproval: ({ path }) => isProtectedFile(path),
+      execute: async ({ path, content }, { toolCallId }) =>
+        writeWithRecord(toolCallId, normalizePath(path), content),
+    }),
+
+    apply_patch: tool({
+      description:
+        "Apply a unified diff to a single file. Prefer this over write_file for small changes to large files.",
+      inputSchema: z.object({
+        path: z.string().describe("Path relative to the project root"),
+        patch: z.string().describe("Unified diff with @@ hunk headers"),
+      }),
+      needsApproval: ({ path }) => isProtectedFile(path),
+      execute: async ({ path, patch }, { toolCallId }) => {
+        const normalized = normalizePath(path)
+        const before = await store.readFile(normalized)
+        if (before?.binary) {
+          throw new Error(`${normalized} is a binary file and can't be patched`)
+        }
+
+        const patched = applyPatch(before?.content ?? "", patch, {
+          fuzzFactor: 2,
+        })
+        if (patched === false) {
+          throw new Error(
+            `Patch did not apply cleanly to ${normalized}. Re-read the file and try again.`,
+          )
+        }
+
+        return writeWithRecord(toolCallId, normalized, patched)
+      },
+    }),
+
+    rename_file: tool({
+      description: "Rename or move a file",
+      inputSchema: z.object({
+        fromPath: z.string(),
+        toPath: z.string(),
+      }),
+      needsApproval: ({ fromPath, toPath }) =>
+        isProtectedFile(fromPath) || isProtectedFile(toPath),
+      execute: async ({ fromPath, toPath }, { toolCallId }) => {
+        const from = normalizePath(fromPath)
+        const to = normalizePath(toPath)
+        const before = await requireFile(from)
+        const { version } = await store.renameFile(from, to)
+
+        onEdit(toolCallId, {
+          type: "file-edit",
+          operation: "rename",
+          path: to,
+          previousPath: from,
+          beforeVersion: before.version,
+          afterVersion: version,
+        })
+
+        return { path: to, version }
+      },
+    }),
+
+    delete_file: tool({
+      description: "Delete a file",
+      inputSchema: z.object({
+        path: z.string(),
+      }),
+      needsApproval: true,
+      execute: async ({ path }, { toolCallId }) => {
+        const normalized = normalizePath(path)
+        const before = await requireFile(normalized)
+        await store.deleteFile(normalized)
+
+        onEdit(toolCallId, {
+          type: "file-edit",
+          operation: "delete",
+          path: normalized,
+          beforeVersion: before.version,
+          diff: makeDiff(normalized, before.content, ""),
+        })
+
+        return { path: normalized, deleted: true }
+      },
+    }),
+
+    search: tool({
+      description:
+        "Search file contents with a regular expression. Returns matching lines with their line numbers.",
+      inputSchema: z.object({
+        pattern: z.string().describe("JavaScript regular expression"),
+        caseSensitive: z.boolean().optional(),
+        glob: z.string().optional().describe("Only search matching paths"),
+      }),
+      execute: async ({ pattern, caseSensitive, glob }) => {
+        let regex: RegExp
+        try {
+          regex = new RegExp(pattern, caseSensitive ? "" : "i")
+        } catch (error) {
+          throw new Error(
+            `Invalid regular expression: ${
+              error instanceof Error ? error.message : pattern
+            }`,
+          )
+        }
+
+        const isMatch = glob ? picomatch(glob, { dot: true }) : () => true
+        const files = (await store.listFiles())
+          .filter((f) => !f.binary && isMatch(f.path))
+          .sort((a, b) => a.path.localeCompare(b.path))
+
+        const matches: Array<{ path: string; line: number; text: string }> = []
+        for (const file of files) {
+          const lines = file.content.split("\n")
+          for (let i = 0; i < lines.length; i++) {
+            if (!regex.test(lines[i])) continue
+            matches.push({
+              path: file.path,
+              line: i + 1,
+              text: lines[i].slice(0, MAX_SEARCH_LINE_LENGTH),
+            })
+            if (matches.length >= MAX_SEARCH_RESULTS) {
+              return { matches, truncated: true }
+            }
+          }
+        }
+
+        return { matches, truncated: false }
+      },
+    }),
+  }
+}
@@ -0,0 +1,191 @@
+"use node"
+
+import { gunzipSync, inflateRawSync } from "zlib"
+
+/**
+ * Archives
+ *
+ * Minimal readers for the two archive formats projects are imported from:
+ * gzipped tarballs (what GitHub serves) and zip files (what most people
+ * upload). Only regular files are returned; directories, links and
+ * anything encrypted are skipped.
+ */
+
+export interface ArchiveEntry {
+  path: string
+  size: number
+  // null when the entry is larger than maxFileBytes and was not read
+  data: Buffer | null
+}
+
+export interface ExtractOptions {
+  // Entries above this are returned without data
+  maxFileBytes: number
+  // Guards against archives that decompress to something enormous
+  maxUnpackedBytes: number
+}
+
+function readString(buffer: Buffer, start: number, length: number): string {
+  const bytes = buffer.subarray(start, start + length)
+  const end = bytes.indexOf(0)
+  return bytes.subarray(0, end === -1 ? bytes.length : end).toString("utf8")
+}
+
+/**
+ * Pax extended headers are "<length> <key>=<value>\n" records.
+ */
+function readPaxPath(data: Buffer): string | null {
+  const records = data.toString("utf8").split("\n")
+  for (const record of records) {
+    const match = /^\d+ path=(.*)$/.exec(record)
+    if (match) return match[1]
+  }
+  return null
+}
+
+export function extractTarGz(
+  archive: Buffer,
+  options: ExtractOptions,
+): ArchiveEntry[] {
+  let tar: Buffer
+  try {
+    tar = gunzipSync(archive, { maxOutputLength: options.maxUnpackedBytes })
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error(
+        `Archive unpacks to more than ${options.maxUnpackedBytes} bytes`,
+      )
+    }
+    throw new Error("Archive is not a valid .tar.gz file")
+  }
+
+  const entries: ArchiveEntry[] = []
+  let offset = 0
+  // Set by a GNU long name or pax header, applies to the next entry
+  let nextPath: string | null = null
+
+  while (offset + 512 <= tar.length) {
+    const header = tar.subarray(offset, offset + 512)
+    // Two zero blocks mark the end of the archive
+    if (header.every((byte) => byte === 0)) break
+
+    const name = readString(header, 0, 100)
+    const size = parseInt(readString(header, 124, 12).trim() || "0", 8)
+    const type = String.fromCharCode(header[156])
+    const magic = readString(header, 257, 6)
+    const prefix = magic.startsWith("ustar") ? readString(header, 345, 155) : ""
+
+    const dataStart = offset + 512
+    const data = tar.subarray(dataStart, dataStart + size)
+    offset = dataStart + Math.ceil(size / 512) * 512
+
+    if (type === "L") {
+      nextPath = readString(data, 0, data.length)
+      continue
+    }
+    if (type === "x") {
+      nextPath = readPaxPath(data) ?? nextPath
+      continue
+    }
+
+    const path = nextPath ?? (prefix ? `${prefix}/${name}` : name)
+    nextPath = null
+
+    // Regular files only ("\0" is the pre-POSIX regular file type)
+    if (type !== "0" && type !== "\0") continue
+
+    entries.push({
+      path,
+      size,
+      data: size > options.maxFileBytes ? null : Buffer.from(data),
+    })
+  }
+
+  return entries
+}
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50
+
+export function extractZip(
+  archive: Buffer,
+  options: ExtractOptions,
+): ArchiveEntry[] {
+  // The end record sits at the very end, followed by at most a 64KB comment
+  let end = -1
+  for (
+    let i = archive.length - 22;
+    i >= Math.max(0, archive.length - 22 - 0xffff);
+    i--
+  ) {
+    if (archive.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) throw new Error("Archive is not a valid .zip file")
+
+  const entryCount = archive.readUInt16LE(end + 10)
+  let offset = archive.readUInt32LE(end + 16)
+  if (offset === 0xffffffff) {
+    throw new Error("Zip64 archives are not supported")
+  }
+
+  const entries: ArchiveEntry[] = []
+  let unpackedBytes = 0
+
+  for (let i = 0; i < entryCount; i++) {
+    if (archive.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Archive has a corrupt central directory")
+    }
+
+    const flags = archive.readUInt16LE(offset + 8)
+    const method = archive.readUInt16LE(offset + 10)
+    const compressedSize = archive.readUInt32LE(offset + 20)
+    const size = archive.readUInt32LE(offset + 24)
+    const nameLength = archive.readUInt16LE(offset + 28)
+    const extraLength = archive.readUInt16LE(offset + 30)
+    const commentLength = archive.readUInt16LE(offset + 32)
+    const localOffset = archive.readUInt32LE(offset + 42)
+    const path = archive.toString("utf8", offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    const encrypted = (flags & 0x1) !== 0
+    if (path.endsWith("/") || encrypted || (method !== 0 && method !== 8)) {
+      continue
+    }
+
+    if (size > options.maxFileBytes) {
+      entries.push({ path, size, data: null })
+      continue
+    }
+
+    unpackedBytes += size
+    if (unpackedBytes > options.maxUnpackedBytes) {
+      throw new Error(
+        `Archive unpacks to more than ${options.maxUnpackedBytes} bytes`,
+      )
+    }
+
+    if (archive.readUInt32LE(localOffset) !== ZIP_LOCAL_FILE_HEADER) {
+      throw new Error(`Archive has a corrupt entry for ${path}`)
+    }
+    const dataStart =
+      localOffset +
+      30 +
+      archive.readUInt16LE(localOffset + 26) +
+      archive.readUInt16LE(localOffset + 28)
+    const compressed = archive.subarray(dataStart, dataStart + compressedSize)
+
+    // Sizes come from the central directory, so cap inflation to it
+    const data =
+      method === 0
+        ? Buffer.from(compressed)
+        : inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) })
+
+    entries.push({ path, size, data })
+  }
+
+  return entries
+}
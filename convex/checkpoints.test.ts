@@ -0,0 +1,108 @@
+/// <reference types="vite/client" />
+
+import { convexTest } from "convex-test"
+import { describe, expect, it } from "vitest"
+import { api } from "./_generated/api"
+import schema from "./schema"
+
+const modules = import.meta.glob("./**/*.ts")
+
+/**
+ * A project owned by a signed-in user, with one file written straight to
+ * the table the way files were before history was kept.
+ */
+async function setup() {
+  const t = convexTest(schema, modules)
+  const { projectId, messageId } = await t.run(async (ctx) => {
+    const now = Date.now()
+    const userId = await ctx.db.insert("users", {
+      clerkUserId: "user_1",
+      email: "user@example.com",
+      createdAt: now,
+    })
+    const projectId = await ctx.db.insert("projects", {
+      userId,
+      name: "Project",
+      framework: "react",
+      templateUrl: "",
+      createdAt: now,
+      lastModified: now,
+    })
+    await ctx.db.insert("files", {
+      projectId,
+      path: "src/App.tsx",
+      content: "original",
+      version: 3,
+      lastModified: now,
+    })
+    const messageId = await ctx.db.insert("messages", {
+      projectId,
+      role: "assistant",
+      content: "",
+      createdAt: now,
+    })
+    return { projectId, messageId }
+  })
+  return { user: t.withIdentity({ subject: "user_1" }), projectId, messageId }
+}
+
+describe("checkpoints", () => {
+  it("restores files that had no history when checkpointed", async () => {
+    const { user, projectId, messageId } = await setup()
+
+    const checkpointId = await user.mutation(api.checkpoints.createCheckpoint, {
+      projectId,
+      messageId,
+    })
+    const history = await user.query(api.fileVersions.getFileHistory, {
+      projectId,
+      path: "src/App.tsx",
+    })
+    expect(history).toEqual([
+      expect.objectContaining({ version: 3, author: "import" }),
+    ])
+
+    await user.mutation(api.files.updateFile, {
+      projectId,
+      path: "src/App.tsx",
+      content: "edited",
+    })
+    const result = await user.mutation(
+      api.checkpoints.revertFilesToCheckpoint,
+      { checkpointId },
+    )
+
+    expect(result.written).toEqual([
+      { path: "src/App.tsx", content: "original", version: 5 },
+    ])
+    const files = await user.query(api.files.getFiles, { projectId })
+    expect(files).toEqual([
+      expect.objectContaining({ content: "original", version: 5 }),
+    ])
+  })
+
+  it("brings back files removed without leaving history", async () => {
+    const { user, projectId, messageId } = await setup()
+
+    const checkpointId = await user.mutation(api.checkpoints.createCheckpoint, {
+      projectId,
+      messageId,
+    })
+    await user.run(async (ctx) => {
+      const file = await ctx.db.query("files").first()
+      await ctx.db.delete(file!._id)
+    })
+    const result = await user.mutation(
+      api.checkpoints.revertFilesToCheckpoint,
+      { checkpointId },
+    )
+
+    expect(result.written).toEqual([
+      { path: "src/App.tsx", content: "original", version: 4 },
+    ])
+    const files = await user.query(api.files.getFiles, { projectId })
+    expect(files).toEqual([
+      expect.objectContaining({ path: "src/App.tsx", content: "original" }),
+    ])
+  })
+})
@@ -0,0 +1,294 @@
+import { v } from "convex/values"
+import { action, mutation, query, type MutationCtx } from "./_generated/server"
+import { api } from "./_generated/api"
+import type { Doc, Id } from "./_generated/dataModel"
+import {
+  backfillFileVersion,
+  moveFileHistory,
+  recordFileDeletion,
+  recordFileVersion,
+} from "./fileVersions"
+import { assetOf } from "./fileAssets"
+
+/**
+ * Checkpoints
+ *
+ * Every agent turn starts by noting which version each of the project's
+ * files is at, so a bad run can be undone in one click. Restoring writes
+ * those versions, read back from the file history, to the files table and
+ * mirrors the changes into the sandbox.
+ */
+
+export const getCheckpoints = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) return []
+
+    return await ctx.db
+      .query("checkpoints")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .order("asc")
+      .collect()
+  },
+})
+
+export const createCheckpoint = mutation({
+  args: {
+    projectId: v.id("projects"),
+    messageId: v.id("messages"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const files = await ctx.db
+      .query("files")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+
+    const checkpointId = await ctx.db.insert("checkpoints", {
+      projectId: args.projectId,
+      messageId: args.messageId,
+      fileCount: files.length,
+      createdAt: Date.now(),
+    })
+
+    for (const file of files) {
+      // Restoring reads the content from the file's history
+      await backfillFileVersion(ctx, file)
+      await ctx.db.insert("checkpointFiles", {
+        checkpointId,
+        fileId: file._id,
+        path: file.path,
+        version: file.version,
+      })
+    }
+
+    return checkpointId
+  },
+})
+
+/**
+ * Write a checkpoint's snapshot back to the files table.
+ * Returns what changed so the caller can mirror it to the sandbox.
+ */
+export const revertFilesToCheckpoint = mutation({
+  args: {
+    checkpointId: v.id("checkpoints"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const checkpoint = await ctx.db.get(args.checkpointId)
+    if (!checkpoint) throw new Error("Checkpoint not found")
+
+    // Verify project access
+    const project = await ctx.db.get(checkpoint.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const snapshot = await ctx.db
+      .query("checkpointFiles")
+      .withIndex("by_checkpoint", (q) => q.eq("checkpointId", checkpoint._id))
+      .collect()
+    const snapshotByPath = new Map(snapshot.map((f) => [f.path, f]))
+
+    const currentFiles = await ctx.db
+      .query("files")
+      .withIndex("by_project", (q) => q.eq("projectId", checkpoint.projectId))
+      .collect()
+
+    const now = Date.now()
+    const written: Array<{
+      path: string
+      content: string
+      storageId?: Id<"_storage">
+      version: number
+    }> = []
+    const deleted: string[] = []
+
+    for (const file of currentFiles) {
+      const saved = snapshotByPath.get(file.path)
+      snapshotByPath.delete(file.path)
+
+      // Created after the checkpoint
+      if (!saved) {
+        await ctx.db.delete(file._id)
+        await recordFileDeletion(ctx, file, { author: "user" })
+        deleted.push(file.path)
+        continue
+      }
+
+      // Untouched since the checkpoint
+      if (saved.fileId === file._id && saved.version === file.version) {
+        continue
+      }
+
+      const savedVersion = await getSavedVersion(ctx, saved)
+      if (
+        savedVersion.content === file.content &&
+        savedVersion.storageId === file.storageId
+      ) {
+        continue
+      }
+
+      // Versions only ever go up, so open editors see the restore as a
+      // newer change rather than a stale one
+      const version = file.version + 1
+      await ctx.db.patch(file._id, {
+        content: savedVersion.content,
+        ...assetOf(savedVersion),
+        version,
+        lastModified: now,
+      })
+      await recordFileVersion(
+        ctx,
+        (await ctx.db.get(file._id))!,
+        { author: "user" },
+        file,
+      )
+      written.push({
+        path: file.path,
+        content: savedVersion.content,
+        storageId: savedVersion.storageId,
+        version,
+      })
+    }
+
+    // Whatever is left was deleted after the checkpoint
+    for (const saved of snapshotByPath.values()) {
+      const savedVersion = await getSavedVersion(ctx, saved)
+      const history = await ctx.db
+        .query("fileVersions")
+        .withIndex("by_file", (q) => q.eq("fileId", saved.fileId))
+        .collect()
+      // The file takes its history along, unless it's still around under
+      // another path
+      const takesHistory = !(await ctx.db.get(saved.fileId))
+      const lastVersion =
+        history.length > 0 ? history[history.length - 1].version : saved.version
+      const version = takesHistory ? lastVersion + 1 : 1
+
+      const fileId = await ctx.db.insert("files", {
+        projectId: checkpoint.projectId,
+        path: saved.path,
+        content: savedVersion.content,
+        ...assetOf(savedVersion),
+        version,
+        lastModified: now,
+      })
+      if (takesHistory) {
+        await moveFileHistory(ctx, saved.fileId, fileId)
+      }
+      await recordFileVersion(ctx, (await ctx.db.get(fileId))!, {
+        author: "user",
+      })
+      written.push({
+        path: saved.path,
+        content: savedVersion.content,
+        storageId: savedVersion.storageId,
+        version,
+      })
+    }
+
+    if (written.length > 0 || deleted.length > 0) {
+      await ctx.db.patch(checkpoint.projectId, { lastModified: now })
+    }
+
+    return { sandboxId: project.sandboxId, written, deleted }
+  },
+})
+
+/**
+ * The stored version a checkpoint noted for a file.
+ */
+async function getSavedVersion(
+  ctx: MutationCtx,
+  saved: Doc<"checkpointFiles">,
+) {
+  const version = await ctx.db
+    .query("fileVersions")
+    .withIndex("by_file", (q) =>
+      q.eq("fileId", saved.fileId).eq("version", saved.version),
+    )
+    .first()
+
+  if (!version) {
+    throw new Error(`Version ${saved.version} of ${saved.path} is missing`)
+  }
+  return version
+}
+
+export const restoreCheckpoint = action({
+  args: {
+    checkpointId: v.id("checkpoints"),
+  },
+  handler: async (
+    ctx,
+    { checkpointId },
+  ): Promise<{ written: number; deleted: number }> => {
+    const { sandboxId, written, deleted } = await ctx.runMutation(
+      api.checkpoints.revertFilesToCheckpoint,
+      { checkpointId },
+    )
+
+    console.log(
+      `Restored checkpoint ${checkpointId}: ${written.length} written, ${deleted.length} deleted`,
+    )
+
+    if (sandboxId) {
+      const results = await Promise.allSettled([
+        ...written.map((file) =>
+          ctx.runAction(api.sandbox.syncFileToSandbox, { sandboxId, ...file }),
+        ),
+        ...deleted.map((path) =>
+          ctx.runAction(api.sandbox.deleteFileFromSandbox, { sandboxId, path }),
+        ),
+      ])
+
+      const failures = results.filter((r) => r.status === "rejected")
+      if (failures.length > 0) {
+        console.error("Failed to resync sandbox after restore:", failures)
+        throw new Error(
+          `Files were restored, but ${failures.length} change(s) could not be synced to the sandbox. Restart the dev server to pick them up.`,
+        )
+      }
+    }
+
+    return { written: written.length, deleted: deleted.length }
+  },
+})
@@ -1,24 +1,14 @@
 "use node"
 
-import { action } from "./_generated/server"
-import { Sandbox } from "@e2b/code-interpreter"
+import { internalAction } from "./_generated/server"
+import { getSandboxProvider, type ProviderSandbox } from "./sandboxProvider"
 
 // List all sandboxes (for debugging)
-export const listAllSandboxes = action({
+export const listAllSandboxes = internalAction({
   args: {},
-  handler: async (): Promise<any[]> => {
+  handler: async (): Promise<ProviderSandbox[]> => {
     try {
-      const response = await fetch("https://api.e2b.dev/sandboxes", {
-        headers: {
-          "X-API-Key": process.env.E2B_API_KEY || "",
-        },
-      })
-
-      if (!response.ok) {
-        throw new Error(`Failed to list sandboxes: ${response.statusText}`)
-      }
-
-      const sandboxes = await response.json()
+      const sandboxes = await getSandboxProvider().list()
       console.log(`Found ${sandboxes.length} sandboxes:`, sandboxes)
       return sandboxes
     } catch (error) {
@@ -29,33 +19,21 @@ export const listAllSandboxes = action({
 })
 
 // Kill all sandboxes (DANGER: use with caution!)
-export const killAllSandboxes = action({
+export const killAllSandboxes = internalAction({
   args: {},
   handler: async (): Promise<void> => {
     try {
-      const response = await fetch("https://api.e2b.dev/sandboxes", {
-        headers: {
-          "X-API-Key": process.env.E2B_API_KEY || "",
-        },
-      })
-
-      if (!response.ok) {
-        throw new Error(`Failed to list sandboxes: ${response.statusText}`)
-      }
-
-      const sandboxes = (await response.json()) as Array<{ sandboxID: string }>
+      const provider = getSandboxProvider()
+      const sandboxes = await provider.list()
 
       console.log(`Killing ${sandboxes.length} sandboxes...`)
 
       for (const sandbox of sandboxes) {
         try {
-          const sbx = await Sandbox.connect(sandbox.sandboxID, {
-            apiKey: process.env.E2B_API_KEY,
-          })
-          await sbx.kill()
-          console.log(`Killed sandbox: ${sandbox.sandboxID}`)
+          await provider.kill(sandbox.sandboxId)
+          console.log(`Killed sandbox: ${sandbox.sandboxId}`)
         } catch (error) {
-          console.warn(`Failed to kill ${sandbox.sandboxID}:`, error)
+          console.warn(`Failed to kill ${sandbox.sandboxId}:`, error)
         }
       }
 
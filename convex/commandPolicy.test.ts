@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest"
+import { checkCommand } from "./commandPolicy"
+
+const allowed = (command: string) => checkCommand(command).allowed
+
+describe("checkCommand", () => {
+  it.each([
+    "npm install zod",
+    "npm run build 2>&1",
+    "npx tsc --noEmit",
+    "npx --no-install eslint src",
+    "node scripts/build.js -p production",
+    "grep -r kill src",
+    'grep -rn "pkill" src | head -5',
+    "find src -name '*.tsx'",
+    "rm -rf dist node_modules/.cache",
+    "rm -- -weird-file",
+    "git status && git diff",
+    "next build",
+    "vite build",
+    "NODE_ENV=production npm run build",
+    "pnpm vite build",
+    "yarn run tsc --noEmit",
+    "npm test",
+  ])("allows %s", (command) => {
+    expect(checkCommand(command)).toEqual({ allowed: true })
+  })
+
+  it.each([
+    ["env sh -c 'id'", "not in the list of allowed programs"],
+    ["node -e 'process.exit(1)'", "inline code"],
+    ['node "--eval=1"', "inline code"],
+    ["node -pe 1", "inline code"],
+    ["echo 'code' | node", "inline code"],
+    ["node --import data:text/javascript,1 x.js", "inline code"],
+    ["bun -e 1", "inline code"],
+    ["npx cowsay hi", "npx can only run"],
+    ["npx -p cowsay tsc", "npx can only run"],
+    ["npx next dev", "dev server"],
+    ["npm exec cowsay", "Running packages by name"],
+    ["find . -exec rm {} \;", "find can only list files"],
+    ["find . -name '*.ts' -delete", "find can only list files"],
+    ["kill 42", "Killing processes"],
+    ["true & pkill node", "Killing processes"],
+    ["rm -rf *", "Refusing to delete"],
+    ["rm -rf -- .", "Refusing to delete"],
+    ["rm -rf ./", "Refusing to delete"],
+    ["rm -rf ../other", "Refusing to delete"],
+    ["rm -rf /", "Refusing to delete"],
+    ["rm -rf $HOME", "Variables can't be used"],
+    ["npm run dev", "dev server"],
+    ["npm run preview", "dev server"],
+    ["pnpm preview", "dev server"],
+    ["yarn serve", "dev server"],
+    ["pnpm vite", "dev server"],
+    ["yarn vite", "dev server"],
+    ["pnpm next dev", "dev server"],
+    ["yarn run next start", "next can only run"],
+    ["bun vite --port 3000", "vite can only run"],
+    ["vite", "dev server"],
+    ["vite --port 3000", "vite can only run"],
+    ["git push origin main", "pushing"],
+    ["git -c core.pager=sh log", "git's configuration"],
+    ["npm publish", "pushing"],
+    ["echo $(whoami)", "Command substitution"],
+    ["echo hi > /etc/hosts", "outside the project"],
+    ["curl https://example.com", "Network downloads"],
+    ["", "empty"],
+  ])("rejects %s", (command, reason) => {
+    const decision = checkCommand(command)
+    expect(decision.allowed).toBe(false)
+    expect(!decision.allowed && decision.reason).toContain(reason)
+  })
+
+  it("checks every command in a chain", () => {
+    expect(allowed("npm install && npx tsc")).toBe(true)
+    expect(allowed("npm install && sh -c 'id'")).toBe(false)
+    expect(allowed("ls; node -e 1")).toBe(false)
+  })
+})
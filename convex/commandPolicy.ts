@@ -0,0 +1,347 @@
+/**
+ * Command Policy
+ *
+ * Decides which shell commands the agent may run in the sandbox.
+ * A command line is split into commands (on &&, ||, ;, | and &) and each is
+ * parsed into words. Its program must be allowed, and programs that can
+ * run other code have their arguments checked too.
+ */
+
+export type CommandDecision =
+  | { allowed: true }
+  | { allowed: false; reason: string }
+
+// Programs the agent can start
+const ALLOWED_PROGRAMS = new Set([
+  "npm",
+  "npx",
+  "node",
+  "pnpm",
+  "yarn",
+  "bun",
+  "tsc",
+  "eslint",
+  "prettier",
+  "vite",
+  "next",
+  "git",
+  "ls",
+  "cat",
+  "head",
+  "tail",
+  "wc",
+  "grep",
+  "find",
+  "pwd",
+  "echo",
+  "mkdir",
+  "touch",
+  "cp",
+  "mv",
+  "rm",
+  "sort",
+  "uniq",
+  "diff",
+  "which",
+  "true",
+])
+
+// Programs npx may run: the project's own tooling, never a package fetched
+// by name
+const NPX_PROGRAMS = new Set(["tsc", "eslint", "prettier", "vite", "next"])
+
+const PACKAGE_MANAGERS = new Set(["npm", "pnpm", "yarn", "bun"])
+
+// Scripts that start a server by convention
+const DEV_SCRIPTS = new Set(["dev", "start", "preview", "serve"])
+
+const KILL_REASON =
+  "Killing processes can take down the dev server. Ask the user to restart it instead."
+const ADMIN_REASON = "System administration commands are not allowed"
+const DOWNLOAD_REASON =
+  "Network downloads are not allowed, use the package manager"
+const PUBLISH_REASON = "Publishing or pushing is not allowed from the sandbox"
+const DEV_SERVER_REASON =
+  "The dev server is managed by the platform. Use the Start button instead."
+const INLINE_CODE_REASON = "node can only run files, not inline code"
+
+// Why common programs outside the allowlist are refused, so the agent can
+// pick another approach
+const DENIED_PROGRAMS = new Map<string, string>([
+  ["kill", KILL_REASON],
+  ["pkill", KILL_REASON],
+  ["killall", KILL_REASON],
+  ["sudo", ADMIN_REASON],
+  ["su", ADMIN_REASON],
+  ["chmod", ADMIN_REASON],
+  ["chown", ADMIN_REASON],
+  ["shutdown", ADMIN_REASON],
+  ["reboot", ADMIN_REASON],
+  ["mkfs", ADMIN_REASON],
+  ["dd", ADMIN_REASON],
+  ["curl", DOWNLOAD_REASON],
+  ["wget", DOWNLOAD_REASON],
+])
+
+// Patterns rejected anywhere in the command line, before it is parsed
+const DENY_RULES: Array<{ pattern: RegExp; reason: string }> = [
+  {
+    pattern: /\$\(|`|[<>]\(/,
+    reason: "Command substitution is not allowed",
+  },
+  {
+    pattern: />\s*(\/(?!dev\/null)|~|\.\.)/,
+    reason: "Writing outside the project directory is not allowed",
+  },
+]
+
+// Flags that make node or bun evaluate code given on the command line
+const EVAL_FLAG = /^(--eval|--print|--interactive)(=|$)|^-[a-z]*[epi]/
+
+/**
+ * Checks for the arguments of programs that could otherwise run anything,
+ * or that manage the dev server. Each returns why the command is
+ * rejected, or nothing.
+ */
+const ARGUMENT_RULES: Record<string, (args: string[]) => string | undefined> = {
+  node: (args) => {
+    if (isVersionOrHelp(args)) return
+    const script = subcommandOf(args)
+    // Without a script node runs what it's piped
+    if (!script || script === "-") return INLINE_CODE_REASON
+    if (
+      flagsOf(args).some((arg) => EVAL_FLAG.test(arg)) ||
+      args.some((arg) => arg.includes("data:"))
+    ) {
+      return INLINE_CODE_REASON
+    }
+  },
+  find: (args) => {
+    if (
+      args.some((arg) =>
+        /^-(exec|execdir|ok|okdir|delete|fprint0?|fprintf|fls)$/.test(arg),
+      )
+    ) {
+      return "find can only list files, use rm or mv to change them"
+    }
+  },
+  rm: (args) => {
+    const end = args.indexOf("--")
+    const targets =
+      end === -1
+        ? args.filter((arg) => !arg.startsWith("-"))
+        : [
+            ...args.slice(0, end).filter((arg) => !arg.startsWith("-")),
+            ...args.slice(end + 1),
+          ]
+    if (targets.some(isUnsafeTarget)) {
+      return "Refusing to delete the project root, home, filesystem root or everything at once"
+    }
+  },
+  git: (args) => {
+    if (args.some((arg) => /^(-c|--config-env|--exec-path)(=|$)/.test(arg))) {
+      return "Changing git's configuration is not allowed"
+    }
+    const command = args.find(
+      (arg, i) => !arg.startsWith("-") && args[i - 1] !== "-C",
+    )
+    if (command === "push") return PUBLISH_REASON
+    if (command === "config") {
+      return "Changing git's configuration is not allowed"
+    }
+  },
+  vite: (args) => checkSubcommand("vite", args, ["build", "optimize"]),
+  next: (args) =>
+    checkSubcommand("next", args, ["build", "lint", "info", "telemetry"]),
+}
+
+function checkPackageManager(
+  program: string,
+  args: string[],
+): string | undefined {
+  if (program === "bun" && flagsOf(args).some((arg) => EVAL_FLAG.test(arg))) {
+    return INLINE_CODE_REASON
+  }
+
+  const index = args.findIndex((arg) => !arg.startsWith("-"))
+  const command = args[index]
+  if (command === "publish") return PUBLISH_REASON
+  if (command === "exec" || command === "x" || command === "dlx") {
+    return "Running packages by name is not allowed, use npx with the project's tools"
+  }
+  if (command === "node") return "Run node directly instead"
+
+  // Package managers run the project's binaries as well as its scripts,
+  // so `pnpm vite` or `yarn run next dev` is checked like npx would
+  const scriptIndex =
+    command === "run" || command === "run-script"
+      ? args.findIndex((arg, i) => i > index && !arg.startsWith("-"))
+      : index
+  const script = args[scriptIndex]
+  if (!script) return
+  if (DEV_SCRIPTS.has(script)) return DEV_SERVER_REASON
+  if (NPX_PROGRAMS.has(script)) return checkWords(args.slice(scriptIndex))
+}
+
+/**
+ * Only let a server-starting tool run the given subcommands; run bare or
+ * with anything else it starts a server.
+ */
+function checkSubcommand(
+  program: string,
+  args: string[],
+  allowed: string[],
+): string | undefined {
+  if (isVersionOrHelp(args)) return
+  const command = subcommandOf(args)
+  if (!command || command === "dev" || command === "serve") {
+    return DEV_SERVER_REASON
+  }
+  if (!allowed.includes(command)) {
+    return `${program} can only run ${allowed.join(", ")}`
+  }
+}
+
+function subcommandOf(args: string[]): string | undefined {
+  return args.find((arg) => !arg.startsWith("-"))
+}
+
+// Flags given to the program itself, before its script or subcommand
+function flagsOf(args: string[]): string[] {
+  const index = args.findIndex((arg) => !arg.startsWith("-"))
+  return index === -1 ? args : args.slice(0, index)
+}
+
+function isVersionOrHelp(args: string[]): boolean {
+  return (
+    args.length === 1 && ["-v", "--version", "-h", "--help"].includes(args[0])
+  )
+}
+
+/**
+ * rm targets that would take out the project, home or filesystem root, or
+ * every file in the current directory.
+ */
+function isUnsafeTarget(target: string): boolean {
+  const path = target.replace(/\/+$/, "").replace(/^(\.\/)+/, "")
+  return (
+    path === "" ||
+    path === "." ||
+    path === "*" ||
+    path === ".*" ||
+    path.startsWith("/") ||
+    path.startsWith("~") ||
+    path.split("/").includes("..")
+  )
+}
+
+/**
+ * Split a command line into its individual commands, on the operators
+ * above and on & but not redirections like 2>&1. Operators inside quotes
+ * are split too - the broken pieces then fail the checks below, which
+ * errs on the side of rejecting.
+ */
+function splitSegments(command: string): string[] {
+  return command
+    .split(/&&|\|\||;|\||(?<![<>])&(?!>)|\n/)
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Split a command into words the way the shell would, removing quotes and
+ * backslash escapes, so `node "-e"` is seen as `node -e`.
+ */
+function parseWords(segment: string): string[] {
+  const words: string[] = []
+  let word: string | undefined
+  let quote: string | undefined
+
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i]
+    if (quote) {
+      if (char === quote) {
+        quote = undefined
+      } else if (char === "\\" && quote === '"' && i + 1 < segment.length) {
+        word += segment[++i]
+      } else {
+        word += char
+      }
+    } else if (/\s/.test(char)) {
+      if (word !== undefined) words.push(word)
+      word = undefined
+    } else if (char === '"' || char === "'") {
+      quote = char
+      word ??= ""
+    } else if (char === "\\" && i + 1 < segment.length) {
+      word = (word ?? "") + segment[++i]
+    } else {
+      word = (word ?? "") + char
+    }
+  }
+  if (word !== undefined) words.push(word)
+  return words
+}
+
+/**
+ * Check a single parsed command: its program, then the arguments of
+ * programs that need it. npx is checked as the program it runs.
+ */
+function checkWords(words: string[]): string | undefined {
+  // Skip leading VAR=value assignments
+  const start = words.findIndex(
+    (word) => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word),
+  )
+  if (start === -1) return "Command has no program"
+
+  const [program, ...args] = words.slice(start)
+  if (!ALLOWED_PROGRAMS.has(program)) {
+    return (
+      DENIED_PROGRAMS.get(program) ??
+      `"${program}" is not in the list of allowed programs`
+    )
+  }
+
+  // Arguments that expand variables can't be checked
+  if (
+    (program in ARGUMENT_RULES || program === "npx" || program === "bun") &&
+    args.some((arg) => arg.includes("$"))
+  ) {
+    return `Variables can't be used in ${program} arguments`
+  }
+
+  if (program === "npx") {
+    const index = args.findIndex((arg) => !arg.startsWith("-"))
+    if (
+      index === -1 ||
+      flagsOf(args).some((arg) => /^(-p|--package|-c|--call)(=|$)/.test(arg)) ||
+      !NPX_PROGRAMS.has(args[index])
+    ) {
+      return `npx can only run ${[...NPX_PROGRAMS].join(", ")}`
+    }
+    return checkWords(args.slice(index))
+  }
+
+  if (PACKAGE_MANAGERS.has(program)) return checkPackageManager(program, args)
+  return ARGUMENT_RULES[program]?.(args)
+}
+
+export function checkCommand(command: string): CommandDecision {
+  const trimmed = command.trim()
+  if (!trimmed) {
+    return { allowed: false, reason: "Command is empty" }
+  }
+
+  for (const rule of DENY_RULES) {
+    if (rule.pattern.test(trimmed)) {
+      return { allowed: false, reason: rule.reason }
+    }
+  }
+
+  for (const segment of splitSegments(trimmed)) {
+    const reason = checkWords(parseWords(segment))
+    if (reason) return { allowed: false, reason }
+  }
+
+  return { allowed: true }
+}
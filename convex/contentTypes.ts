@@ -0,0 +1,37 @@
+/**
+ * Content Types
+ *
+ * MIME types for the binary files a project can hold, keyed by extension.
+ */
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  ico: "image/x-icon",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  eot: "application/vnd.ms-fontobject",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  pdf: "application/pdf",
+  wasm: "application/wasm",
+}
+
+export function getContentType(path: string): string {
+  const extension = path.split(".").pop()?.toLowerCase() ?? ""
+  return CONTENT_TYPES[extension] ?? "application/octet-stream"
+}
+
+export function isImageContentType(contentType: string): boolean {
+  return contentType.startsWith("image/")
+}
@@ -0,0 +1,19 @@
+import { cronJobs } from "convex/server"
+import { internal } from "./_generated/api"
+
+const crons = cronJobs()
+
+crons.interval(
+  "reap idle sandboxes",
+  { minutes: 5 },
+  internal.sandboxReaper.reapIdleSandboxes,
+)
+
+crons.interval(
+  "reap orphan sandboxes",
+  { minutes: 30 },
+  internal.sandboxReaper.reapOrphanSandboxes,
+  {},
+)
+
+export default crons
@@ -0,0 +1,39 @@
+import { v, type Infer } from "convex/values"
+
+/**
+ * Dev Server
+ *
+ * Where a project's dev server is in its lifecycle, and how to tell from
+ * its output which port it ended up on.
+ */
+
+// Unset while no dev server is running or being set up
+export const devServerStatusValidator = v.union(
+  v.literal("installing"),
+  v.literal("starting"),
+  v.literal("ready"),
+  v.literal("crashed"),
+)
+
+export type DevServerStatus = Infer<typeof devServerStatusValidator>
+
+// Colors and cursor movement in a server's output
+const ANSI_ESCAPE = /\u001b\[[0-9;?]*[A-Za-z]/g
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_ESCAPE, "")
+}
+
+// e.g. "Local:   http://localhost:5173/" (Vite), "- Local: http://localhost:3000"
+// (Next.js) or "Accepting connections at http://localhost:8080" (serve)
+const ANNOUNCED_URL =
+  /\bhttps?:\/\/(?:localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1?\]):(\d{2,5})\b/
+
+/**
+ * The port a dev server announced it's listening on, or null if it hasn't
+ * printed a local URL yet.
+ */
+export function parseAnnouncedPort(output: string): number | null {
+  const match = ANNOUNCED_URL.exec(stripAnsi(output))
+  return match ? Number(match[1]) : null
+}
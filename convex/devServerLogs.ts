@@ -0,0 +1,191 @@
+"use node"
+
+import { action, type ActionCtx } from "./_generated/server"
+import type { Id } from "./_generated/dataModel"
+import { v } from "convex/values"
+import { api } from "./_generated/api"
+import { getSandboxProvider } from "./sandboxProvider"
+import { serverLogLevel, type LogEntry } from "./sandboxLogs"
+import { stripAnsi } from "./devServer"
+
+/**
+ * Dev Server Logs
+ *
+ * Streams what the dev server prints into sandboxLogs. startDevServer
+ * captures the startup output; after that, streamDevServerLogs attaches
+ * to the running server for a while at a time and the browser calls it
+ * again when it returns, like the terminal.
+ */
+
+// How long one action streams before handing over, well within Convex's
+// action time limit
+const STREAM_DURATION_MS = 5 * 60_000
+
+// How often buffered lines are written
+const FLUSH_INTERVAL_MS = 250
+
+/**
+ * Collects dev-server output into log entries, one per line, and writes
+ * them in batches until closed.
+ */
+export function createServerLogWriter(
+  ctx: ActionCtx,
+  projectId: Id<"projects">,
+) {
+  const partial = { stdout: "", stderr: "" }
+  let entries: LogEntry[] = []
+  let writing: Promise<void> = Promise.resolve()
+
+  const collect = (stream: "stdout" | "stderr", data: string) => {
+    const lines = (partial[stream] + data).split(/\r?\n/)
+    partial[stream] = lines.pop() ?? ""
+    for (const line of lines) {
+      const message = stripAnsi(line).trimEnd()
+      if (!message) continue
+      entries.push({
+        source: "server",
+        level: serverLogLevel(message, stream),
+        message,
+        createdAt: Date.now(),
+      })
+    }
+  }
+
+  const flush = () => {
+    const batch = entries
+    entries = []
+    writing = writing.then(async () => {
+      if (batch.length === 0) return
+      try {
+        await ctx.runMutation(api.sandboxLogs.appendSandboxLogs, {
+          projectId,
+          entries: batch,
+        })
+      } catch (error) {
+        console.warn("Failed to write dev server logs:", error)
+      }
+    })
+    return writing
+  }
+
+  const timer = setInterval(flush, FLUSH_INTERVAL_MS)
+
+  return {
+    onStdout: (data: string) => collect("stdout", data),
+    onStderr: (data: string) => collect("stderr", data),
+    /**
+     * Write what's left, including an unfinished last line.
+     */
+    close: async () => {
+      clearInterval(timer)
+      collect("stdout", partial.stdout && "\n")
+      collect("stderr", partial.stderr && "\n")
+      await flush()
+    },
+  }
+}
+
+/**
+ * A dev server that exits while still "ready" wasn't stopped from the
+ * app, stopDevServer clears the status first.
+ */
+async function markCrashedUnlessStopped(
+  ctx: ActionCtx,
+  projectId: Id<"projects">,
+  error: string,
+) {
+  const project = await ctx.runQuery(api.projects.getProject, { projectId })
+  if (project?.devServerStatus !== "ready") return
+
+  await ctx.runMutation(api.projects.updateDevServerStatus, {
+    projectId,
+    status: "crashed",
+    error,
+  })
+  await ctx.runMutation(api.projects.updateDevServerUrl, { projectId })
+  if (project.sandboxId) {
+    await ctx.runMutation(api.sandboxes.transitionSandboxById, {
+      sandboxId: project.sandboxId,
+      to: "idle",
+      error,
+    })
+  }
+}
+
+/**
+ * Stream the dev server's output until it stops or this action's time is
+ * up. "stopped" means there's nothing to stream, "handover" that the
+ * caller should call again, and "busy" that another action is streaming
+ * until `retryAt`.
+ */
+export const streamDevServerLogs = action({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (
+    ctx,
+    { projectId },
+  ): Promise<{ status: "stopped" | "handover" | "busy"; retryAt?: number }> => {
+    const deadline = Date.now() + STREAM_DURATION_MS
+    const claimed = await ctx.runMutation(
+      api.sandboxLogs.claimDevServerLogStream,
+      { projectId, until: deadline + FLUSH_INTERVAL_MS * 10 },
+    )
+    const project = await ctx.runQuery(api.projects.getProject, { projectId })
+    if (!project?.sandboxId || project.devServerPid === undefined) {
+      return { status: "stopped" }
+    }
+    if (!claimed) return { status: "busy", retryAt: project.devServerLogsUntil }
+
+    const writer = createServerLogWriter(ctx, projectId)
+    let stopped: string | null = null
+    try {
+      const sandbox = await getSandboxProvider().connect(project.sandboxId)
+      const handle = await sandbox.attach(project.devServerPid, {
+        onStdout: writer.onStdout,
+        onStderr: writer.onStderr,
+      })
+
+      let timer: NodeJS.Timeout | undefined
+      const timeUp = new Promise<"handover">((resolve) => {
+        timer = setTimeout(() => resolve("handover"), deadline - Date.now())
+      })
+      const result = await Promise.race([handle.wait(), timeUp])
+      clearTimeout(timer)
+
+      if (result === "handover") {
+        // Detach only; the server keeps running
+        await handle.disconnect()
+      } else {
+        stopped = `Dev server exited with code ${result.exitCode}`
+        await markCrashedUnlessStopped(ctx, projectId, stopped)
+      }
+    } catch (error) {
+      // The sandbox or the server is gone
+      console.error(`Streaming dev server logs for ${projectId} failed:`, error)
+      stopped = `Lost the dev server's output: ${
+        error instanceof Error ? error.message : "unknown error"
+      }`
+    } finally {
+      await writer.close()
+      await ctx.runMutation(api.sandboxLogs.releaseDevServerLogStream, {
+        projectId,
+      })
+    }
+
+    if (stopped) {
+      await ctx.runMutation(api.sandboxLogs.appendSandboxLogs, {
+        projectId,
+        entries: [
+          {
+            source: "server",
+            level: "warn",
+            message: stopped,
+            createdAt: Date.now(),
+          },
+        ],
+      })
+    }
+    return { status: stopped ? "stopped" : "handover" }
+  },
+})
@@ -0,0 +1,188 @@
+import { v, type Infer } from "convex/values"
+import { mutation, query } from "./_generated/server"
+
+/**
+ * Diagnostics
+ *
+ * Type and lint errors reported by `tsc` and ESLint in the sandbox, stored
+ * per file so the editor and the agent see the same problems. Each check
+ * replaces everything its tool reported before.
+ */
+
+// Enough to be useful; a project with more needs fixing in bulk anyway
+const MAX_DIAGNOSTICS = 500
+
+export const diagnosticSourceValidator = v.union(
+  v.literal("tsc"),
+  v.literal("eslint"),
+)
+
+export const diagnosticSeverityValidator = v.union(
+  v.literal("error"),
+  v.literal("warning"),
+)
+
+export const diagnosticValidator = v.object({
+  path: v.string(),
+  // 1-based, like Monaco
+  line: v.number(),
+  column: v.number(),
+  endLine: v.optional(v.number()),
+  endColumn: v.optional(v.number()),
+  severity: diagnosticSeverityValidator,
+  message: v.string(),
+  // e.g. "TS2322" or "react-hooks/exhaustive-deps"
+  code: v.optional(v.string()),
+})
+
+export type DiagnosticSource = Infer<typeof diagnosticSourceValidator>
+export type Diagnostic = Infer<typeof diagnosticValidator>
+
+/**
+ * Diagnostics from `tsc --pretty false` output, e.g.
+ * "src/App.tsx(12,5): error TS2322: Type 'string' is not ...".
+ * Indented lines that follow belong to the message above them.
+ */
+export function parseTscOutput(output: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  for (const line of output.split("\n")) {
+    const match = line.match(
+      /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/,
+    )
+    if (match) {
+      diagnostics.push({
+        path: match[1].replace(/^\.\//, ""),
+        line: Number(match[2]),
+        column: Number(match[3]),
+        severity: match[4] as Diagnostic["severity"],
+        code: match[5],
+        message: match[6],
+      })
+    } else if (/^\s+\S/.test(line) && diagnostics.length > 0) {
+      diagnostics[diagnostics.length - 1].message += `\n${line.trim()}`
+    }
+  }
+  return diagnostics
+}
+
+type EslintResult = {
+  filePath: string
+  messages: {
+    ruleId: string | null
+    severity: number
+    message: string
+    line?: number
+    column?: number
+    endLine?: number
+    endColumn?: number
+  }[]
+}
+
+/**
+ * Diagnostics from `eslint --format json` output. File paths are absolute
+ * in the sandbox and made relative to `root`.
+ */
+export function parseEslintOutput(output: string, root: string): Diagnostic[] {
+  // Deprecation notices and the like can come before the JSON
+  const start = output.indexOf("[")
+  if (start === -1) return []
+  const results = JSON.parse(output.slice(start)) as EslintResult[]
+
+  return results.flatMap((result) =>
+    result.messages.map((message) => ({
+      path: result.filePath.startsWith(`${root}/`)
+        ? result.filePath.slice(root.length + 1)
+        : result.filePath,
+      line: message.line ?? 1,
+      column: message.column ?? 1,
+      endLine: message.endLine,
+      endColumn: message.endColumn,
+      severity:
+        message.severity === 2 ? ("error" as const) : ("warning" as const),
+      message: message.message,
+      code: message.ruleId ?? undefined,
+    })),
+  )
+}
+
+export const getDiagnostics = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) return []
+
+    return await ctx.db
+      .query("diagnostics")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+  },
+})
+
+/**
+ * Store the result of a check, replacing what the same tool reported
+ * last time. Errors are kept before warnings when there are too many.
+ */
+export const replaceDiagnostics = mutation({
+  args: {
+    projectId: v.id("projects"),
+    source: diagnosticSourceValidator,
+    diagnostics: v.array(diagnosticValidator),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const previous = await ctx.db
+      .query("diagnostics")
+      .withIndex("by_project_and_source", (q) =>
+        q.eq("projectId", args.projectId).eq("source", args.source),
+      )
+      .collect()
+    for (const diagnostic of previous) {
+      await ctx.db.delete(diagnostic._id)
+    }
+
+    const kept = [...args.diagnostics]
+      .sort(
+        (a, b) =>
+          Number(a.severity === "warning") - Number(b.severity === "warning"),
+      )
+      .slice(0, MAX_DIAGNOSTICS)
+
+    const now = Date.now()
+    for (const diagnostic of kept) {
+      await ctx.db.insert("diagnostics", {
+        projectId: args.projectId,
+        source: args.source,
+        ...diagnostic,
+        createdAt: now,
+      })
+    }
+
+    return { stored: kept.length, total: args.diagnostics.length }
+  },
+})
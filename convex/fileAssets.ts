@@ -0,0 +1,102 @@
+import { v } from "convex/values"
+import { query, type MutationCtx } from "./_generated/server"
+import type { Id } from "./_generated/dataModel"
+
+/**
+ * File Assets
+ *
+ * Binary files (images, fonts, ...) keep their bytes in Convex file
+ * storage. The files row references the blob and leaves `content` empty.
+ * File versions copy the reference, so a blob is only removed once none
+ * of them point at it any more.
+ */
+
+export const assetFields = {
+  storageId: v.optional(v.id("_storage")),
+  contentType: v.optional(v.string()),
+  // SHA-256 of the bytes, as reported by file storage
+  hash: v.optional(v.string()),
+  size: v.optional(v.number()),
+}
+
+export type FileAsset = {
+  storageId?: Id<"_storage">
+  contentType?: string
+  hash?: string
+  size?: number
+}
+
+/**
+ * The asset fields of a row, all undefined for text files. Spreading the
+ * result into a patch also clears them when a binary becomes text.
+ */
+export function assetOf(row: FileAsset): FileAsset {
+  return {
+    storageId: row.storageId,
+    contentType: row.contentType,
+    hash: row.hash,
+    size: row.size,
+  }
+}
+
+/**
+ * Delete blobs that no file or file version references.
+ * Call after removing rows that pointed at them.
+ */
+export async function deleteUnreferencedAssets(
+  ctx: MutationCtx,
+  storageIds: Iterable<Id<"_storage"> | undefined>,
+) {
+  for (const storageId of new Set(storageIds)) {
+    if (!storageId) continue
+
+    const referenced =
+      (await ctx.db
+        .query("files")
+        .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+        .first()) ||
+      (await ctx.db
+        .query("fileVersions")
+        .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+        .first())
+
+    if (!referenced) await ctx.storage.delete(storageId)
+  }
+}
+
+/**
+ * URL the browser can load a project's binary file (or an older version
+ * of it) from.
+ */
+export const getAssetUrl = query({
+  args: {
+    projectId: v.id("projects"),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return null
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) return null
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) return null
+
+    // Only hand out URLs for blobs that belong to this project
+    const version = await ctx.db
+      .query("fileVersions")
+      .withIndex("by_storage", (q) => q.eq("storageId", args.storageId))
+      .filter((q) => q.eq(q.field("projectId"), args.projectId))
+      .first()
+
+    if (!version) return null
+
+    return await ctx.storage.getUrl(args.storageId)
+  },
+})
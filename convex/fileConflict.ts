@@ -0,0 +1,32 @@
+import { ConvexError } from "convex/values"
+
+/**
+ * File Conflict
+ *
+ * Error data thrown by files.updateFile when a write was based on an
+ * older version than the one stored. Carries everything the client needs
+ * for a three-way merge: the content the edit started from, and what is
+ * stored now.
+ */
+
+export type FileConflict = {
+  kind: "conflict"
+  path: string
+  expectedVersion: number
+  // 0 when the file was deleted in the meantime
+  currentVersion: number
+  currentContent: string
+  // Content at expectedVersion, null if the history no longer has it
+  baseContent: string | null
+}
+
+export function isFileConflictError(
+  error: unknown,
+): error is ConvexError<FileConflict> {
+  return (
+    error instanceof ConvexError &&
+    typeof error.data === "object" &&
+    error.data !== null &&
+    error.data.kind === "conflict"
+  )
+}
@@ -0,0 +1,258 @@
+import { v, type Infer } from "convex/values"
+import { query, type MutationCtx } from "./_generated/server"
+import type { Doc, Id } from "./_generated/dataModel"
+import { assetOf } from "./fileAssets"
+
+/**
+ * File Versions
+ *
+ * Every write to the files table also stores the resulting content here,
+ * so a file's history can be diffed and rolled back from the editor.
+ * Deleting a file adds a final "deleted" entry and keeps the rest, so
+ * deleted files can be viewed and restored. Only deleting the project
+ * removes history.
+ */
+
+export const fileAuthorValidator = v.union(
+  v.literal("user"),
+  v.literal("agent"),
+  // Template files and imported repositories
+  v.literal("import"),
+  // Changes made inside the sandbox, e.g. from the terminal
+  v.literal("sandbox"),
+)
+
+export type FileAuthor = Infer<typeof fileAuthorValidator>
+
+/**
+ * Store the current state of a file as a new history entry.
+ * Call after every insert or patch that bumps the file's version, with
+ * the file as it was before a patch as `previous`.
+ */
+export async function recordFileVersion(
+  ctx: MutationCtx,
+  file: Doc<"files">,
+  source: { author: FileAuthor; messageId?: Id<"messages"> },
+  previous?: Doc<"files">,
+) {
+  if (previous) await backfillFileVersion(ctx, previous)
+
+  await ctx.db.insert("fileVersions", {
+    projectId: file.projectId,
+    fileId: file._id,
+    path: file.path,
+    version: file.version,
+    content: file.content,
+    ...assetOf(file),
+    author: source.author,
+    messageId: source.messageId,
+    createdAt: file.lastModified,
+  })
+}
+
+/**
+ * Store a file's state as it is now, unless its history already has this
+ * version. Files from before history was kept only get entries when they
+ * change, so without this the content before their first change is lost.
+ */
+export async function backfillFileVersion(
+  ctx: MutationCtx,
+  file: Doc<"files">,
+) {
+  const existing = await ctx.db
+    .query("fileVersions")
+    .withIndex("by_file", (q) =>
+      q.eq("fileId", file._id).eq("version", file.version),
+    )
+    .first()
+  if (existing) return
+
+  await ctx.db.insert("fileVersions", {
+    projectId: file.projectId,
+    fileId: file._id,
+    path: file.path,
+    version: file.version,
+    content: file.content,
+    ...assetOf(file),
+    // Who made it isn't known; most such files came with the template
+    author: "import",
+    createdAt: file.lastModified,
+  })
+}
+
+/**
+ * Hand a deleted file's history to the row that brings it back, so it
+ * reads as one file. Checkpoints pointing at its versions follow along.
+ */
+export async function moveFileHistory(
+  ctx: MutationCtx,
+  fromFileId: Id<"files">,
+  toFileId: Id<"files">,
+) {
+  const versions = await ctx.db
+    .query("fileVersions")
+    .withIndex("by_file", (q) => q.eq("fileId", fromFileId))
+    .collect()
+  for (const version of versions) {
+    await ctx.db.patch(version._id, { fileId: toFileId })
+  }
+
+  const checkpointFiles = await ctx.db
+    .query("checkpointFiles")
+    .withIndex("by_file", (q) => q.eq("fileId", fromFileId))
+    .collect()
+  for (const checkpointFile of checkpointFiles) {
+    await ctx.db.patch(checkpointFile._id, { fileId: toFileId })
+  }
+}
+
+/**
+ * Record that a file was deleted, as a version after its last one.
+ * Call alongside deleting the files row; the file's history is kept.
+ */
+export async function recordFileDeletion(
+  ctx: MutationCtx,
+  file: Doc<"files">,
+  source: { author: FileAuthor; messageId?: Id<"messages"> },
+) {
+  await backfillFileVersion(ctx, file)
+
+  await ctx.db.insert("fileVersions", {
+    projectId: file.projectId,
+    fileId: file._id,
+    path: file.path,
+    version: file.version + 1,
+    content: "",
+    author: source.author,
+    messageId: source.messageId,
+    deleted: true,
+    createdAt: Date.now(),
+  })
+}
+
+/**
+ * History of a file, newest first. Contents are left out - fetch the
+ * versions being compared with getFileVersion.
+ */
+export const getFileHistory = query({
+  args: {
+    projectId: v.id("projects"),
+    path: v.string(),
+    // For deleted files, which can't be looked up by path
+    fileId: v.optional(v.id("files")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) return []
+
+    const file = await ctx.db
+      .query("files")
+      .withIndex("by_project_and_path", (q) =>
+        q.eq("projectId", args.projectId).eq("path", args.path),
+      )
+      .first()
+
+    const fileId = args.fileId ?? file?._id
+    if (!fileId) return []
+
+    const versions = await ctx.db
+      .query("fileVersions")
+      .withIndex("by_file", (q) => q.eq("fileId", fileId))
+      .order("desc")
+      .collect()
+
+    return versions
+      .filter((version) => version.projectId === args.projectId)
+      .map((version) => ({
+        _id: version._id,
+        path: version.path,
+        version: version.version,
+        author: version.author,
+        messageId: version.messageId,
+        contentType: version.contentType,
+        deleted: version.deleted,
+        createdAt: version.createdAt,
+      }))
+  },
+})
+
+/**
+ * Files that were deleted and not restored since, most recently deleted
+ * first.
+ */
+export const getDeletedFiles = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) return []
+
+    const deletions = await ctx.db
+      .query("fileVersions")
+      .withIndex("by_project_and_deleted", (q) =>
+        q.eq("projectId", args.projectId).eq("deleted", true),
+      )
+      .collect()
+
+    // A restored file takes its history along, deletion entry included
+    const deleted = []
+    for (const deletion of deletions) {
+      if (await ctx.db.get(deletion.fileId)) continue
+      deleted.push({
+        fileId: deletion.fileId,
+        path: deletion.path,
+        author: deletion.author,
+        deletedAt: deletion.createdAt,
+      })
+    }
+
+    return deleted.sort((a, b) => b.deletedAt - a.deletedAt)
+  },
+})
+
+export const getFileVersion = query({
+  args: {
+    fileVersionId: v.id("fileVersions"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return null
+
+    const fileVersion = await ctx.db.get(args.fileVersionId)
+    if (!fileVersion) return null
+
+    // Verify project access
+    const project = await ctx.db.get(fileVersion.projectId)
+    if (!project) return null
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) return null
+
+    return fileVersion
+  },
+})
@@ -1,5 +1,15 @@
-import { v } from "convex/values"
-import { mutation, query } from "./_generated/server"
+import { ConvexError, v } from "convex/values"
+import { mutation, query, type MutationCtx } from "./_generated/server"
+import type { Doc, Id } from "./_generated/dataModel"
+import {
+  fileAuthorValidator,
+  moveFileHistory,
+  recordFileDeletion,
+  recordFileVersion,
+} from "./fileVersions"
+import type { FileConflict } from "./fileConflict"
+import { getContentType } from "./contentTypes"
+import { assetOf } from "./fileAssets"
 
 export const getFiles = query({
   args: { projectId: v.id("projects") },
@@ -77,6 +87,12 @@ export const updateFile = mutation({
     projectId: v.id("projects"),
     path: v.string(),
     content: v.string(),
+    // Who made the change, recorded in the file's history
+    author: v.optional(fileAuthorValidator),
+    messageId: v.optional(v.id("messages")),
+    // Version the edit was based on. When set, the write is rejected with a
+    // FileConflict if the stored file has moved on (0 means "new file").
+    expectedVersion: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity()
@@ -95,23 +111,63 @@ export const updateFile = mutation({
       throw new Error("Unauthorized")
     }
 
+    const path = validatePath(args.path)
+
     // Find existing file
     const existingFile = await ctx.db
       .query("files")
       .withIndex("by_project_and_path", (q) =>
-        q.eq("projectId", args.projectId).eq("path", args.path),
+        q.eq("projectId", args.projectId).eq("path", path),
       )
       .first()
 
+    const currentVersion = existingFile?.version ?? 0
+    if (
+      args.expectedVersion !== undefined &&
+      args.expectedVersion !== currentVersion
+    ) {
+      const base = existingFile
+        ? await ctx.db
+            .query("fileVersions")
+            .withIndex("by_file", (q) =>
+              q
+                .eq("fileId", existingFile._id)
+                .eq("version", args.expectedVersion!),
+            )
+            .first()
+        : null
+
+      throw new ConvexError<FileConflict>({
+        kind: "conflict",
+        path,
+        expectedVersion: args.expectedVersion,
+        currentVersion,
+        currentContent: existingFile?.content ?? "",
+        baseContent: base?.content ?? null,
+      })
+    }
+
     const now = Date.now()
+    const source = { author: args.author ?? "user", messageId: args.messageId }
 
     if (existingFile) {
-      // Update existing file and increment version
+      // Update existing file and increment version. Writing text over a
+      // binary file turns it into a text file.
       await ctx.db.patch(existingFile._id, {
         content: args.content,
+        storageId: undefined,
+        contentType: undefined,
+        hash: undefined,
+        size: undefined,
         version: existingFile.version + 1,
         lastModified: now,
       })
+      await recordFileVersion(
+        ctx,
+        (await ctx.db.get(existingFile._id))!,
+        source,
+        existingFile,
+      )
 
       // Update project lastModified
       await ctx.db.patch(args.projectId, {
@@ -123,11 +179,12 @@ export const updateFile = mutation({
       // Create new file
       const fileId = await ctx.db.insert("files", {
         projectId: args.projectId,
-        path: args.path,
+        path,
         content: args.content,
         version: 1,
         lastModified: now,
       })
+      await recordFileVersion(ctx, (await ctx.db.get(fileId))!, source)
 
       // Update project lastModified
       await ctx.db.patch(args.projectId, {
@@ -139,6 +196,122 @@ export const updateFile = mutation({
   },
 })
 
+export const generateUploadUrl = mutation({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    return await ctx.storage.generateUploadUrl()
+  },
+})
+
+/**
+ * Create or replace a binary file with a blob already in file storage.
+ * Hash and size come from the storage metadata.
+ */
+export const writeBinaryFile = mutation({
+  args: {
+    projectId: v.id("projects"),
+    path: v.string(),
+    storageId: v.id("_storage"),
+    // Defaults to the type the blob was uploaded with, then the extension
+    contentType: v.optional(v.string()),
+    author: v.optional(fileAuthorValidator),
+    messageId: v.optional(v.id("messages")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const path = validatePath(args.path)
+    const metadata = await ctx.db.system.get(args.storageId)
+    if (!metadata) throw new Error("Uploaded file not found")
+
+    const asset = {
+      storageId: args.storageId,
+      contentType:
+        args.contentType ?? metadata.contentType ?? getContentType(path),
+      hash: metadata.sha256,
+      size: metadata.size,
+    }
+
+    const existingFile = await ctx.db
+      .query("files")
+      .withIndex("by_project_and_path", (q) =>
+        q.eq("projectId", args.projectId).eq("path", path),
+      )
+      .first()
+
+    const now = Date.now()
+    const source = { author: args.author ?? "user", messageId: args.messageId }
+
+    let fileId: Id<"files">
+    let version: number
+    if (existingFile) {
+      fileId = existingFile._id
+      version = existingFile.version + 1
+      await ctx.db.patch(fileId, {
+        content: "",
+        ...asset,
+        version,
+        lastModified: now,
+      })
+    } else {
+      version = 1
+      fileId = await ctx.db.insert("files", {
+        projectId: args.projectId,
+        path,
+        content: "",
+        ...asset,
+        version,
+        lastModified: now,
+      })
+    }
+    await recordFileVersion(
+      ctx,
+      (await ctx.db.get(fileId))!,
+      source,
+      existingFile ?? undefined,
+    )
+
+    // Update project lastModified
+    await ctx.db.patch(args.projectId, {
+      lastModified: now,
+    })
+
+    return { fileId, version }
+  },
+})
+
 export const createFiles = mutation({
   args: {
     projectId: v.id("projects"),
@@ -178,6 +351,9 @@ export const createFiles = mutation({
         version: 1,
         lastModified: now,
       })
+      await recordFileVersion(ctx, (await ctx.db.get(fileId))!, {
+        author: "import",
+      })
       fileIds.push(fileId)
     }
 
@@ -189,3 +365,667 @@ export const createFiles = mutation({
     return fileIds
   },
 })
+
+export const renameFile = mutation({
+  args: {
+    projectId: v.id("projects"),
+    fromPath: v.string(),
+    toPath: v.string(),
+    author: v.optional(fileAuthorValidator),
+    messageId: v.optional(v.id("messages")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const file = await ctx.db
+      .query("files")
+      .withIndex("by_project_and_path", (q) =>
+        q.eq("projectId", args.projectId).eq("path", args.fromPath),
+      )
+      .first()
+
+    if (!file) throw new Error(`File not found: ${args.fromPath}`)
+
+    const toPath = validatePath(args.toPath)
+    const existingTarget = await ctx.db
+      .query("files")
+      .withIndex("by_project_and_path", (q) =>
+        q.eq("projectId", args.projectId).eq("path", toPath),
+      )
+      .first()
+
+    if (existingTarget) throw new Error(`File already exists: ${toPath}`)
+
+    const now = Date.now()
+
+    // A rename is a change like any other, so it bumps the version
+    await ctx.db.patch(file._id, {
+      path: toPath,
+      version: file.version + 1,
+      lastModified: now,
+    })
+    await recordFileVersion(
+      ctx,
+      (await ctx.db.get(file._id))!,
+      { author: args.author ?? "user", messageId: args.messageId },
+      file,
+    )
+
+    // Update project lastModified
+    await ctx.db.patch(args.projectId, {
+      lastModified: now,
+    })
+
+    return { fileId: file._id, version: file.version + 1 }
+  },
+})
+
+export const deleteFile = mutation({
+  args: {
+    projectId: v.id("projects"),
+    path: v.string(),
+    author: v.optional(fileAuthorValidator),
+    messageId: v.optional(v.id("messages")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const file = await ctx.db
+      .query("files")
+      .withIndex("by_project_and_path", (q) =>
+        q.eq("projectId", args.projectId).eq("path", args.path),
+      )
+      .first()
+
+    if (!file) throw new Error(`File not found: ${args.path}`)
+
+    await ctx.db.delete(file._id)
+    await recordFileDeletion(ctx, file, {
+      author: args.author ?? "user",
+      messageId: args.messageId,
+    })
+
+    // Update project lastModified
+    await ctx.db.patch(args.projectId, {
+      lastModified: Date.now(),
+    })
+  },
+})
+
+/**
+ * Bring a deleted file back at its path with the content of one of its
+ * versions. The file takes its history along, so it reads as one file.
+ */
+export const restoreDeletedFile = mutation({
+  args: {
+    fileVersionId: v.id("fileVersions"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const restored = await ctx.db.get(args.fileVersionId)
+    if (!restored) throw new Error("Version not found")
+
+    // Verify project access
+    const project = await ctx.db.get(restored.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    if (restored.deleted) {
+      throw new Error("Pick a version from before the file was deleted")
+    }
+    if (await ctx.db.get(restored.fileId)) {
+      throw new Error("This file hasn't been deleted")
+    }
+
+    const history = await ctx.db
+      .query("fileVersions")
+      .withIndex("by_file", (q) => q.eq("fileId", restored.fileId))
+      .collect()
+    // Oldest first, so the last deletion is where the file was last seen
+    const deletion = [...history].reverse().find((version) => version.deleted)
+    if (!deletion) throw new Error("This file hasn't been deleted")
+
+    const path = deletion.path
+    const existing = await ctx.db
+      .query("files")
+      .withIndex("by_project_and_path", (q) =>
+        q.eq("projectId", restored.projectId).eq("path", path),
+      )
+      .first()
+
+    if (existing) throw new Error(`File already exists: ${path}`)
+
+    const now = Date.now()
+    const version = history[history.length - 1].version + 1
+    const fileId = await ctx.db.insert("files", {
+      projectId: restored.projectId,
+      path,
+      content: restored.content,
+      ...assetOf(restored),
+      version,
+      lastModified: now,
+    })
+    await moveFileHistory(ctx, restored.fileId, fileId)
+    await recordFileVersion(ctx, (await ctx.db.get(fileId))!, {
+      author: "user",
+    })
+
+    // Update project lastModified
+    await ctx.db.patch(restored.projectId, {
+      lastModified: now,
+    })
+
+    return {
+      path,
+      content: restored.content,
+      storageId: restored.storageId,
+      version,
+    }
+  },
+})
+
+/**
+ * Clean up a path typed into the file tree. Paths are stored relative to
+ * the project root, without leading or trailing slashes.
+ */
+function validatePath(path: string): string {
+  const normalized = path
+    .trim()
+    .replace(/\\/g, "/")
+    .replace(/^(\.\/|\/)+/, "")
+    .replace(/\/+$/, "")
+    .replace(/\/{2,}/g, "/")
+
+  if (
+    !normalized ||
+    normalized.split("/").some((segment) => segment === "." || segment === "..")
+  ) {
+    throw new Error(`Invalid path: ${path}`)
+  }
+  return normalized
+}
+
+function isInside(path: string, folder: string): boolean {
+  return path.startsWith(`${folder}/`)
+}
+
+/**
+ * Copy a file to a new path as a fresh file with its own history.
+ * Binary files share the stored blob.
+ */
+async function copyFile(
+  ctx: MutationCtx,
+  file: Doc<"files">,
+  toPath: string,
+  now: number,
+) {
+  const fileId = await ctx.db.insert("files", {
+    projectId: file.projectId,
+    path: toPath,
+    content: file.content,
+    ...assetOf(file),
+    version: 1,
+    lastModified: now,
+  })
+  await recordFileVersion(ctx, (await ctx.db.get(fileId))!, { author: "user" })
+
+  return {
+    path: toPath,
+    content: file.content,
+    storageId: file.storageId,
+    version: 1,
+  }
+}
+
+export const getFolders = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) return []
+
+    const folders = await ctx.db
+      .query("folders")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+
+    return folders.map((folder) => folder.path)
+  },
+})
+
+export const createFile = mutation({
+  args: {
+    projectId: v.id("projects"),
+    path: v.string(),
+    content: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const path = validatePath(args.path)
+    const files = await ctx.db
+      .query("files")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+    const folder = await ctx.db
+      .query("folders")
+      .withIndex("by_project_and_path", (q) =>
+        q.eq("projectId", args.projectId).eq("path", path),
+      )
+      .first()
+
+    if (files.some((f) => f.path === path)) {
+      throw new Error(`File already exists: ${path}`)
+    }
+    if (folder || files.some((f) => isInside(f.path, path))) {
+      throw new Error(`A folder with that name already exists: ${path}`)
+    }
+
+    const now = Date.now()
+    const fileId = await ctx.db.insert("files", {
+      projectId: args.projectId,
+      path,
+      content: args.content ?? "",
+      version: 1,
+      lastModified: now,
+    })
+    await recordFileVersion(ctx, (await ctx.db.get(fileId))!, {
+      author: "user",
+    })
+
+    // Update project lastModified
+    await ctx.db.patch(args.projectId, {
+      lastModified: now,
+    })
+
+    return { fileId, path, version: 1 }
+  },
+})
+
+export const createFolder = mutation({
+  args: {
+    projectId: v.id("projects"),
+    path: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const path = validatePath(args.path)
+    const files = await ctx.db
+      .query("files")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+    const existing = await ctx.db
+      .query("folders")
+      .withIndex("by_project_and_path", (q) =>
+        q.eq("projectId", args.projectId).eq("path", path),
+      )
+      .first()
+
+    if (files.some((f) => f.path === path)) {
+      throw new Error(`A file with that name already exists: ${path}`)
+    }
+    if (existing || files.some((f) => isInside(f.path, path))) {
+      throw new Error(`Folder already exists: ${path}`)
+    }
+
+    await ctx.db.insert("folders", {
+      projectId: args.projectId,
+      path,
+      createdAt: Date.now(),
+    })
+
+    return { path }
+  },
+})
+
+/**
+ * Rename or move a folder with everything in it. Every file inside gets a
+ * new version, like a single-file rename.
+ */
+export const renameFolder = mutation({
+  args: {
+    projectId: v.id("projects"),
+    fromPath: v.string(),
+    toPath: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const fromPath = validatePath(args.fromPath)
+    const toPath = validatePath(args.toPath)
+    if (toPath === fromPath || isInside(toPath, fromPath)) {
+      throw new Error("Cannot move a folder into itself")
+    }
+
+    const files = await ctx.db
+      .query("files")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+    const folders = (
+      await ctx.db
+        .query("folders")
+        .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+        .collect()
+    ).filter((f) => f.path === fromPath || isInside(f.path, fromPath))
+
+    const moving = files.filter((f) => isInside(f.path, fromPath))
+    if (moving.length === 0 && folders.length === 0) {
+      throw new Error(`Folder not found: ${fromPath}`)
+    }
+
+    const existingPaths = new Set(files.map((f) => f.path))
+    if (existingPaths.has(toPath)) {
+      throw new Error(`A file with that name already exists: ${toPath}`)
+    }
+    const renamed = (path: string) => toPath + path.slice(fromPath.length)
+    for (const file of moving) {
+      if (existingPaths.has(renamed(file.path))) {
+        throw new Error(`File already exists: ${renamed(file.path)}`)
+      }
+    }
+
+    const now = Date.now()
+    const moved = []
+    for (const file of moving) {
+      const version = file.version + 1
+      await ctx.db.patch(file._id, {
+        path: renamed(file.path),
+        version,
+        lastModified: now,
+      })
+      await recordFileVersion(
+        ctx,
+        (await ctx.db.get(file._id))!,
+        { author: "user" },
+        file,
+      )
+      moved.push({ fromPath: file.path, toPath: renamed(file.path), version })
+    }
+
+    for (const folder of folders) {
+      await ctx.db.patch(folder._id, { path: renamed(folder.path) })
+    }
+
+    // Update project lastModified
+    await ctx.db.patch(args.projectId, {
+      lastModified: now,
+    })
+
+    return { fromPath, toPath, moved }
+  },
+})
+
+export const deleteFolder = mutation({
+  args: {
+    projectId: v.id("projects"),
+    path: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const path = validatePath(args.path)
+    const files = (
+      await ctx.db
+        .query("files")
+        .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+        .collect()
+    ).filter((f) => isInside(f.path, path))
+    const folders = (
+      await ctx.db
+        .query("folders")
+        .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+        .collect()
+    ).filter((f) => f.path === path || isInside(f.path, path))
+
+    if (files.length === 0 && folders.length === 0) {
+      throw new Error(`Folder not found: ${path}`)
+    }
+
+    for (const file of files) {
+      await ctx.db.delete(file._id)
+      await recordFileDeletion(ctx, file, { author: "user" })
+    }
+    for (const folder of folders) {
+      await ctx.db.delete(folder._id)
+    }
+
+    // Update project lastModified
+    await ctx.db.patch(args.projectId, {
+      lastModified: Date.now(),
+    })
+
+    return { path, deleted: files.map((f) => f.path) }
+  },
+})
+
+export const duplicateFile = mutation({
+  args: {
+    projectId: v.id("projects"),
+    fromPath: v.string(),
+    toPath: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const toPath = validatePath(args.toPath)
+    const files = await ctx.db
+      .query("files")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+
+    const file = files.find((f) => f.path === args.fromPath)
+    if (!file) throw new Error(`File not found: ${args.fromPath}`)
+    if (files.some((f) => f.path === toPath || isInside(f.path, toPath))) {
+      throw new Error(`File already exists: ${toPath}`)
+    }
+
+    const now = Date.now()
+    const created = await copyFile(ctx, file, toPath, now)
+
+    // Update project lastModified
+    await ctx.db.patch(args.projectId, {
+      lastModified: now,
+    })
+
+    return created
+  },
+})
+
+export const duplicateFolder = mutation({
+  args: {
+    projectId: v.id("projects"),
+    fromPath: v.string(),
+    toPath: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const fromPath = validatePath(args.fromPath)
+    const toPath = validatePath(args.toPath)
+    if (toPath === fromPath || isInside(toPath, fromPath)) {
+      throw new Error("Cannot copy a folder into itself")
+    }
+
+    const files = await ctx.db
+      .query("files")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+    const folders = (
+      await ctx.db
+        .query("folders")
+        .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+        .collect()
+    ).filter((f) => f.path === fromPath || isInside(f.path, fromPath))
+
+    if (
+      files.some((f) => f.path === toPath || isInside(f.path, toPath)) ||
+      (await ctx.db
+        .query("folders")
+        .withIndex("by_project_and_path", (q) =>
+          q.eq("projectId", args.projectId).eq("path", toPath),
+        )
+        .first())
+    ) {
+      throw new Error(`Folder already exists: ${toPath}`)
+    }
+
+    const copying = files.filter((f) => isInside(f.path, fromPath))
+    if (copying.length === 0 && folders.length === 0) {
+      throw new Error(`Folder not found: ${fromPath}`)
+    }
+
+    const renamed = (path: string) => toPath + path.slice(fromPath.length)
+    const now = Date.now()
+    const created = []
+    for (const file of copying) {
+      created.push(await copyFile(ctx, file, renamed(file.path), now))
+    }
+    for (const folder of folders) {
+      await ctx.db.insert("folders", {
+        projectId: args.projectId,
+        path: renamed(folder.path),
+        createdAt: now,
+      })
+    }
+
+    // Update project lastModified
+    await ctx.db.patch(args.projectId, {
+      lastModified: now,
+    })
+
+    return { fromPath, toPath, created }
+  },
+})
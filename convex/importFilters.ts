@@ -0,0 +1,25 @@
+/**
+ * Import Filters
+ *
+ * Which files are left out when a repository is turned into project files.
+ * Shared by scripts/import-template.ts and the runtime importer. Binary
+ * files are not filtered here: the importer stores them as assets and the
+ * script, which only embeds text, drops them by content.
+ */
+
+// Files and directories to ignore
+export const IGNORE_PATTERNS = [
+  /^\.git/,
+  /^node_modules/,
+  /^\.next/,
+  /^dist/,
+  /^build/,
+  /\.lock$/,
+  /^package-lock\.json$/,
+  /^yarn\.lock$/,
+  /^bun\.lockb$/,
+]
+
+export function shouldIgnore(path: string): boolean {
+  return IGNORE_PATTERNS.some((pattern) => pattern.test(path))
+}
@@ -0,0 +1,101 @@
+import { v, type Infer } from "convex/values"
+
+/**
+ * Message Parts
+ *
+ * Typed building blocks of a message. An assistant turn is stored as an
+ * ordered list of parts so the chat can render text, reasoning, tool calls
+ * and file edits with dedicated components.
+ */
+
+export const toolCallStateValidator = v.union(
+  v.literal("input-available"),
+  // Sensitive tool calls wait here until the user approves or rejects them
+  v.literal("approval-requested"),
+  v.literal("approval-responded"),
+  v.literal("output-available"),
+  v.literal("output-error"),
+  v.literal("output-denied"),
+)
+
+export const toolApprovalValidator = v.object({
+  id: v.string(),
+  // Missing until the user responds
+  approved: v.optional(v.boolean()),
+  reason: v.optional(v.string()),
+})
+
+export const messagePartValidator = v.union(
+  v.object({
+    type: v.literal("text"),
+    text: v.string(),
+  }),
+  v.object({
+    type: v.literal("reasoning"),
+    text: v.string(),
+  }),
+  v.object({
+    type: v.literal("tool-call"),
+    toolCallId: v.string(),
+    toolName: v.string(),
+    state: toolCallStateValidator,
+    input: v.any(),
+    output: v.optional(v.any()),
+    errorText: v.optional(v.string()),
+    approval: v.optional(toolApprovalValidator),
+  }),
+  v.object({
+    type: v.literal("file-edit"),
+    operation: v.union(
+      v.literal("create"),
+      v.literal("update"),
+      v.literal("rename"),
+      v.literal("delete"),
+    ),
+    path: v.string(),
+    // Only set for renames
+    previousPath: v.optional(v.string()),
+    // Missing for files the edit created
+    beforeVersion: v.optional(v.number()),
+    // Missing for files the edit deleted
+    afterVersion: v.optional(v.number()),
+    // Unified diff of the change, for display
+    diff: v.optional(v.string()),
+  }),
+  v.object({
+    type: v.literal("error"),
+    message: v.string(),
+  }),
+)
+
+export const messageMetadataValidator = v.object({
+  model: v.optional(v.string()),
+  steps: v.optional(v.number()),
+})
+
+export type MessagePart = Infer<typeof messagePartValidator>
+export type ToolCallPart = Extract<MessagePart, { type: "tool-call" }>
+export type FileEditPart = Extract<MessagePart, { type: "file-edit" }>
+
+/**
+ * Flatten the text parts of a message, used for the plain `content` column
+ * and when replaying history to the model.
+ */
+export function partsToText(parts: MessagePart[]): string {
+  return parts
+    .filter((part) => part.type === "text")
+    .map((part) => part.text)
+    .join("")
+}
+
+/**
+ * Whether an agent run is still writing to the message. A "streaming"
+ * message whose run stopped renewing `streamingUntil` is treated as
+ * finished.
+ */
+export function isStreamLive(
+  message: { status?: string; streamingUntil?: number },
+  now: number,
+): boolean {
+  return message.status === "streaming" && (message.streamingUntil ?? 0) > now
+}
@@ -1,5 +1,15 @@
 import { v } from "convex/values"
 import { mutation, query } from "./_generated/server"
+import {
+  isStreamLive,
+  messageMetadataValidator,
+  messagePartValidator,
+  partsToText,
+} from "./messageParts"
+
+// How long a streaming message waits for the agent's next flush before
+// its run is considered dead. Flushes are far more frequent, see agent.ts.
+const STREAM_LEASE_MS = 60_000
 
 export const getMessages = query({
   args: { projectId: v.id("projects") },
@@ -63,3 +73,281 @@ export const createMessage = mutation({
     return messageId
   },
 })
+
+export const createStreamingMessage = mutation({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    // Empty assistant message that the agent fills in as tokens arrive
+    const messageId = await ctx.db.insert("messages", {
+      projectId: args.projectId,
+      role: "assistant",
+      content: "",
+      status: "streaming",
+      streamingUntil: Date.now() + STREAM_LEASE_MS,
+      createdAt: Date.now(),
+    })
+
+    return messageId
+  },
+})
+
+export const updateMessageParts = mutation({
+  args: {
+    messageId: v.id("messages"),
+    parts: v.array(messagePartValidator),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const message = await ctx.db.get(args.messageId)
+    if (!message || !message.projectId) throw new Error("Message not found")
+
+    // Verify project access
+    const project = await ctx.db.get(message.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    // The agent sends the full part list on every flush, so late or
+    // repeated flushes are harmless
+    if (message.status === "streaming") {
+      await ctx.db.patch(args.messageId, {
+        parts: args.parts,
+        content: partsToText(args.parts),
+        streamingUntil: Date.now() + STREAM_LEASE_MS,
+      })
+    }
+
+    // A message finished without the run, because its lease ran out,
+    // stops it too
+    return {
+      cancelRequested:
+        message.cancelRequested === true || message.status !== "streaming",
+    }
+  },
+})
+
+export const finishMessage = mutation({
+  args: {
+    messageId: v.id("messages"),
+    status: v.union(
+      v.literal("complete"),
+      v.literal("error"),
+      v.literal("awaiting-approval"),
+    ),
+    error: v.optional(v.string()),
+    metadata: v.optional(messageMetadataValidator),
+    // Required when pausing for approval, cleared otherwise
+    pendingModelMessages: v.optional(v.array(v.any())),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const message = await ctx.db.get(args.messageId)
+    if (!message || !message.projectId) throw new Error("Message not found")
+
+    // Verify project access
+    const project = await ctx.db.get(message.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    // Already finished by cancelMessage after the run's lease ran out
+    if (message.status !== "streaming") return
+
+    await ctx.db.patch(args.messageId, {
+      status: args.status,
+      error: args.error,
+      metadata: args.metadata,
+      pendingModelMessages:
+        args.status === "awaiting-approval"
+          ? args.pendingModelMessages
+          : undefined,
+      cancelRequested: undefined,
+      streamingUntil: undefined,
+    })
+  },
+})
+
+export const cancelMessage = mutation({
+  args: {
+    messageId: v.id("messages"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const message = await ctx.db.get(args.messageId)
+    if (!message || !message.projectId) throw new Error("Message not found")
+
+    // Verify project access
+    const project = await ctx.db.get(message.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    // Stopping a paused run rejects everything still waiting for approval
+    if (message.status === "awaiting-approval") {
+      const parts = (message.parts ?? []).map((part) =>
+        part.type === "tool-call" && part.state === "approval-requested"
+          ? {
+              ...part,
+              state: "output-denied" as const,
+              approval: {
+                id: part.approval?.id ?? part.toolCallId,
+                approved: false,
+                reason: "Stopped by user",
+              },
+            }
+          : part,
+      )
+      await ctx.db.patch(args.messageId, {
+        parts,
+        status: "complete",
+        pendingModelMessages: undefined,
+      })
+      return
+    }
+
+    // Nothing to stop once the message has finished
+    if (message.status !== "streaming") return
+
+    // The run died without finishing the message, so nothing would pick
+    // up a cancel request - finish it here
+    if (!isStreamLive(message, Date.now())) {
+      const error = "The agent stopped responding"
+      await ctx.db.patch(args.messageId, {
+        parts: [...(message.parts ?? []), { type: "error", message: error }],
+        status: "error",
+        error,
+        cancelRequested: undefined,
+        streamingUntil: undefined,
+      })
+      return
+    }
+
+    // The agent action picks this up on its next flush and aborts
+    await ctx.db.patch(args.messageId, {
+      cancelRequested: true,
+    })
+  },
+})
+
+export const respondToApproval = mutation({
+  args: {
+    messageId: v.id("messages"),
+    approvalId: v.string(),
+    approved: v.boolean(),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const message = await ctx.db.get(args.messageId)
+    if (!message || !message.projectId) throw new Error("Message not found")
+
+    // Verify project access
+    const project = await ctx.db.get(message.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    if (message.status !== "awaiting-approval") {
+      throw new Error("Message is not waiting for approval")
+    }
+
+    const parts = message.parts ?? []
+    const index = parts.findIndex(
+      (part) =>
+        part.type === "tool-call" &&
+        part.state === "approval-requested" &&
+        part.approval?.id === args.approvalId,
+    )
+    if (index === -1) throw new Error("Approval request not found")
+
+    const updatedParts = parts.map((part, i) =>
+      i === index && part.type === "tool-call"
+        ? {
+            ...part,
+            state: "approval-responded" as const,
+            approval: {
+              id: args.approvalId,
+              approved: args.approved,
+              reason: args.reason,
+            },
+          }
+        : part,
+    )
+
+    // The run resumes once every pending call in the step has an answer.
+    // Mutations are transactional, so exactly one response flips the status.
+    const waiting = updatedParts.some(
+      (part) =>
+        part.type === "tool-call" && part.state === "approval-requested",
+    )
+
+    await ctx.db.patch(args.messageId, {
+      parts: updatedParts,
+      status: waiting ? "awaiting-approval" : "streaming",
+      streamingUntil: waiting ? undefined : Date.now() + STREAM_LEASE_MS,
+    })
+
+    if (waiting) return null
+
+    return {
+      projectId: message.projectId,
+      parts: updatedParts,
+      pendingModelMessages: message.pendingModelMessages ?? [],
+      steps: message.metadata?.steps ?? 0,
+    }
+  },
+})
@@ -0,0 +1,150 @@
+import { describe, expect, it, vi } from "vitest"
+import type { Id } from "./_generated/dataModel"
+import {
+  IDLE_KILL_MS,
+  ORPHAN_GRACE_MS,
+  planReaping,
+  reapSandboxes,
+  type SandboxOwner,
+  type SandboxProviderApi,
+} from "./orphanReaper"
+import type { ProviderSandbox } from "./sandboxProvider"
+
+/**
+ * An in-memory provider holding `sandboxes`. Killing removes one from the
+ * list; unknown ids fail.
+ */
+function createFakeSandboxProviderApi(
+  sandboxes: ProviderSandbox[],
+): SandboxProviderApi & { running: Map<string, ProviderSandbox> } {
+  const running = new Map(sandboxes.map((s) => [s.sandboxId, s]))
+  return {
+    name: "fake",
+    running,
+    list: async () => [...running.values()],
+    kill: async (sandboxId) => {
+      if (!running.delete(sandboxId)) {
+        throw new Error(`Sandbox ${sandboxId} not found`)
+      }
+    },
+  }
+}
+
+const now = Date.UTC(2026, 0, 1)
+const projectId = "project-1" as Id<"projects">
+const recordId = "record-1" as Id<"sandboxes">
+
+const sandbox = (
+  sandboxId: string,
+  ageMs: number,
+  state: ProviderSandbox["state"] = "running",
+): ProviderSandbox => ({ sandboxId, startedAt: now - ageMs, state })
+
+describe("planReaping", () => {
+  it("kills unowned sandboxes once past the grace period", () => {
+    const decisions = planReaping(
+      [sandbox("old", ORPHAN_GRACE_MS + 1), sandbox("new", ORPHAN_GRACE_MS)],
+      [],
+      now,
+    )
+    expect(decisions).toEqual([{ sandboxId: "old", reason: "orphaned" }])
+  })
+
+  it("kills owned sandboxes left running idle", () => {
+    const owner: SandboxOwner = {
+      sandboxId: "idle",
+      projectId,
+      recordId,
+      lastActiveAt: now - IDLE_KILL_MS - 1,
+    }
+    const decisions = planReaping(
+      [sandbox("idle", 3 * IDLE_KILL_MS)],
+      [owner],
+      now,
+    )
+    expect(decisions).toEqual([{ sandboxId: "idle", reason: "idle", owner }])
+  })
+
+  it("leaves active, paused and untracked owned sandboxes alone", () => {
+    const decisions = planReaping(
+      [
+        sandbox("active", 3 * IDLE_KILL_MS),
+        sandbox("paused", 3 * IDLE_KILL_MS, "paused"),
+        sandbox("untracked", 3 * IDLE_KILL_MS),
+      ],
+      [
+        { sandboxId: "active", projectId, recordId, lastActiveAt: now - 1000 },
+        { sandboxId: "paused", projectId, recordId, lastActiveAt: 0 },
+        // Only a project's sandboxId points at it, there's no record to claim
+        { sandboxId: "untracked", projectId },
+      ],
+      now,
+    )
+    expect(decisions).toEqual([])
+  })
+})
+
+describe("reapSandboxes", () => {
+  const idleOwner: SandboxOwner = {
+    sandboxId: "idle",
+    projectId,
+    recordId,
+    lastActiveAt: now - IDLE_KILL_MS - 1,
+  }
+
+  it("kills what it plans to and reports each", async () => {
+    const provider = createFakeSandboxProviderApi([
+      sandbox("orphan", ORPHAN_GRACE_MS + 1),
+      sandbox("idle", 3 * IDLE_KILL_MS),
+      sandbox("young", 1000),
+    ])
+    const claim = vi.fn(async () => true)
+
+    const entries = await reapSandboxes(provider, [idleOwner], now, claim)
+
+    expect(entries).toEqual([
+      { sandboxId: "orphan", reason: "orphaned", killed: true },
+      { sandboxId: "idle", reason: "idle", projectId, killed: true },
+    ])
+    expect(claim).toHaveBeenCalledExactlyOnceWith(recordId)
+    expect([...provider.running.keys()]).toEqual(["young"])
+  })
+
+  it("skips sandboxes whose claim fails", async () => {
+    const provider = createFakeSandboxProviderApi([
+      sandbox("idle", 3 * IDLE_KILL_MS),
+    ])
+
+    const entries = await reapSandboxes(
+      provider,
+      [idleOwner],
+      now,
+      async () => false,
+    )
+
+    expect(entries).toEqual([])
+    expect(provider.running.has("idle")).toBe(true)
+  })
+
+  it("records kills that fail", async () => {
+    const provider = createFakeSandboxProviderApi([
+      sandbox("orphan", ORPHAN_GRACE_MS + 1),
+    ])
+    provider.kill = async () => {
+      throw new Error("Provider unavailable")
+    }
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+
+    const entries = await reapSandboxes(provider, [], now, async () => true)
+
+    expect(entries).toEqual([
+      {
+        sandboxId: "orphan",
+        reason: "orphaned",
+        killed: false,
+        error: "Provider unavailable",
+      },
+    ])
+    warn.mockRestore()
+  })
+})
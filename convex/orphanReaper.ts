@@ -0,0 +1,215 @@
+import { v, type Infer } from "convex/values"
+import { internalMutation, internalQuery } from "./_generated/server"
+import type { Id } from "./_generated/dataModel"
+import type { ProviderSandbox } from "./sandboxProvider"
+
+/**
+ * Orphan Reaper
+ *
+ * Reconciles the sandboxes the provider is running for this deployment
+ * with the ones projects own, and kills the rest: orphans nothing points
+ * at, like ones left behind when an action died between creating a
+ * sandbox and recording it, and owned ones still running long after the
+ * project was last open, which the idle reaper failed to pause. Every
+ * kill is recorded in sandboxReaperAudit.
+ *
+ * The provider is reached through SandboxProviderApi, so reapSandboxes
+ * can be tested against a fake one (see orphanReaper.test.ts).
+ */
+
+export const reapReasonValidator = v.union(
+  v.literal("orphaned"),
+  v.literal("idle"),
+)
+
+export type ReapReason = Infer<typeof reapReasonValidator>
+
+// The part of SandboxProvider (sandboxProvider.ts) the reaper uses
+export interface SandboxProviderApi {
+  // Recorded with each kill
+  name: string
+  list(query: { metadata: Record<string, string> }): Promise<ProviderSandbox[]>
+  kill(sandboxId: string): Promise<void>
+}
+
+/**
+ * Metadata every sandbox is created with, so deployments sharing a
+ * provider account only reap their own.
+ */
+export function deploymentMetadata(): Record<string, string> {
+  return { deployment: process.env.CONVEX_CLOUD_URL ?? "unknown" }
+}
+
+// A sandbox a project points at or is setting up
+export type SandboxOwner = {
+  sandboxId: string
+  projectId: Id<"projects">
+  // Unset for sandboxes created before states were tracked
+  recordId?: Id<"sandboxes">
+  lastActiveAt?: number
+}
+
+// Younger sandboxes may not be recorded yet
+export const ORPHAN_GRACE_MS = 10 * 60_000
+
+// Owned sandboxes still running after this long without the project open
+// are killed. Well past the idle reaper's pause timeout.
+export const IDLE_KILL_MS = 2 * 60 * 60_000
+
+export type ReapDecision = {
+  sandboxId: string
+  reason: ReapReason
+  owner?: SandboxOwner
+}
+
+/**
+ * Which of the provider's sandboxes to kill, and why.
+ */
+export function planReaping(
+  sandboxes: ProviderSandbox[],
+  owners: SandboxOwner[],
+  now: number,
+): ReapDecision[] {
+  const ownerById = new Map(owners.map((owner) => [owner.sandboxId, owner]))
+  const decisions: ReapDecision[] = []
+
+  for (const sandbox of sandboxes) {
+    const owner = ownerById.get(sandbox.sandboxId)
+    if (!owner) {
+      if (sandbox.startedAt < now - ORPHAN_GRACE_MS) {
+        decisions.push({ sandboxId: sandbox.sandboxId, reason: "orphaned" })
+      }
+      continue
+    }
+
+    // Paused ones cost nothing and are expired by the idle reaper
+    const lastActiveAt = owner.lastActiveAt ?? sandbox.startedAt
+    if (
+      sandbox.state === "running" &&
+      owner.recordId &&
+      lastActiveAt < now - IDLE_KILL_MS
+    ) {
+      decisions.push({ sandboxId: sandbox.sandboxId, reason: "idle", owner })
+    }
+  }
+
+  return decisions
+}
+
+export const reaperEntryValidator = v.object({
+  sandboxId: v.string(),
+  reason: reapReasonValidator,
+  projectId: v.optional(v.id("projects")),
+  killed: v.boolean(),
+  error: v.optional(v.string()),
+})
+
+export type ReaperEntry = Infer<typeof reaperEntryValidator>
+
+/**
+ * List this deployment's sandboxes and kill the ones planReaping picks,
+ * resolving to an audit entry for each. Owned sandboxes are passed to
+ * `claim` first, which marks their record dead; if it returns false the
+ * project was reopened meanwhile and the sandbox is left alone.
+ */
+export async function reapSandboxes(
+  provider: SandboxProviderApi,
+  owners: SandboxOwner[],
+  now: number,
+  claim: (recordId: Id<"sandboxes">) => Promise<boolean>,
+): Promise<ReaperEntry[]> {
+  const decisions = planReaping(
+    await provider.list({ metadata: deploymentMetadata() }),
+    owners,
+    now,
+  )
+
+  const entries: ReaperEntry[] = []
+  for (const { sandboxId, reason, owner } of decisions) {
+    if (owner?.recordId && !(await claim(owner.recordId))) continue
+
+    console.log(`Killing ${reason} sandbox: ${sandboxId}`)
+    try {
+      await provider.kill(sandboxId)
+      entries.push({
+        sandboxId,
+        reason,
+        projectId: owner?.projectId,
+        killed: true,
+      })
+    } catch (error) {
+      console.warn(`Failed to kill sandbox ${sandboxId}:`, error)
+      entries.push({
+        sandboxId,
+        reason,
+        projectId: owner?.projectId,
+        killed: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Sandboxes that are spoken for: every project's current one, and ones
+ * still being set up or in use according to their records.
+ */
+export const listSandboxOwners = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<SandboxOwner[]> => {
+    const owners = new Map<string, SandboxOwner>()
+
+    for (const project of await ctx.db.query("projects").collect()) {
+      if (project.sandboxId) {
+        owners.set(project.sandboxId, {
+          sandboxId: project.sandboxId,
+          projectId: project._id,
+        })
+      }
+    }
+
+    for (const record of await ctx.db.query("sandboxes").collect()) {
+      if (!record.sandboxId || record.state === "dead") continue
+      owners.set(record.sandboxId, {
+        sandboxId: record.sandboxId,
+        projectId: record.projectId,
+        recordId: record._id,
+        lastActiveAt: record.lastActiveAt,
+      })
+    }
+
+    return [...owners.values()]
+  },
+})
+
+// Audit entries are kept this long
+const AUDIT_RETENTION_MS = 30 * 24 * 60 * 60_000
+
+export const recordReaperRun = internalMutation({
+  args: {
+    provider: v.string(),
+    runAt: v.number(),
+    entries: v.array(reaperEntryValidator),
+  },
+  handler: async (ctx, args) => {
+    for (const entry of args.entries) {
+      await ctx.db.insert("sandboxReaperAudit", {
+        provider: args.provider,
+        runAt: args.runAt,
+        ...entry,
+      })
+    }
+
+    const expired = await ctx.db
+      .query("sandboxReaperAudit")
+      .withIndex("by_run", (q) =>
+        q.lt("runAt", args.runAt - AUDIT_RETENTION_MS),
+      )
+      .collect()
+    for (const entry of expired) {
+      await ctx.db.delete(entry._id)
+    }
+  },
+})
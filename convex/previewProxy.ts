@@ -0,0 +1,166 @@
+/**
+ * Preview Proxy
+ *
+ * The preview is served through a small proxy in the sandbox that adds a
+ * console bridge to every HTML page. The bridge forwards the page's
+ * console calls and uncaught errors to the app with postMessage, so they
+ * show up in the preview console without changing the project's files.
+ */
+
+// Port the proxy listens on in the sandbox, in front of the dev server.
+// Local sandboxes share ports, so theirs may be another one.
+export const PREVIEW_PROXY_PORT = 5999
+
+// `type` of the messages the bridge posts to the parent window
+export const PREVIEW_CONSOLE_MESSAGE = "preview-console"
+
+export type PreviewConsoleMessage = {
+  type: typeof PREVIEW_CONSOLE_MESSAGE
+  level: "log" | "info" | "warn" | "error" | "debug"
+  message: string
+}
+
+// Served by the proxy itself, so it can't clash with the project's routes
+const BRIDGE_PATH = "/__preview-console.js"
+
+const CONSOLE_BRIDGE_SCRIPT = `
+(function () {
+  if (window.parent === window) return
+
+  function format(value) {
+    if (typeof value === "string") return value
+    if (value instanceof Error) return value.stack || String(value)
+    try {
+      return JSON.stringify(value)
+    } catch (e) {
+      return String(value)
+    }
+  }
+
+  function send(level, args) {
+    try {
+      window.parent.postMessage(
+        {
+          type: ${JSON.stringify(PREVIEW_CONSOLE_MESSAGE)},
+          level: level,
+          message: Array.prototype.map.call(args, format).join(" "),
+        },
+        "*",
+      )
+    } catch (e) {}
+  }
+
+  ;["log", "info", "warn", "error", "debug"].forEach(function (level) {
+    var original = console[level]
+    console[level] = function () {
+      send(level, arguments)
+      return original.apply(console, arguments)
+    }
+  })
+
+  window.addEventListener("error", function (event) {
+    send("error", [event.error || event.message])
+  })
+  window.addEventListener("unhandledrejection", function (event) {
+    send("error", ["Unhandled promise rejection:", event.reason])
+  })
+})()
+`
+
+/**
+ * Node script for the proxy on `listenPort`, forwarding to the dev server
+ * on `targetPort`. HTML gets the bridge injected into its <head> as it streams through;
+ * everything else, including HMR websockets, passes through untouched.
+ */
+export function previewProxyScript(
+  targetPort: number,
+  listenPort: number = PREVIEW_PROXY_PORT,
+): string {
+  return `
+const http = require("http")
+const net = require("net")
+
+const TARGET_PORT = ${targetPort}
+const BRIDGE_PATH = ${JSON.stringify(BRIDGE_PATH)}
+const BRIDGE = ${JSON.stringify(CONSOLE_BRIDGE_SCRIPT)}
+const TAG = Buffer.from('<script src="' + BRIDGE_PATH + '"></script>')
+// HTML without a <head> this far in gets the bridge at the start
+const MAX_HEAD_SEARCH_BYTES = 64 * 1024
+
+const server = http.createServer((req, res) => {
+  if (req.url === BRIDGE_PATH) {
+    res.writeHead(200, {
+      "content-type": "text/javascript",
+      "cache-control": "no-store",
+    })
+    res.end(BRIDGE)
+    return
+  }
+
+  const upstream = http.request(
+    {
+      host: "127.0.0.1",
+      port: TARGET_PORT,
+      method: req.method,
+      path: req.url,
+      // Compressed HTML couldn't be rewritten
+      headers: { ...req.headers, "accept-encoding": "identity" },
+    },
+    (response) => {
+      const type = response.headers["content-type"] || ""
+      if (!type.includes("text/html")) {
+        res.writeHead(response.statusCode, response.headers)
+        response.pipe(res)
+        return
+      }
+
+      const headers = { ...response.headers }
+      delete headers["content-length"]
+      res.writeHead(response.statusCode, headers)
+
+      let pending = Buffer.alloc(0)
+      let injected = false
+      const inject = (at) => {
+        res.write(pending.subarray(0, at))
+        res.write(TAG)
+        res.write(pending.subarray(at))
+        injected = true
+      }
+      response.on("data", (chunk) => {
+        if (injected) return res.write(chunk)
+        pending = Buffer.concat([pending, chunk])
+        const head = /<head[^>]*>/i.exec(pending.toString("latin1"))
+        if (head) inject(head.index + head[0].length)
+        else if (pending.length > MAX_HEAD_SEARCH_BYTES) inject(0)
+      })
+      response.on("end", () => {
+        if (!injected) inject(0)
+        res.end()
+      })
+    },
+  )
+  upstream.on("error", () => {
+    if (res.headersSent) return res.destroy()
+    res.writeHead(502, { "content-type": "text/plain" })
+    res.end("The dev server isn't responding yet")
+  })
+  req.pipe(upstream)
+})
+
+server.on("upgrade", (req, socket, head) => {
+  const upstream = net.connect(TARGET_PORT, "127.0.0.1", () => {
+    let request = req.method + " " + req.url + " HTTP/" + req.httpVersion + "\\r\\n"
+    for (let i = 0; i < req.rawHeaders.length; i += 2) {
+      request += req.rawHeaders[i] + ": " + req.rawHeaders[i + 1] + "\\r\\n"
+    }
+    upstream.write(request + "\\r\\n")
+    upstream.write(head)
+    socket.pipe(upstream).pipe(socket)
+  })
+  upstream.on("error", () => socket.destroy())
+  socket.on("error", () => upstream.destroy())
+})
+
+server.listen(${listenPort}, "0.0.0.0")
+`
+}
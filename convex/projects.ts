@@ -1,6 +1,15 @@
 import { v } from "convex/values"
 import { action, mutation, query } from "./_generated/server"
 import { api } from "./_generated/api"
+import { deleteUnreferencedAssets } from "./fileAssets"
+import { devServerStatusValidator } from "./devServer"
+import {
+  frameworkValidator,
+  getProjectTemplate,
+  getTemplate,
+  TEMPLATES,
+  templateIdValidator,
+} from "./templateRegistry"
 
 export const getProjects = query({
   args: {},
@@ -49,8 +58,11 @@ export const getProject = query({
 })
 
 export const createEmptyProject = mutation({
-  args: {},
-  handler: async (ctx) => {
+  args: {
+    // Left out to pick one from the first message
+    templateId: v.optional(templateIdValidator),
+  },
+  handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity()
     if (!identity) throw new Error("Not authenticated")
 
@@ -71,11 +83,14 @@ export const createEmptyProject = mutation({
     }
 
     // Create project with default values
+    const template = args.templateId ? getTemplate(args.templateId) : null
     const projectId = await ctx.db.insert("projects", {
       userId: user._id,
       name: "Untitled Project",
-      framework: "react",
+      framework: template?.framework ?? "react",
+      templateId: template?.id,
       templateUrl:
+        template?.sourceUrl ??
         "https://github.com/facebook/react/tree/main/fixtures/packaging/babel-standalone/dev",
       createdAt: Date.now(),
       lastModified: Date.now(),
@@ -107,7 +122,8 @@ export const updateProjectFromMessage = mutation({
       throw new Error("Unauthorized")
     }
 
-    // Auto-detect framework from message (simple keyword matching)
+    // Auto-detect framework from message (simple keyword matching),
+    // unless a template was picked when the project was created
     const messageLower = args.userMessage.toLowerCase()
     const isNextJs =
       messageLower.includes("next.js") ||
@@ -115,7 +131,9 @@ export const updateProjectFromMessage = mutation({
       messageLower.includes("routing") ||
       messageLower.includes("ssr") ||
       messageLower.includes("server side")
-    const framework = isNextJs ? "nextjs" : "react"
+    const template = project.templateId
+      ? getTemplate(project.templateId)
+      : getTemplate(isNextJs ? "nextjs-app" : "vite-react")
 
     // Generate project name from first few words of message (only if still untitled)
     const shouldUpdateName = project.name === "Untitled Project"
@@ -131,7 +149,9 @@ export const updateProjectFromMessage = mutation({
     // Update project
     await ctx.db.patch(args.projectId, {
       name,
-      framework,
+      framework: template.framework,
+      templateId: template.id,
+      templateUrl: template.sourceUrl,
       lastModified: Date.now(),
     })
   },
@@ -140,7 +160,8 @@ export const updateProjectFromMessage = mutation({
 export const createProject = mutation({
   args: {
     name: v.string(),
-    framework: v.union(v.literal("react"), v.literal("nextjs")),
+    framework: frameworkValidator,
+    templateId: v.optional(templateIdValidator),
     templateUrl: v.string(),
   },
   handler: async (ctx, args) => {
@@ -168,6 +189,9 @@ export const createProject = mutation({
       userId: user._id,
       name: args.name,
       framework: args.framework,
+      templateId:
+        args.templateId ??
+        TEMPLATES.find((t) => t.framework === args.framework)?.id,
       templateUrl: args.templateUrl,
       createdAt: Date.now(),
       lastModified: Date.now(),
@@ -206,6 +230,83 @@ export const deleteProject = mutation({
       await ctx.db.delete(file._id)
     }
 
+    // Delete empty folders
+    const folders = await ctx.db
+      .query("folders")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+
+    for (const folder of folders) {
+      await ctx.db.delete(folder._id)
+    }
+
+    // Delete type and lint problems
+    const diagnostics = await ctx.db
+      .query("diagnostics")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+
+    for (const diagnostic of diagnostics) {
+      await ctx.db.delete(diagnostic._id)
+    }
+
+    // Delete terminal sessions and their output
+    const terminalSessions = await ctx.db
+      .query("terminalSessions")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+
+    for (const session of terminalSessions) {
+      const output = await ctx.db
+        .query("terminalOutput")
+        .withIndex("by_session", (q) => q.eq("sessionId", session._id))
+        .collect()
+      for (const chunk of output) {
+        await ctx.db.delete(chunk._id)
+      }
+      await ctx.db.delete(session._id)
+    }
+
+    // Delete sandbox records
+    const sandboxes = await ctx.db
+      .query("sandboxes")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+
+    for (const sandbox of sandboxes) {
+      await ctx.db.delete(sandbox._id)
+    }
+
+    // Delete dev-server and preview console logs
+    const sandboxLogs = await ctx.db
+      .query("sandboxLogs")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+
+    for (const entry of sandboxLogs) {
+      await ctx.db.delete(entry._id)
+    }
+
+    // Delete sandbox sync snapshots
+    const sandboxSnapshots = await ctx.db
+      .query("sandboxSnapshots")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+
+    for (const snapshot of sandboxSnapshots) {
+      await ctx.db.delete(snapshot._id)
+    }
+
+    // Delete file history
+    const fileVersions = await ctx.db
+      .query("fileVersions")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+
+    for (const fileVersion of fileVersions) {
+      await ctx.db.delete(fileVersion._id)
+    }
+
     // Delete all messages
     const messages = await ctx.db
       .query("messages")
@@ -216,6 +317,29 @@ export const deleteProject = mutation({
       await ctx.db.delete(message._id)
     }
 
+    // Delete all checkpoints and their snapshots
+    const checkpoints = await ctx.db
+      .query("checkpoints")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+
+    for (const checkpoint of checkpoints) {
+      const snapshot = await ctx.db
+        .query("checkpointFiles")
+        .withIndex("by_checkpoint", (q) => q.eq("checkpointId", checkpoint._id))
+        .collect()
+      for (const file of snapshot) {
+        await ctx.db.delete(file._id)
+      }
+      await ctx.db.delete(checkpoint._id)
+    }
+
+    // Release binary file contents
+    await deleteUnreferencedAssets(ctx, [
+      ...files.map((file) => file.storageId),
+      ...fileVersions.map((fileVersion) => fileVersion.storageId),
+    ])
+
     // Delete project
     await ctx.db.delete(args.projectId)
   },
@@ -250,30 +374,87 @@ export const updateProjectName = mutation({
   },
 })
 
-export const updateSandboxId = mutation({
+export const updateProjectTemplate = mutation({
   args: {
     projectId: v.id("projects"),
-    sandboxId: v.string(),
+    templateId: templateIdValidator,
+    templateUrl: v.string(),
   },
   handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
     const project = await ctx.db.get(args.projectId)
-    if (!project) {
-      console.warn(
-        `Project ${args.projectId} not found, skipping sandbox ID update`,
-      )
-      return
+    if (!project) throw new Error("Project not found")
+
+    // Verify ownership
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
     }
+
     await ctx.db.patch(args.projectId, {
-      sandboxId: args.sandboxId,
+      framework: getTemplate(args.templateId).framework,
+      templateId: args.templateId,
+      templateUrl: args.templateUrl,
       lastModified: Date.now(),
     })
   },
 })
 
+export const generateArchiveUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    return await ctx.storage.generateUploadUrl()
+  },
+})
+
+/**
+ * Delete an archive once importArchive is done with it. Blobs a file or
+ * file version points at are never archive uploads and stay.
+ */
+export const discardArchiveUpload = mutation({
+  args: {
+    projectId: v.id("projects"),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    await deleteUnreferencedAssets(ctx, [args.storageId])
+  },
+})
+
+/**
+ * Record the running dev server's URL and process, or clear both once it
+ * has stopped.
+ */
 export const updateDevServerUrl = mutation({
   args: {
     projectId: v.id("projects"),
     devServerUrl: v.optional(v.string()),
+    devServerPid: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const project = await ctx.db.get(args.projectId)
@@ -285,20 +466,58 @@ export const updateDevServerUrl = mutation({
     }
     await ctx.db.patch(args.projectId, {
       devServerUrl: args.devServerUrl,
+      devServerPid: args.devServerPid,
       lastModified: Date.now(),
     })
   },
 })
 
+/**
+ * Move the dev server through its lifecycle. The error is kept only for
+ * "crashed"; no status means nothing is running.
+ */
+export const updateDevServerStatus = mutation({
+  args: {
+    projectId: v.id("projects"),
+    status: v.optional(devServerStatusValidator),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const project = await ctx.db.get(args.projectId)
+    if (!project) {
+      console.warn(
+        `Project ${args.projectId} not found, skipping dev server status update`,
+      )
+      return
+    }
+    await ctx.db.patch(args.projectId, {
+      devServerStatus: args.status,
+      devServerError: args.status === "crashed" ? args.error : undefined,
+    })
+  },
+})
+
 export const initializeProjectWithTemplate = action({
   args: {
     projectId: v.id("projects"),
   },
   handler: async (ctx, { projectId }) => {
-    // Clone template from GitHub
-    const files = await ctx.runAction(api.templates.cloneTemplate, {})
+    const project = await ctx.runQuery(api.projects.getProject, { projectId })
+    if (!project) throw new Error("Project not found")
+
+    // Imported projects already have their files
+    const existing = await ctx.runQuery(api.files.getFiles, { projectId })
+    if (existing.length > 0) {
+      console.log(`Project ${projectId} already has files, skipping template`)
+      return
+    }
+
+    const template = getProjectTemplate(project)
+    const files = await ctx.runAction(api.templates.cloneTemplate, {
+      templateId: template.id,
+    })
 
-    console.log(`Cloned ${files.length} files from template`)
+    console.log(`Cloned ${files.length} files from template ${template.id}`)
 
     // Batch insert all files at once instead of one by one
     await ctx.runMutation(api.files.createFiles, {
@@ -1,15 +1,110 @@
 "use node"
 
-import { action } from "./_generated/server"
+import { createHash } from "crypto"
+import { action, type ActionCtx } from "./_generated/server"
+import type { Id } from "./_generated/dataModel"
 import { v } from "convex/values"
 import { api } from "./_generated/api"
-import { Sandbox } from "@e2b/code-interpreter"
-
+import { getProjectTemplate } from "./templateRegistry"
+import {
+  COLLECT_TYPE_DECLARATIONS_SCRIPT,
+  type TypeDeclarations,
+} from "./typeDeclarations"
+import {
+  parseEslintOutput,
+  parseTscOutput,
+  type Diagnostic,
+} from "./diagnostics"
+import {
+  LIST_SANDBOX_FILES_SCRIPT,
+  type SandboxFileEntry,
+} from "./sandboxFiles"
+import { isFileConflictError } from "./fileConflict"
+import { PREVIEW_PROXY_PORT, previewProxyScript } from "./previewProxy"
+import { createServerLogWriter } from "./devServerLogs"
+import { parseAnnouncedPort, stripAnsi } from "./devServer"
+import { deploymentMetadata } from "./orphanReaper"
+import {
+  getSandboxProvider,
+  isSandboxNotFoundError,
+  type CommandResult,
+  type ProviderSandboxHandle,
+} from "./sandboxProvider"
+
+// How long a sandbox lives without a keep-alive from the open project.
+// Outlasts the reaper's IDLE_TIMEOUT_MS, so idle sandboxes are paused
+// (and kept) rather than expiring.
+const SANDBOX_TIMEOUT_MS = 30 * 60_000
+
+// Type-checking a large project takes a while on a cold sandbox
+const CHECK_TIMEOUT_MS = 3 * 60_000
+
+// Files written to Convex this recently may not have reached the sandbox
+// yet, so a different copy there isn't a change to pull. Only used for a
+// sandbox's first pull, later ones know when the previous pull ran.
+const SYNC_GRACE_MS = 10_000
+
+// Installs on a cold sandbox can take minutes
+const INSTALL_TIMEOUT_MS = 5 * 60_000
+
+// How long a dev server gets to start serving, how long to wait for it
+// to print its URL before trying the template's port, and how often and
+// how patiently it's polled meanwhile
+const READY_TIMEOUT_MS = 2 * 60_000
+const ANNOUNCE_TIMEOUT_MS = 15_000
+const READY_POLL_INTERVAL_MS = 1000
+const READY_REQUEST_TIMEOUT_MS = 5000
+
+const ESLINT_CONFIG = /^(eslint\.config\.[cm]?[jt]s|\.eslintrc(\.\w+)?)$/
+
+/**
+ * Run a type-check or lint command and parse its output. Finding problems
+ * makes these tools exit non-zero; a failure with nothing parsed means the
+ * tool itself didn't run.
+ */
+async function runCheck(
+  sandbox: ProviderSandboxHandle,
+  command: string,
+  parse: (stdout: string) => Diagnostic[],
+): Promise<Diagnostic[]> {
+  const result = await sandbox.run(command, { timeoutMs: CHECK_TIMEOUT_MS })
+
+  const diagnostics = parse(result.stdout)
+  if (result.exitCode !== 0 && diagnostics.length === 0) {
+    const output = (result.stderr || result.stdout).trim()
+    throw new Error(`\`${command}\` failed: ${output.slice(0, 500)}`)
+  }
+  return diagnostics
+}
+
+/**
+ * What to write to the sandbox for a file: its text, or the bytes from
+ * file storage for binary files.
+ */
+async function fileData(
+  ctx: ActionCtx,
+  file: { path: string; content: string; storageId?: Id<"_storage"> },
+): Promise<string | ArrayBuffer> {
+  if (!file.storageId) return file.content
+
+  const blob = await ctx.storage.get(file.storageId)
+  if (!blob) throw new Error(`Stored contents of ${file.path} are missing`)
+  return await blob.arrayBuffer()
+}
+
+/**
+ * Create the project's sandbox with its files and dependencies. Resolves
+ * to null when another call is already creating one.
+ */
 export const createSandbox = action({
   args: {
     projectId: v.id("projects"),
   },
-  handler: async (ctx, { projectId }): Promise<string> => {
+  handler: async (ctx, { projectId }): Promise<string | null> => {
+    const project = await ctx.runQuery(api.projects.getProject, { projectId })
+    if (!project) throw new Error("Project not found")
+    const template = getProjectTemplate(project)
+
     // Get all files for this project
     const files = await ctx.runQuery(api.files.getFiles, { projectId })
 
@@ -23,36 +118,96 @@ export const createSandbox = action({
       )
     }
 
-    // Create E2B sandbox
-    const sandbox = await Sandbox.create({
-      apiKey: process.env.E2B_API_KEY,
+    // Claimed first, so two tabs or a reload don't both create one
+    const recordId = await ctx.runMutation(api.sandboxes.beginSandbox, {
+      projectId,
     })
+    if (!recordId) {
+      console.log(`Project ${projectId} already has a sandbox, skipping`)
+      return null
+    }
+
+    const provider = getSandboxProvider()
+    let sandbox: ProviderSandboxHandle | undefined
+    try {
+      sandbox = await provider.create({
+        timeoutMs: SANDBOX_TIMEOUT_MS,
+        metadata: deploymentMetadata(),
+      })
+      await ctx.runMutation(api.sandboxes.attachSandbox, {
+        id: recordId,
+        sandboxId: sandbox.sandboxId,
+      })
 
-    console.log(`Sandbox created: ${sandbox.sandboxId}`)
+      console.log(`Sandbox created: ${sandbox.sandboxId}`)
 
-    // Write all files to sandbox
-    for (const file of files) {
-      try {
-        await sandbox.files.write(file.path, file.content)
-      } catch (error) {
-        console.warn(`Failed to write ${file.path}:`, error)
+      // Write all files to sandbox
+      for (const file of files) {
+        try {
+          await sandbox.writeFile(file.path, await fileData(ctx, file))
+        } catch (error) {
+          console.warn(`Failed to write ${file.path}:`, error)
+        }
       }
-    }
 
-    // Run npm install
-    console.log("Running npm install...")
-    const installResult = await sandbox.commands.run("npm install")
+      // Install dependencies, static sites may have nothing to install
+      let installError: string | undefined
+      if (files.some((file) => file.path === "package.json")) {
+        console.log(`Running ${template.installCommand}...`)
+        await ctx.runMutation(api.sandboxes.transitionSandbox, {
+          id: recordId,
+          to: "installing",
+        })
+        await ctx.runMutation(api.projects.updateDevServerStatus, {
+          projectId,
+          status: "installing",
+        })
+
+        const logWriter = createServerLogWriter(ctx, projectId)
+        try {
+          const result = await sandbox.run(template.installCommand, {
+            timeoutMs: INSTALL_TIMEOUT_MS,
+            onStdout: logWriter.onStdout,
+            onStderr: logWriter.onStderr,
+          })
+          if (result.exitCode !== 0) throw new Error(commandError(result))
+          await ctx.runMutation(api.projects.updateDevServerStatus, {
+            projectId,
+          })
+        } catch (error) {
+          // The sandbox is still usable, e.g. to fix package.json from the
+          // terminal
+          console.warn(`${template.installCommand} failed:`, error)
+          installError = `\`${template.installCommand}\` failed: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+          await ctx.runMutation(api.projects.updateDevServerStatus, {
+            projectId,
+            status: "crashed",
+            error: installError,
+          })
+        } finally {
+          await logWriter.close()
+        }
+      }
 
-    if (installResult.exitCode !== 0) {
-      console.warn("npm install had warnings:", installResult.stderr)
+      // Points the project at the sandbox
+      await ctx.runMutation(api.sandboxes.transitionSandbox, {
+        id: recordId,
+        to: "idle",
+        error: installError,
+      })
+    } catch (error) {
+      console.error(`Failed to create sandbox for project ${projectId}:`, error)
+      await ctx.runMutation(api.sandboxes.transitionSandbox, {
+        id: recordId,
+        to: "dead",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+      if (sandbox) await provider.kill(sandbox.sandboxId).catch(() => {})
+      throw error
     }
 
-    // Store sandbox ID in project
-    await ctx.runMutation(api.projects.updateSandboxId, {
-      projectId,
-      sandboxId: sandbox.sandboxId,
-    })
-
     return sandbox.sandboxId
   },
 })
@@ -62,63 +217,255 @@ export const destroySandbox = action({
     sandboxId: v.string(),
   },
   handler: async (ctx, { sandboxId }): Promise<void> => {
+    if (
+      !(await ctx.runQuery(api.sandboxes.getSandboxProjectId, { sandboxId }))
+    ) {
+      throw new Error("Unauthorized")
+    }
+
     console.log(`Destroying sandbox: ${sandboxId}`)
-    const sandbox = await Sandbox.connect(sandboxId, {
-      apiKey: process.env.E2B_API_KEY,
+    try {
+      await getSandboxProvider().kill(sandboxId)
+    } finally {
+      // Gone either way once it can't be connected to
+      await ctx.runMutation(api.sandboxes.transitionSandboxById, {
+        sandboxId,
+        to: "dead",
+      })
+    }
+  },
+})
+
+/**
+ * Called periodically while the project is open. Resumes the sandbox if
+ * the reaper paused it, otherwise pushes back its timeout, and marks it
+ * active either way. A sandbox the provider no longer has is marked dead
+ * so a new one gets created.
+ */
+export const keepSandboxAlive = action({
+  args: {
+    projectId: v.id("projects"),
+    sandboxId: v.string(),
+  },
+  handler: async (ctx, { projectId, sandboxId }): Promise<void> => {
+    const owner = await ctx.runQuery(api.sandboxes.getSandboxProjectId, {
+      sandboxId,
+    })
+    if (owner !== projectId) throw new Error("Unauthorized")
+
+    const record = await ctx.runQuery(api.sandboxes.getProjectSandbox, {
+      projectId,
     })
-    await sandbox.kill()
+    const provider = getSandboxProvider()
+    try {
+      if (record?.sandboxId === sandboxId && record.state === "paused") {
+        console.log(`Resuming sandbox: ${sandboxId}`)
+        await provider.connect(sandboxId, { timeoutMs: SANDBOX_TIMEOUT_MS })
+        const project = await ctx.runQuery(api.projects.getProject, {
+          projectId,
+        })
+        await ctx.runMutation(api.sandboxes.transitionSandboxById, {
+          sandboxId,
+          to: project?.devServerUrl ? "running" : "idle",
+        })
+      } else {
+        await provider.setTimeout(sandboxId, SANDBOX_TIMEOUT_MS)
+      }
+    } catch (error) {
+      if (!isSandboxNotFoundError(error)) throw error
+      console.log(`Sandbox ${sandboxId} is gone`)
+      await ctx.runMutation(api.sandboxes.transitionSandboxById, {
+        sandboxId,
+        to: "dead",
+        error: "The sandbox expired",
+      })
+      return
+    }
+
+    await ctx.runMutation(api.sandboxes.touchSandbox, { sandboxId })
   },
 })
 
+/**
+ * The last lines a command printed, to explain why it failed.
+ */
+function lastLines(output: string, count = 10): string {
+  return stripAnsi(output).trim().split("\n").slice(-count).join("\n")
+}
+
+function commandError(result: CommandResult): string {
+  return (
+    lastLines(result.stderr || result.stdout) || `exit code ${result.exitCode}`
+  )
+}
+
+// What a dev server started in the background has printed so far
+type DevServerProcess = { output: string; exited: boolean }
+
+/**
+ * Start the console bridge proxy in front of `targetPort`, replacing one
+ * left from an earlier start. Resolves to the proxy's public URL.
+ */
+async function startPreviewProxy(
+  sandbox: ProviderSandboxHandle,
+  targetPort: number,
+): Promise<string> {
+  // The running proxy's pid is kept next to its script
+  const scriptPath = `${sandbox.tmpDir}/preview-proxy.js`
+  const pidPath = `${sandbox.tmpDir}/preview-proxy.pid`
+  const previousPid = await sandbox.readFile(pidPath).catch(() => null)
+  if (previousPid) await sandbox.killProcess(Number(previousPid))
+
+  const port = await sandbox.reservePort(PREVIEW_PROXY_PORT)
+  await sandbox.writeFile(scriptPath, previewProxyScript(targetPort, port))
+  const proxy = await sandbox.start(`node ${scriptPath}`)
+  await proxy.disconnect()
+  await sandbox.writeFile(pidPath, String(proxy.pid))
+  return sandbox.getHost(port)
+}
+
+/**
+ * Whether a server answers at `url`. The sandbox answers 502 for ports
+ * nothing listens on, and the proxy does while the dev server doesn't.
+ */
+async function isServing(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(READY_REQUEST_TIMEOUT_MS),
+    })
+    return ![502, 503, 504].includes(response.status)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Wait until a dev server serves requests, with the preview proxy in
+ * front of it. Its port is the one it announces, or the template's if it
+ * hasn't announced one after a while. Resolves to the preview URL; fails
+ * if the server exits or doesn't respond in time.
+ */
+async function waitForDevServer(
+  sandbox: ProviderSandboxHandle,
+  defaultPort: number,
+  server: DevServerProcess,
+): Promise<string> {
+  const startedAt = Date.now()
+  let previewUrl: string | null = null
+
+  while (Date.now() - startedAt < READY_TIMEOUT_MS) {
+    if (server.exited) {
+      throw new Error(`The dev server exited:\n${lastLines(server.output)}`)
+    }
+
+    if (!previewUrl) {
+      const port =
+        parseAnnouncedPort(server.output) ??
+        (Date.now() - startedAt > ANNOUNCE_TIMEOUT_MS ? defaultPort : null)
+      if (port !== null) {
+        console.log(`Dev server is on port ${port}`)
+        previewUrl = await startPreviewProxy(sandbox, port)
+      }
+    }
+
+    if (previewUrl && (await isServing(previewUrl))) return previewUrl
+    await new Promise((resolve) => setTimeout(resolve, READY_POLL_INTERVAL_MS))
+  }
+
+  throw new Error(
+    `The dev server didn't respond within ${READY_TIMEOUT_MS / 1000} seconds`,
+  )
+}
+
 export const startDevServer = action({
   args: {
     projectId: v.id("projects"),
     sandboxId: v.string(),
   },
   handler: async (ctx, { projectId, sandboxId }): Promise<string> => {
+    const owner = await ctx.runQuery(api.sandboxes.getSandboxProjectId, {
+      sandboxId,
+    })
+    if (owner !== projectId) throw new Error("Unauthorized")
+
     console.log(`Starting dev server in sandbox: ${sandboxId}`)
 
-    let sandbox: Sandbox
+    const project = await ctx.runQuery(api.projects.getProject, { projectId })
+    if (!project) throw new Error("Project not found")
+    const template = getProjectTemplate(project)
+
+    const provider = getSandboxProvider()
+    let sandbox: ProviderSandboxHandle
 
     try {
       // Try to connect to existing sandbox
-      sandbox = await Sandbox.connect(sandboxId, {
-        apiKey: process.env.E2B_API_KEY,
-      })
+      sandbox = await provider.connect(sandboxId)
     } catch (error) {
       // Sandbox doesn't exist anymore - create a new one
       console.log(`Sandbox ${sandboxId} not found, creating new sandbox...`)
+      await ctx.runMutation(api.sandboxes.transitionSandboxById, {
+        sandboxId,
+        to: "dead",
+        error: error instanceof Error ? error.message : "Sandbox not found",
+      })
 
       const newSandboxId = await ctx.runAction(api.sandbox.createSandbox, {
         projectId,
       })
+      if (!newSandboxId) {
+        throw new Error("A new sandbox is still being created, try again soon")
+      }
 
       // Connect to the newly created sandbox
-      sandbox = await Sandbox.connect(newSandboxId, {
-        apiKey: process.env.E2B_API_KEY,
-      })
+      sandbox = await provider.connect(newSandboxId)
 
       sandboxId = newSandboxId
       console.log(`New sandbox created: ${sandboxId}`)
     }
 
-    // Start the dev server in the background with DANGEROUSLY_DISABLE_HOST_CHECK
-    const devProcess = await sandbox.commands.run(
-      "DANGEROUSLY_DISABLE_HOST_CHECK=true npm run dev",
-      {
-        background: true,
+    await ctx.runMutation(api.projects.updateDevServerStatus, {
+      projectId,
+      status: "starting",
+    })
+
+    // Start the dev server in the background, capturing what it prints
+    // while starting up
+    const logWriter = createServerLogWriter(ctx, projectId)
+    const server: DevServerProcess = { output: "", exited: false }
+    const devProcess = await sandbox.start(template.devCommand, {
+      onStdout: (data) => {
+        server.output += data
+        logWriter.onStdout(data)
       },
+      onStderr: (data) => {
+        server.output += data
+        logWriter.onStderr(data)
+      },
+    })
+    devProcess.wait().then(
+      () => (server.exited = true),
+      () => (server.exited = true),
     )
 
-    console.log("Dev server process started, waiting for URL...")
+    console.log("Dev server process started, waiting for it to be ready...")
 
-    // Wait a bit for the server to start and output the URL
-    await new Promise((resolve) => setTimeout(resolve, 3000))
+    let previewUrl: string
+    try {
+      previewUrl = await waitForDevServer(sandbox, template.previewPort, server)
+    } catch (error) {
+      await devProcess.kill().catch(() => {})
+      await logWriter.close()
+      const message = error instanceof Error ? error.message : "Unknown error"
+      await ctx.runMutation(api.projects.updateDevServerStatus, {
+        projectId,
+        status: "crashed",
+        error: message,
+      })
+      throw new Error(`Dev server failed to start: ${message}`)
+    }
 
-    // The URL should be in the format: http://localhost:5173 for Vite
-    // We need to get the sandbox's public URL
-    const hostname = await sandbox.getHost(5173)
-    const previewUrl = `https://${hostname}`
+    await devProcess.disconnect()
+    await logWriter.close()
 
     console.log(`Dev server running at: ${previewUrl}`)
 
@@ -126,6 +473,15 @@ export const startDevServer = action({
     await ctx.runMutation(api.projects.updateDevServerUrl, {
       projectId,
       devServerUrl: previewUrl,
+      devServerPid: devProcess.pid,
+    })
+    await ctx.runMutation(api.projects.updateDevServerStatus, {
+      projectId,
+      status: "ready",
+    })
+    await ctx.runMutation(api.sandboxes.transitionSandboxById, {
+      sandboxId,
+      to: "running",
     })
 
     return previewUrl
@@ -138,23 +494,29 @@ export const stopDevServer = action({
     sandboxId: v.string(),
   },
   handler: async (ctx, { projectId, sandboxId }): Promise<void> => {
+    const owner = await ctx.runQuery(api.sandboxes.getSandboxProjectId, {
+      sandboxId,
+    })
+    if (owner !== projectId) throw new Error("Unauthorized")
+
     console.log(`Stopping dev server in sandbox: ${sandboxId}`)
 
+    const project = await ctx.runQuery(api.projects.getProject, { projectId })
+
+    // Cleared first, so the server exiting isn't taken for a crash
+    await ctx.runMutation(api.projects.updateDevServerStatus, { projectId })
+    await ctx.runMutation(api.sandboxes.transitionSandboxById, {
+      sandboxId,
+      to: "idle",
+    })
+
     try {
-      const sandbox = await Sandbox.connect(sandboxId, {
-        apiKey: process.env.E2B_API_KEY,
-      })
+      const sandbox = await getSandboxProvider().connect(sandboxId)
 
-      // Kill all node processes (which includes the dev server)
-      // Run in background to avoid waiting for process termination
-      try {
-        await sandbox.commands.run(
-          "pkill -f 'vite' || pkill -f 'node' || true",
-          { background: false },
-        )
-      } catch (error) {
-        // Ignore errors from pkill - process might already be dead
-        console.log("Process kill completed (errors ignored)")
+      // Kill the dev server along with what it started, e.g. vite under
+      // npm
+      if (project?.devServerPid !== undefined) {
+        await sandbox.killProcess(project.devServerPid)
       }
 
       // Clear the preview URL
@@ -180,22 +542,31 @@ export const syncFileToSandbox = action({
     sandboxId: v.string(),
     path: v.string(),
     content: v.string(),
+    // Set for binary files, whose bytes are read from file storage
+    storageId: v.optional(v.id("_storage")),
     version: v.number(),
   },
   handler: async (
     ctx,
-    { sandboxId, path, content, version },
+    { sandboxId, path, content, storageId, version },
   ): Promise<void> => {
+    if (
+      !(await ctx.runQuery(api.sandboxes.getSandboxProjectId, { sandboxId }))
+    ) {
+      throw new Error("Unauthorized")
+    }
+
     console.log(`Syncing file ${path} (v${version}) to sandbox ${sandboxId}`)
 
     try {
       // Try to connect to the sandbox
-      const sandbox = await Sandbox.connect(sandboxId, {
-        apiKey: process.env.E2B_API_KEY,
-      })
+      const sandbox = await getSandboxProvider().connect(sandboxId)
 
       // Write the file to the sandbox
-      await sandbox.files.write(path, content)
+      await sandbox.writeFile(
+        path,
+        await fileData(ctx, { path, content, storageId }),
+      )
 
       console.log(`Successfully synced ${path} to sandbox`)
     } catch (error) {
@@ -215,3 +586,281 @@ export const syncFileToSandbox = action({
     }
   },
 })
+
+export const deleteFileFromSandbox = action({
+  args: {
+    sandboxId: v.string(),
+    path: v.string(),
+  },
+  handler: async (ctx, { sandboxId, path }): Promise<void> => {
+    if (
+      !(await ctx.runQuery(api.sandboxes.getSandboxProjectId, { sandboxId }))
+    ) {
+      throw new Error("Unauthorized")
+    }
+
+    console.log(`Deleting ${path} from sandbox ${sandboxId}`)
+
+    const sandbox = await getSandboxProvider().connect(sandboxId)
+
+    await sandbox.removeFile(path)
+  },
+})
+
+export const renameFileInSandbox = action({
+  args: {
+    sandboxId: v.string(),
+    fromPath: v.string(),
+    toPath: v.string(),
+  },
+  handler: async (ctx, { sandboxId, fromPath, toPath }): Promise<void> => {
+    if (
+      !(await ctx.runQuery(api.sandboxes.getSandboxProjectId, { sandboxId }))
+    ) {
+      throw new Error("Unauthorized")
+    }
+
+    console.log(`Renaming ${fromPath} to ${toPath} in sandbox ${sandboxId}`)
+
+    const sandbox = await getSandboxProvider().connect(sandboxId)
+
+    // rename doesn't create missing parent directories
+    const parentDir = toPath.split("/").slice(0, -1).join("/")
+    if (parentDir) {
+      await sandbox.makeDir(parentDir)
+    }
+
+    await sandbox.renameFile(fromPath, toPath)
+  },
+})
+
+export const createFolderInSandbox = action({
+  args: {
+    sandboxId: v.string(),
+    path: v.string(),
+  },
+  handler: async (ctx, { sandboxId, path }): Promise<void> => {
+    if (
+      !(await ctx.runQuery(api.sandboxes.getSandboxProjectId, { sandboxId }))
+    ) {
+      throw new Error("Unauthorized")
+    }
+
+    console.log(`Creating folder ${path} in sandbox ${sandboxId}`)
+
+    const sandbox = await getSandboxProvider().connect(sandboxId)
+
+    await sandbox.makeDir(path)
+  },
+})
+
+/**
+ * Type declarations of the packages installed in the sandbox, for the
+ * editor's TypeScript service.
+ */
+export const getTypeDeclarations = action({
+  args: {
+    sandboxId: v.string(),
+  },
+  handler: async (ctx, { sandboxId }): Promise<TypeDeclarations> => {
+    if (
+      !(await ctx.runQuery(api.sandboxes.getSandboxProjectId, { sandboxId }))
+    ) {
+      throw new Error("Unauthorized")
+    }
+
+    const sandbox = await getSandboxProvider().connect(sandboxId)
+
+    const scriptPath = `${sandbox.tmpDir}/collect-type-declarations.js`
+    const outputPath = `${sandbox.tmpDir}/type-declarations.json`
+    await sandbox.writeFile(scriptPath, COLLECT_TYPE_DECLARATIONS_SCRIPT)
+    const result = await sandbox.run(`node ${scriptPath} ${outputPath}`, {
+      timeoutMs: 60_000,
+    })
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `Collecting type declarations failed: ${commandError(result)}`,
+      )
+    }
+
+    const output = await sandbox.readFile(outputPath)
+    return JSON.parse(output) as TypeDeclarations
+  },
+})
+
+/**
+ * Type-check and lint the project in the sandbox and store the problems
+ * found. Each tool only runs when the project has a config for it.
+ */
+export const runDiagnostics = action({
+  args: {
+    projectId: v.id("projects"),
+    sandboxId: v.string(),
+  },
+  handler: async (ctx, { projectId, sandboxId }): Promise<Diagnostic[]> => {
+    const owner = await ctx.runQuery(api.sandboxes.getSandboxProjectId, {
+      sandboxId,
+    })
+    if (owner !== projectId) throw new Error("Unauthorized")
+
+    console.log(`Running diagnostics in sandbox ${sandboxId}`)
+
+    const files = await ctx.runQuery(api.files.getFiles, { projectId })
+    const sandbox = await getSandboxProvider().connect(sandboxId)
+
+    const diagnostics: Diagnostic[] = []
+
+    const tsconfig = files.find((file) => file.path === "tsconfig.json")
+    if (tsconfig) {
+      // Vite's root config only references the app's configs, which tsc
+      // checks in build mode
+      const command = /"references"\s*:/.test(tsconfig.content)
+        ? "npx --no-install tsc -b --pretty false"
+        : "npx --no-install tsc --noEmit --pretty false"
+      const found = await runCheck(sandbox, command, parseTscOutput)
+      await ctx.runMutation(api.diagnostics.replaceDiagnostics, {
+        projectId,
+        source: "tsc",
+        diagnostics: found,
+      })
+      diagnostics.push(...found)
+    }
+
+    if (files.some((file) => ESLINT_CONFIG.test(file.path))) {
+      const found = await runCheck(
+        sandbox,
+        "npx --no-install eslint . --format json",
+        (stdout) => parseEslintOutput(stdout, sandbox.projectRoot),
+      )
+      await ctx.runMutation(api.diagnostics.replaceDiagnostics, {
+        projectId,
+        source: "eslint",
+        diagnostics: found,
+      })
+      diagnostics.push(...found)
+    }
+
+    console.log(`Diagnostics found ${diagnostics.length} problems`)
+    return diagnostics
+  },
+})
+
+/**
+ * Bring changes made inside the sandbox, e.g. from the terminal, into
+ * Convex: new and changed text files are saved, deleted files removed.
+ *
+ * Convex wins conflicts. Files in `pendingPaths` (edits still on their way
+ * from the editor) and files edited in Convex since the last pull are left
+ * alone, their Convex version is what ends up in the sandbox.
+ */
+export const pullFilesFromSandbox = action({
+  args: {
+    projectId: v.id("projects"),
+    sandboxId: v.string(),
+    pendingPaths: v.optional(v.array(v.string())),
+  },
+  handler: async (
+    ctx,
+    { projectId, sandboxId, pendingPaths = [] },
+  ): Promise<{ written: string[]; deleted: string[] }> => {
+    const owner = await ctx.runQuery(api.sandboxes.getSandboxProjectId, {
+      sandboxId,
+    })
+    if (owner !== projectId) throw new Error("Unauthorized")
+
+    const startedAt = Date.now()
+    const sandbox = await getSandboxProvider().connect(sandboxId)
+
+    const scriptPath = `${sandbox.tmpDir}/list-sandbox-files.js`
+    await sandbox.writeFile(scriptPath, LIST_SANDBOX_FILES_SCRIPT)
+    const listing = await sandbox.run(`node ${scriptPath}`, {
+      timeoutMs: 60_000,
+    })
+    if (listing.exitCode !== 0) {
+      throw new Error(`Listing sandbox files failed: ${commandError(listing)}`)
+    }
+    const entries = JSON.parse(listing.stdout) as SandboxFileEntry[]
+
+    const [files, snapshot] = await Promise.all([
+      ctx.runQuery(api.files.getProjectFiles, { projectId }),
+      ctx.runQuery(api.sandboxFiles.getSandboxSnapshot, {
+        projectId,
+        sandboxId,
+      }),
+    ])
+    const filesByPath = new Map(files.map((file) => [file.path, file]))
+    const pending = new Set(pendingPaths)
+
+    // Hashes at the last pull. Before the first one, the sandbox is
+    // compared with Convex directly and nothing counts as deleted.
+    const previous = new Map(
+      snapshot?.files.map((file) => [file.path, file.hash]) ?? [],
+    )
+    const since = snapshot?.takenAt ?? startedAt - SYNC_GRACE_MS
+    const changedInConvex = (file: { lastModified: number }) =>
+      file.lastModified > since
+
+    const written: string[] = []
+    for (const entry of entries) {
+      // Binary and very large files aren't pulled
+      if (entry.binary || entry.hash === null) continue
+      if (pending.has(entry.path)) continue
+      if (previous.get(entry.path) === entry.hash) continue
+
+      const file = filesByPath.get(entry.path)
+      if (file?.storageId) continue
+      if (file && changedInConvex(file)) continue
+      if (
+        file &&
+        createHash("sha1").update(file.content).digest("hex") === entry.hash
+      ) {
+        continue
+      }
+
+      const content = await sandbox.readFile(entry.path)
+      try {
+        await ctx.runMutation(api.files.updateFile, {
+          projectId,
+          path: entry.path,
+          content,
+          author: "sandbox",
+          expectedVersion: file?.version ?? 0,
+        })
+        written.push(entry.path)
+      } catch (error) {
+        // Edited in Convex while this pull ran
+        if (!isFileConflictError(error)) throw error
+      }
+    }
+
+    // Only files the last pull saw can have been deleted in the sandbox;
+    // others were created in Convex and haven't been written there yet
+    const listed = new Set(entries.map((entry) => entry.path))
+    const deleted: string[] = []
+    for (const file of files) {
+      if (listed.has(file.path) || !previous.has(file.path)) continue
+      if (pending.has(file.path) || changedInConvex(file)) continue
+
+      await ctx.runMutation(api.files.deleteFile, {
+        projectId,
+        path: file.path,
+        author: "sandbox",
+      })
+      deleted.push(file.path)
+    }
+
+    await ctx.runMutation(api.sandboxFiles.saveSandboxSnapshot, {
+      projectId,
+      sandboxId,
+      files: entries.map(({ path, hash }) => ({ path, hash })),
+      takenAt: startedAt,
+    })
+
+    if (written.length > 0 || deleted.length > 0) {
+      console.log(
+        `Pulled ${written.length} changed and ${deleted.length} deleted files from sandbox ${sandboxId}`,
+      )
+    }
+    return { written, deleted }
+  },
+})
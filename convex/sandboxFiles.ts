@@ -0,0 +1,166 @@
+import { v } from "convex/values"
+import { mutation, query } from "./_generated/server"
+
+/**
+ * Sandbox Files
+ *
+ * Lists the project's files as they are in the sandbox, so changes made
+ * there (e.g. from the terminal or `npm install`) can be brought into
+ * Convex. Installed packages, build output and the shell's own dotfiles
+ * are left out.
+ *
+ * Each pull stores a snapshot of the listing. Comparing against it tells
+ * a file changed in the sandbox from one Convex changed that hasn't been
+ * written there yet, and a file deleted in the sandbox from one that was
+ * never there.
+ */
+
+export type SandboxFileEntry = {
+  path: string
+  size: number
+  // SHA-1 of the contents; null for files too large to pull
+  hash: string | null
+  binary: boolean
+}
+
+// Folders and files in the sandbox that aren't part of the project
+export const SANDBOX_IGNORED_PATHS = [
+  "node_modules",
+  ".git",
+  ".next",
+  "dist",
+  "build",
+  ".cache",
+  ".npm",
+  ".config",
+  ".local",
+  ".bashrc",
+  ".bash_logout",
+  ".bash_history",
+  ".profile",
+  ".sudo_as_admin_successful",
+]
+
+// Text files larger than this are left in the sandbox
+export const MAX_PULLED_FILE_BYTES = 1024 * 1024
+
+/**
+ * Node script run in the project directory. Prints a SandboxFileEntry
+ * for every project file as JSON.
+ */
+export const LIST_SANDBOX_FILES_SCRIPT = `
+const fs = require("fs")
+const crypto = require("crypto")
+
+const ignored = new Set(${JSON.stringify(SANDBOX_IGNORED_PATHS)})
+const entries = []
+
+function walk(dir) {
+  for (const entry of fs.readdirSync(dir || ".", { withFileTypes: true })) {
+    if (ignored.has(entry.name)) continue
+    const file = dir ? dir + "/" + entry.name : entry.name
+    if (entry.isDirectory()) {
+      walk(file)
+    } else if (entry.isFile()) {
+      const size = fs.statSync(file).size
+      if (size > ${MAX_PULLED_FILE_BYTES}) {
+        entries.push({ path: file, size, hash: null, binary: false })
+        continue
+      }
+      const data = fs.readFileSync(file)
+      entries.push({
+        path: file,
+        size,
+        hash: crypto.createHash("sha1").update(data).digest("hex"),
+        binary: data.includes(0),
+      })
+    }
+  }
+}
+
+walk("")
+process.stdout.write(JSON.stringify(entries))
+`
+
+const snapshotFileValidator = v.object({
+  path: v.string(),
+  hash: v.union(v.string(), v.null()),
+})
+
+/**
+ * The snapshot from the last pull of this sandbox; null before the first.
+ */
+export const getSandboxSnapshot = query({
+  args: {
+    projectId: v.id("projects"),
+    sandboxId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return null
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) return null
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) return null
+
+    const snapshot = await ctx.db
+      .query("sandboxSnapshots")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .first()
+
+    // A new sandbox starts without one
+    return snapshot?.sandboxId === args.sandboxId ? snapshot : null
+  },
+})
+
+/**
+ * Replace the project's snapshot with the listing a pull worked from.
+ */
+export const saveSandboxSnapshot = mutation({
+  args: {
+    projectId: v.id("projects"),
+    sandboxId: v.string(),
+    files: v.array(snapshotFileValidator),
+    takenAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const existing = await ctx.db
+      .query("sandboxSnapshots")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+
+    for (const snapshot of existing) {
+      await ctx.db.delete(snapshot._id)
+    }
+
+    await ctx.db.insert("sandboxSnapshots", {
+      projectId: args.projectId,
+      sandboxId: args.sandboxId,
+      files: args.files,
+      takenAt: args.takenAt,
+    })
+  },
+})
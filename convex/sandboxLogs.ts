@@ -0,0 +1,216 @@
+import { v, type Infer } from "convex/values"
+import { mutation, query } from "./_generated/server"
+
+/**
+ * Sandbox Logs
+ *
+ * What the dev server prints and what the preview page logs to its
+ * console, shown together in the preview console. Server output is
+ * streamed in by devServerLogs.ts; browser logs are sent by the preview
+ * panel, which receives them from the console bridge (previewProxy.ts).
+ */
+
+export const logSourceValidator = v.union(
+  v.literal("server"),
+  v.literal("browser"),
+)
+
+export const logLevelValidator = v.union(
+  v.literal("log"),
+  v.literal("warn"),
+  v.literal("error"),
+)
+
+export type LogLevel = Infer<typeof logLevelValidator>
+
+const logEntryValidator = v.object({
+  source: logSourceValidator,
+  level: logLevelValidator,
+  message: v.string(),
+  createdAt: v.number(),
+})
+
+export type LogEntry = Infer<typeof logEntryValidator>
+
+// Entries kept per project, older ones are dropped
+const MAX_LOG_ENTRIES = 500
+
+// Longer messages, e.g. huge objects, are cut off
+const MAX_MESSAGE_LENGTH = 2000
+
+/**
+ * Level for a line of dev-server output. Servers print warnings and
+ * errors to either stream, so the text decides before the stream does.
+ */
+export function serverLogLevel(
+  line: string,
+  stream: "stdout" | "stderr",
+): LogLevel {
+  if (/\b(error|failed|exception)\b/i.test(line)) return "error"
+  if (/\bwarn(ing)?\b/i.test(line)) return "warn"
+  return stream === "stderr" ? "warn" : "log"
+}
+
+export const getSandboxLogs = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) return []
+
+    return await ctx.db
+      .query("sandboxLogs")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+  },
+})
+
+export const appendSandboxLogs = mutation({
+  args: {
+    projectId: v.id("projects"),
+    entries: v.array(logEntryValidator),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    for (const entry of args.entries) {
+      await ctx.db.insert("sandboxLogs", {
+        projectId: args.projectId,
+        ...entry,
+        message: entry.message.slice(0, MAX_MESSAGE_LENGTH),
+      })
+    }
+
+    // Drop everything older than the newest MAX_LOG_ENTRIES
+    const newest = await ctx.db
+      .query("sandboxLogs")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .take(MAX_LOG_ENTRIES + 1)
+    if (newest.length > MAX_LOG_ENTRIES) {
+      const expired = await ctx.db
+        .query("sandboxLogs")
+        .withIndex("by_project", (q) =>
+          q
+            .eq("projectId", args.projectId)
+            .lte("createdAt", newest[MAX_LOG_ENTRIES].createdAt),
+        )
+        .collect()
+      for (const entry of expired) {
+        await ctx.db.delete(entry._id)
+      }
+    }
+  },
+})
+
+export const clearSandboxLogs = mutation({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const entries = await ctx.db
+      .query("sandboxLogs")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+    for (const entry of entries) {
+      await ctx.db.delete(entry._id)
+    }
+  },
+})
+
+/**
+ * Take over streaming the dev server's output until `until`. Returns
+ * false while another action holds it, or when no dev server is running.
+ */
+export const claimDevServerLogStream = mutation({
+  args: {
+    projectId: v.id("projects"),
+    until: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    if (project.devServerPid === undefined) return false
+    if (project.devServerLogsUntil && project.devServerLogsUntil > Date.now()) {
+      return false
+    }
+
+    await ctx.db.patch(args.projectId, { devServerLogsUntil: args.until })
+    return true
+  },
+})
+
+export const releaseDevServerLogStream = mutation({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    await ctx.db.patch(args.projectId, { devServerLogsUntil: undefined })
+  },
+})
@@ -0,0 +1,151 @@
+"use node"
+
+import { e2bSandboxProvider } from "./sandboxProviders/e2b"
+import { localSandboxProvider } from "./sandboxProviders/local"
+
+/**
+ * Sandbox Provider
+ *
+ * Where projects run. Everything that touches a sandbox goes through
+ * SandboxProvider, so the backend can be swapped with the SANDBOX_PROVIDER
+ * environment variable:
+ *
+ * - "e2b" (the default): E2B cloud sandboxes, using E2B_API_KEY.
+ * - "local": temp directories on the machine running the Convex actions,
+ *   with projects run as child processes. Needs a local Convex backend
+ *   (`npx convex dev --local`); the preview is served from localhost.
+ */
+
+export type CommandResult = { stdout: string; stderr: string; exitCode: number }
+
+export type RunOptions = {
+  // Defaults to the project root
+  cwd?: string
+  envs?: Record<string, string>
+  // Commands taking longer fail; 0 waits forever
+  timeoutMs?: number
+  onStdout?: (data: string) => void
+  onStderr?: (data: string) => void
+}
+
+// A command running in the background, or a terminal
+export type SandboxProcess = {
+  pid: number
+  // Resolves with its exit code once it exits, -1 if it was killed
+  wait(): Promise<{ exitCode: number }>
+  // Stops receiving its output, it keeps running
+  disconnect(): Promise<void>
+  kill(): Promise<void>
+}
+
+export type TerminalOptions = {
+  cols: number
+  rows: number
+  cwd?: string
+  envs?: Record<string, string>
+  onData: (data: Uint8Array) => void
+}
+
+export interface ProviderSandboxHandle {
+  sandboxId: string
+  // Where project files live; relative paths are resolved against it
+  projectRoot: string
+  // For scripts and other files that aren't part of the project
+  tmpDir: string
+
+  writeFile(path: string, data: string | ArrayBuffer): Promise<void>
+  readFile(path: string): Promise<string>
+  removeFile(path: string): Promise<void>
+  renameFile(fromPath: string, toPath: string): Promise<void>
+  makeDir(path: string): Promise<void>
+
+  /**
+   * Run a command to completion. Exiting non-zero isn't an error, check
+   * `exitCode`.
+   */
+  run(command: string, options?: RunOptions): Promise<CommandResult>
+  // Start a command in the background
+  start(command: string, options?: RunOptions): Promise<SandboxProcess>
+  // Receive the output of a command started earlier, from now on
+  attach(
+    pid: number,
+    options: Pick<RunOptions, "onStdout" | "onStderr">,
+  ): Promise<SandboxProcess>
+  // Kill a command started earlier, along with what it started
+  killProcess(pid: number): Promise<void>
+
+  openTerminal(options: TerminalOptions): Promise<SandboxProcess>
+  attachTerminal(
+    pid: number,
+    onData: (data: Uint8Array) => void,
+  ): Promise<SandboxProcess>
+  sendTerminalInput(pid: number, data: Uint8Array): Promise<void>
+  resizeTerminal(
+    pid: number,
+    size: { cols: number; rows: number },
+  ): Promise<void>
+
+  /**
+   * A port to listen on: `preferred`, unless the sandbox shares its
+   * network and something else already uses it.
+   */
+  reservePort(preferred: number): Promise<number>
+  // URL at which a server listening on `port` is reached from outside
+  getHost(port: number): string
+}
+
+// A sandbox as list reports it
+export type ProviderSandbox = {
+  sandboxId: string
+  startedAt: number
+  state: "running" | "paused"
+}
+
+export interface SandboxProvider {
+  name: string
+  create(options: {
+    // How long it lives without setTimeout being called
+    timeoutMs: number
+    metadata: Record<string, string>
+  }): Promise<ProviderSandboxHandle>
+  /**
+   * Connect to a sandbox, resuming it if paused. Fails with an error
+   * isSandboxNotFoundError recognizes when it's gone.
+   */
+  connect(
+    sandboxId: string,
+    options?: { timeoutMs?: number },
+  ): Promise<ProviderSandboxHandle>
+  kill(sandboxId: string): Promise<void>
+  // Sandboxes created with `metadata`, or all of them
+  list(query?: {
+    metadata?: Record<string, string>
+  }): Promise<ProviderSandbox[]>
+  setTimeout(sandboxId: string, timeoutMs: number): Promise<void>
+  // Stops a sandbox, keeping its files and processes for connect
+  pause(sandboxId: string): Promise<void>
+}
+
+const NOT_FOUND = "SandboxNotFoundError"
+
+export function sandboxNotFoundError(sandboxId: string): Error {
+  const error = new Error(`Sandbox ${sandboxId} not found`)
+  error.name = NOT_FOUND
+  return error
+}
+
+export function isSandboxNotFoundError(error: unknown): boolean {
+  return error instanceof Error && error.name === NOT_FOUND
+}
+
+export function getSandboxProvider(): SandboxProvider {
+  const name = process.env.SANDBOX_PROVIDER ?? "e2b"
+  switch (name) {
+    case "e2b":
+      return e2bSandboxProvider
+    case "local":
+      return localSandboxProvider
+    default:
+      throw new Error(`Unknown SANDBOX_PROVIDER: ${name}`)
+  }
+}
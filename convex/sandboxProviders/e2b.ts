@@ -0,0 +1,189 @@
+"use node"
+
+import {
+  CommandExitError,
+  NotFoundError,
+  Sandbox,
+  type CommandHandle,
+} from "@e2b/code-interpreter"
+import {
+  sandboxNotFoundError,
+  type ProviderSandbox,
+  type ProviderSandboxHandle,
+  type SandboxProcess,
+  type SandboxProvider,
+} from "../sandboxProvider"
+
+/**
+ * E2B Sandbox Provider
+ *
+ * Cloud sandboxes from E2B. Each runs as the "user" user, whose home
+ * directory holds the project.
+ */
+
+const PROJECT_ROOT = "/home/user"
+
+const connectionOpts = () => ({ apiKey: process.env.E2B_API_KEY })
+
+/**
+ * Run `call`, turning E2B's not-found error into the provider-neutral
+ * one.
+ */
+async function withNotFound<T>(
+  sandboxId: string,
+  call: () => Promise<T>,
+): Promise<T> {
+  try {
+    return await call()
+  } catch (error) {
+    if (error instanceof NotFoundError) throw sandboxNotFoundError(sandboxId)
+    throw error
+  }
+}
+
+function toProcess(handle: CommandHandle): SandboxProcess {
+  return {
+    pid: handle.pid,
+    wait: () =>
+      handle.wait().then(
+        (result) => ({ exitCode: result.exitCode }),
+        (error) => {
+          if (error instanceof CommandExitError) {
+            return { exitCode: error.exitCode }
+          }
+          throw error
+        },
+      ),
+    disconnect: () => handle.disconnect(),
+    kill: async () => {
+      await handle.kill()
+    },
+  }
+}
+
+// Kills a process and its descendants, children first
+const killTreeCommand = (pid: number) =>
+  `kill_tree() { for child in $(pgrep -P "$1"); do kill_tree "$child"; done; kill -9 "$1" 2>/dev/null; }; kill_tree ${pid}; true`
+
+function toHandle(sandbox: Sandbox): ProviderSandboxHandle {
+  return {
+    sandboxId: sandbox.sandboxId,
+    projectRoot: PROJECT_ROOT,
+    tmpDir: "/tmp",
+
+    writeFile: async (path, data) => {
+      await sandbox.files.write(path, data)
+    },
+    readFile: (path) => sandbox.files.read(path),
+    removeFile: (path) => sandbox.files.remove(path),
+    renameFile: async (fromPath, toPath) => {
+      await sandbox.files.rename(fromPath, toPath)
+    },
+    makeDir: async (path) => {
+      await sandbox.files.makeDir(path)
+    },
+
+    run: async (command, { cwd, ...options } = {}) => {
+      try {
+        const result = await sandbox.commands.run(command, {
+          cwd: cwd ?? PROJECT_ROOT,
+          ...options,
+        })
+        return {
+          stdout: result.stdout,
+          stderr: result.stderr,
+          exitCode: result.exitCode,
+        }
+      } catch (error) {
+        if (!(error instanceof CommandExitError)) throw error
+        return {
+          stdout: error.stdout,
+          stderr: error.stderr,
+          exitCode: error.exitCode,
+        }
+      }
+    },
+    start: async (command, { cwd, ...options } = {}) =>
+      toProcess(
+        await sandbox.commands.run(command, {
+          background: true,
+          cwd: cwd ?? PROJECT_ROOT,
+          ...options,
+        }),
+      ),
+    attach: async (pid, options) =>
+      toProcess(
+        await sandbox.commands.connect(pid, { ...options, timeoutMs: 0 }),
+      ),
+    killProcess: async (pid) => {
+      await sandbox.commands.run(killTreeCommand(pid))
+    },
+
+    openTerminal: async ({ cwd, ...options }) =>
+      toProcess(
+        await sandbox.pty.create({
+          cwd: cwd ?? PROJECT_ROOT,
+          ...options,
+          // The shell lives until it exits or is closed
+          timeoutMs: 0,
+        }),
+      ),
+    attachTerminal: async (pid, onData) =>
+      toProcess(await sandbox.pty.connect(pid, { onData, timeoutMs: 0 })),
+    sendTerminalInput: (pid, data) => sandbox.pty.sendInput(pid, data),
+    resizeTerminal: (pid, size) => sandbox.pty.resize(pid, size),
+
+    // Every sandbox has its own network
+    reservePort: async (preferred) => preferred,
+    getHost: (port) => `https://${sandbox.getHost(port)}`,
+  }
+}
+
+export const e2bSandboxProvider: SandboxProvider = {
+  name: "e2b",
+
+  create: async ({ timeoutMs, metadata }) =>
+    toHandle(
+      await Sandbox.create({ ...connectionOpts(), timeoutMs, metadata }),
+    ),
+
+  connect: async (sandboxId, { timeoutMs } = {}) =>
+    toHandle(
+      await withNotFound(sandboxId, () =>
+        Sandbox.connect(sandboxId, { ...connectionOpts(), timeoutMs }),
+      ),
+    ),
+
+  kill: async (sandboxId) => {
+    await Sandbox.kill(sandboxId, connectionOpts())
+  },
+
+  list: async ({ metadata } = {}) => {
+    const paginator = Sandbox.list({
+      ...connectionOpts(),
+      query: { metadata, state: ["running", "paused"] },
+    })
+    const sandboxes: ProviderSandbox[] = []
+    while (paginator.hasNext) {
+      for (const info of await paginator.nextItems()) {
+        sandboxes.push({
+          sandboxId: info.sandboxId,
+          startedAt: info.startedAt.getTime(),
+          state: info.state,
+        })
+      }
+    }
+    return sandboxes
+  },
+
+  setTimeout: (sandboxId, timeoutMs) =>
+    withNotFound(sandboxId, () =>
+      Sandbox.setTimeout(sandboxId, timeoutMs, connectionOpts()),
+    ),
+
+  pause: async (sandboxId) => {
+    await withNotFound(sandboxId, () =>
+      Sandbox.betaPause(sandboxId, connectionOpts()),
+    )
+  },
+}
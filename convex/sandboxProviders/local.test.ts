@@ -0,0 +1,77 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import type { ProviderSandboxHandle, SandboxProvider } from "../sandboxProvider"
+
+describe("localSandboxProvider", () => {
+  let root: string
+  let provider: SandboxProvider
+  let sandbox: ProviderSandboxHandle
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "local-sandbox-test-"))
+    // Read when the module loads
+    process.env.LOCAL_SANDBOXES_DIR = path.join(root, "sandboxes")
+    provider = (await import("./local")).localSandboxProvider
+    sandbox = await provider.create({ timeoutMs: 60_000, metadata: {} })
+  })
+
+  afterAll(async () => {
+    delete process.env.LOCAL_SANDBOXES_DIR
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it("reads and writes files inside the project", async () => {
+    await sandbox.writeFile("src/App.tsx", "export {}")
+    expect(await sandbox.readFile("./src/App.tsx")).toBe("export {}")
+    await sandbox.renameFile("src/App.tsx", "src/Main.tsx")
+    await sandbox.removeFile("src/Main.tsx")
+
+    await sandbox.writeFile(`${sandbox.tmpDir}/script.js`, "")
+  })
+
+  it("rejects paths outside the project", async () => {
+    await fs.writeFile(path.join(root, "outside.txt"), "secret")
+
+    for (const file of [
+      "../../../outside.txt",
+      path.join(root, "outside.txt"),
+      "src/../../tmp/../../outside.txt",
+      ".",
+    ]) {
+      await expect(sandbox.readFile(file)).rejects.toThrow(
+        "Path is outside the sandbox",
+      )
+      await expect(sandbox.removeFile(file)).rejects.toThrow(
+        "Path is outside the sandbox",
+      )
+    }
+    await expect(
+      sandbox.renameFile("package.json", "../../../moved.json"),
+    ).rejects.toThrow("Path is outside the sandbox")
+    expect(await fs.readFile(path.join(root, "outside.txt"), "utf8")).toBe(
+      "secret",
+    )
+  })
+
+  it("rejects ids it didn't hand out", async () => {
+    for (const sandboxId of ["..", "../..", "local-../../etc", "e2b-sandbox"]) {
+      await expect(provider.kill(sandboxId)).rejects.toThrow(
+        "Invalid local sandbox id",
+      )
+      await expect(provider.connect(sandboxId)).rejects.toThrow(
+        "Invalid local sandbox id",
+      )
+    }
+    expect(await fs.readdir(root)).toContain("sandboxes")
+  })
+
+  it("lists and kills its own sandboxes", async () => {
+    expect((await provider.list()).map((s) => s.sandboxId)).toEqual([
+      sandbox.sandboxId,
+    ])
+    await provider.kill(sandbox.sandboxId)
+    expect(await provider.list()).toEqual([])
+  })
+})
@@ -0,0 +1,504 @@
+"use node"
+
+import { spawn } from "child_process"
+import { randomUUID } from "crypto"
+import { constants, promises as fs } from "fs"
+import net from "net"
+import os from "os"
+import path from "path"
+import { StringDecoder } from "string_decoder"
+import {
+  sandboxNotFoundError,
+  type CommandResult,
+  type ProviderSandbox,
+  type ProviderSandboxHandle,
+  type RunOptions,
+  type SandboxProcess,
+  type SandboxProvider,
+} from "../sandboxProvider"
+
+/**
+ * Local Sandbox Provider
+ *
+ * Sandboxes on the machine running the Convex actions, for development
+ * and CI without E2B. Each is a directory under LOCAL_SANDBOXES_DIR (a
+ * temp directory by default):
+ *
+ *   <sandboxId>/sandbox.json   when it was created, metadata, paused
+ *   <sandboxId>/project/       the project, also its commands' HOME
+ *   <sandboxId>/tmp/
+ *   <sandboxId>/processes/     output and exit code of every command
+ *
+ * Commands run detached in their own process group, with their output
+ * written to files, so they outlive the action that started them and
+ * later actions can attach to them by pid like with E2B. Pausing stops
+ * the process groups, and they're continued on connect. Sandboxes share
+ * the machine's network, so ports are reserved around what's in use, and
+ * they don't expire: they live until killed.
+ */
+
+const SANDBOXES_DIR =
+  process.env.LOCAL_SANDBOXES_DIR ??
+  path.join(os.tmpdir(), "code-agent-sandboxes")
+
+// How often output files and exits are checked
+const POLL_INTERVAL_MS = 200
+
+// The same as E2B's
+const DEFAULT_COMMAND_TIMEOUT_MS = 60_000
+
+// Ports tried after the preferred one when it's taken
+const PORT_SEARCH_RANGE = 100
+
+// Ports browsers refuse to fetch from, e.g. 6000 (X11)
+const BROWSER_BLOCKED_PORTS = new Set([
+  1719, 1720, 1723, 2049, 3659, 4045, 4190, 5060, 5061, 6000, 6566, 6665, 6666,
+  6667, 6668, 6669, 6679, 6697, 10080,
+])
+
+// How long a killed command gets to exit, and release its ports
+const KILL_TIMEOUT_MS = 5000
+
+type SandboxInfo = {
+  startedAt: number
+  metadata: Record<string, string>
+  paused: boolean
+}
+
+// What create hands out; anything else could point outside SANDBOXES_DIR
+const SANDBOX_ID_PATTERN = /^local-[0-9a-f-]{36}$/
+
+function sandboxDir(sandboxId: string): string {
+  if (!SANDBOX_ID_PATTERN.test(sandboxId)) {
+    throw new Error(`Invalid local sandbox id: ${sandboxId}`)
+  }
+  return path.join(SANDBOXES_DIR, sandboxId)
+}
+
+const infoPath = (sandboxId: string) =>
+  path.join(sandboxDir(sandboxId), "sandbox.json")
+
+async function readInfo(sandboxId: string): Promise<SandboxInfo> {
+  try {
+    return JSON.parse(await fs.readFile(infoPath(sandboxId), "utf8"))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw sandboxNotFoundError(sandboxId)
+    }
+    throw error
+  }
+}
+
+async function writeInfo(sandboxId: string, info: SandboxInfo) {
+  await fs.writeFile(infoPath(sandboxId), JSON.stringify(info))
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM"
+  }
+}
+
+// Commands lead their own process group, so this reaches what they started
+function signalGroup(pid: number, signal: NodeJS.Signals) {
+  try {
+    process.kill(-pid, signal)
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Kill a command's process group, resolving once it's gone.
+ */
+async function killGroup(pid: number) {
+  signalGroup(pid, "SIGKILL")
+  const deadline = Date.now() + KILL_TIMEOUT_MS
+  while (isAlive(-pid) && Date.now() < deadline) {
+    await sleep(50)
+  }
+}
+
+/**
+ * Pids of the sandbox's commands that are still running.
+ */
+async function runningPids(processesDir: string): Promise<number[]> {
+  const names = await fs.readdir(processesDir).catch(() => [])
+  const exited = new Set(
+    names
+      .filter((name) => name.endsWith(".exit"))
+      .map((name) => parseInt(name)),
+  )
+  return names
+    .filter((name) => name.endsWith(".out"))
+    .map((name) => parseInt(name))
+    .filter((pid) => !exited.has(pid) && isAlive(pid))
+}
+
+// Written by each command's wrapper, see spawnCommand
+const outputFile = (dir: string, pid: number, stream: "out" | "err") =>
+  path.join(dir, `${pid}.${stream}`)
+const exitFile = (dir: string, pid: number) => path.join(dir, `${pid}.exit`)
+const inputFile = (dir: string, pid: number) => path.join(dir, `${pid}.in`)
+
+async function exitCodeOf(dir: string, pid: number): Promise<number | null> {
+  try {
+    return parseInt(await fs.readFile(exitFile(dir, pid), "utf8"))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Follow a command's output files from `offset` ("end" for only what it
+ * prints from now on), passing new output to the listeners.
+ */
+async function followProcess(
+  dir: string,
+  pid: number,
+  listeners: { out?: (data: Buffer) => void; err?: (data: Buffer) => void },
+  offset: 0 | "end",
+): Promise<SandboxProcess> {
+  const tails = await Promise.all(
+    (["out", "err"] as const)
+      .filter((stream) => listeners[stream])
+      .map(async (stream) => {
+        const file = outputFile(dir, pid, stream)
+        const size =
+          offset === "end"
+            ? await fs.stat(file).then(
+                (stat) => stat.size,
+                () => 0,
+              )
+            : 0
+        return { file, listener: listeners[stream]!, position: size }
+      }),
+  )
+
+  // Reads are chained, so the timer and wait don't read the same bytes
+  let reading: Promise<void> = Promise.resolve()
+  const read = () => {
+    reading = reading.then(async () => {
+      for (const tail of tails) {
+        const handle = await fs.open(tail.file, "r").catch(() => null)
+        if (!handle) continue
+        try {
+          const { size } = await handle.stat()
+          if (size <= tail.position) continue
+          const buffer = Buffer.alloc(size - tail.position)
+          await handle.read(buffer, 0, buffer.length, tail.position)
+          tail.position = size
+          tail.listener(buffer)
+        } finally {
+          await handle.close()
+        }
+      }
+    })
+    return reading
+  }
+
+  const timer = tails.length > 0 ? setInterval(read, POLL_INTERVAL_MS) : null
+
+  return {
+    pid,
+    wait: async () => {
+      for (;;) {
+        const exitCode = await exitCodeOf(dir, pid)
+        if (exitCode !== null || !isAlive(pid)) {
+          await read()
+          if (timer) clearInterval(timer)
+          // Killed before the wrapper could record how it exited
+          return { exitCode: exitCode ?? (await exitCodeOf(dir, pid)) ?? -1 }
+        }
+        await sleep(POLL_INTERVAL_MS)
+      }
+    },
+    disconnect: async () => {
+      if (timer) clearInterval(timer)
+      await read()
+    },
+    kill: () => killGroup(pid),
+  }
+}
+
+/**
+ * Start `script` detached, with the processes directory in
+ * $SANDBOX_PROCESSES_DIR. It's expected to write its output and exit code
+ * there, named by its pid ($$).
+ */
+function spawnCommand(
+  sandboxId: string,
+  script: string,
+  { cwd, envs }: Pick<RunOptions, "cwd" | "envs">,
+): number {
+  const root = path.join(sandboxDir(sandboxId), "project")
+  // Only what commands need from the Convex process, not its secrets
+  const env: Record<string, string | undefined> = {
+    PATH: process.env.PATH,
+    LANG: process.env.LANG,
+    HOME: root,
+    SANDBOX_PROCESSES_DIR: path.join(sandboxDir(sandboxId), "processes"),
+    ...envs,
+  }
+  const child = spawn("bash", ["-c", script], {
+    cwd: cwd ?? root,
+    env: env as NodeJS.ProcessEnv,
+    detached: true,
+    stdio: "ignore",
+  })
+  child.unref()
+  if (child.pid === undefined) throw new Error("Failed to start command")
+  return child.pid
+}
+
+// Runs the command in a subshell, so exiting from it still records the
+// exit code
+const commandScript = (
+  command: string,
+) => `exec >"$SANDBOX_PROCESSES_DIR/$$.out" 2>"$SANDBOX_PROCESSES_DIR/$$.err" </dev/null
+(
+${command}
+)
+echo $? >"$SANDBOX_PROCESSES_DIR/$$.exit"`
+
+// A login shell on a pseudo-terminal from script(1), which takes input
+// from a FIFO. util-linux and BSD script differ; without either the shell
+// gets no terminal.
+const terminalScript = `exec >"$SANDBOX_PROCESSES_DIR/$$.out" 2>&1
+mkfifo "$SANDBOX_PROCESSES_DIR/$$.in"
+exec 3<>"$SANDBOX_PROCESSES_DIR/$$.in"
+if script --version >/dev/null 2>&1; then
+  script -qfec "$TERMINAL_INIT" /dev/null <&3
+elif command -v script >/dev/null; then
+  script -q /dev/null bash -c "$TERMINAL_INIT" <&3
+else
+  bash -i <&3
+fi
+echo $? >"$SANDBOX_PROCESSES_DIR/$$.exit"`
+
+const decodeWith = (listener?: (data: string) => void) => {
+  if (!listener) return undefined
+  const decoder = new StringDecoder("utf8")
+  return (data: Buffer) => listener(decoder.write(data))
+}
+
+function isPortFree(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer()
+    server.once("error", () => resolve(false))
+    server.listen(port, () => server.close(() => resolve(true)))
+  })
+}
+
+function toHandle(sandboxId: string): ProviderSandboxHandle {
+  const dir = sandboxDir(sandboxId)
+  const projectRoot = path.join(dir, "project")
+  const processesDir = path.join(dir, "processes")
+  const tmpDir = path.join(dir, "tmp")
+
+  // Relative paths are inside the project; absolute ones may also point
+  // at the sandbox's tmp directory, but nowhere else
+  const resolve = (file: string) => {
+    const resolved = path.resolve(projectRoot, file)
+    const isInside = (root: string) => resolved.startsWith(`${root}${path.sep}`)
+    if (!isInside(projectRoot) && !isInside(tmpDir)) {
+      throw new Error(`Path is outside the sandbox: ${file}`)
+    }
+    return resolved
+  }
+
+  const start = async (command: string, options: RunOptions = {}) => {
+    const pid = spawnCommand(sandboxId, commandScript(command), options)
+    return await followProcess(
+      processesDir,
+      pid,
+      {
+        out: decodeWith(options.onStdout),
+        err: decodeWith(options.onStderr),
+      },
+      0,
+    )
+  }
+
+  return {
+    sandboxId,
+    projectRoot,
+    tmpDir,
+
+    writeFile: async (file, data) => {
+      await fs.mkdir(path.dirname(resolve(file)), { recursive: true })
+      await fs.writeFile(
+        resolve(file),
+        typeof data === "string" ? data : Buffer.from(data),
+      )
+    },
+    readFile: async (file) => await fs.readFile(resolve(file), "utf8"),
+    removeFile: async (file) => {
+      await fs.rm(resolve(file), { recursive: true })
+    },
+    renameFile: async (fromPath, toPath) => {
+      await fs.rename(resolve(fromPath), resolve(toPath))
+    },
+    makeDir: async (file) => {
+      await fs.mkdir(resolve(file), { recursive: true })
+    },
+
+    run: async (command, options = {}) => {
+      const result: CommandResult = { stdout: "", stderr: "", exitCode: 0 }
+      const child = await start(command, {
+        ...options,
+        onStdout: (data) => {
+          result.stdout += data
+          options.onStdout?.(data)
+        },
+        onStderr: (data) => {
+          result.stderr += data
+          options.onStderr?.(data)
+        },
+      })
+
+      const timeoutMs = options.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS
+      let timer: NodeJS.Timeout | undefined
+      const timedOut = new Promise<"timeout">((resolve) => {
+        if (timeoutMs > 0)
+          timer = setTimeout(() => resolve("timeout"), timeoutMs)
+      })
+      const done = await Promise.race([child.wait(), timedOut])
+      clearTimeout(timer)
+
+      if (done === "timeout") {
+        await child.kill()
+        await child.disconnect()
+        throw new Error(`\`${command}\` timed out after ${timeoutMs}ms`)
+      }
+      // Nobody attaches to a finished command
+      await Promise.all(
+        [".out", ".err", ".exit"].map((ext) =>
+          fs.rm(path.join(processesDir, `${child.pid}${ext}`), {
+            force: true,
+          }),
+        ),
+      )
+      return { ...result, exitCode: done.exitCode }
+    },
+    start,
+    attach: (pid, { onStdout, onStderr }) =>
+      followProcess(
+        processesDir,
+        pid,
+        { out: decodeWith(onStdout), err: decodeWith(onStderr) },
+        "end",
+      ),
+    killProcess: killGroup,
+
+    openTerminal: async ({ cols, rows, cwd, envs, onData }) => {
+      const pid = spawnCommand(sandboxId, terminalScript, {
+        cwd,
+        envs: {
+          ...envs,
+          TERMINAL_INIT: `stty cols ${cols} rows ${rows} 2>/dev/null; exec bash -il`,
+        },
+      })
+      return await followProcess(processesDir, pid, { out: onData }, 0)
+    },
+    attachTerminal: (pid, onData) =>
+      followProcess(processesDir, pid, { out: onData }, "end"),
+    sendTerminalInput: async (pid, data) => {
+      // Non-blocking, so a shell that's gone fails instead of hanging
+      const handle = await fs.open(
+        inputFile(processesDir, pid),
+        constants.O_WRONLY | constants.O_NONBLOCK,
+      )
+      try {
+        await handle.write(data)
+      } finally {
+        await handle.close()
+      }
+    },
+    // Terminals keep the size they were opened with
+    resizeTerminal: async () => {},
+
+    reservePort: async (preferred) => {
+      for (let port = preferred; port < preferred + PORT_SEARCH_RANGE; port++) {
+        if (BROWSER_BLOCKED_PORTS.has(port)) continue
+        if (await isPortFree(port)) return port
+      }
+      throw new Error(`No free port from ${preferred}`)
+    },
+    getHost: (port) => `http://localhost:${port}`,
+  }
+}
+
+export const localSandboxProvider: SandboxProvider = {
+  name: "local",
+
+  create: async ({ metadata }) => {
+    const sandboxId = `local-${randomUUID()}`
+    for (const sub of ["project", "tmp", "processes"]) {
+      await fs.mkdir(path.join(sandboxDir(sandboxId), sub), { recursive: true })
+    }
+    await writeInfo(sandboxId, {
+      startedAt: Date.now(),
+      metadata,
+      paused: false,
+    })
+    return toHandle(sandboxId)
+  },
+
+  connect: async (sandboxId) => {
+    const info = await readInfo(sandboxId)
+    if (info.paused) {
+      const processesDir = path.join(sandboxDir(sandboxId), "processes")
+      for (const pid of await runningPids(processesDir)) {
+        signalGroup(pid, "SIGCONT")
+      }
+      await writeInfo(sandboxId, { ...info, paused: false })
+    }
+    return toHandle(sandboxId)
+  },
+
+  kill: async (sandboxId) => {
+    const processesDir = path.join(sandboxDir(sandboxId), "processes")
+    for (const pid of await runningPids(processesDir)) {
+      signalGroup(pid, "SIGKILL")
+    }
+    await fs.rm(sandboxDir(sandboxId), { recursive: true, force: true })
+  },
+
+  list: async ({ metadata = {} } = {}) => {
+    const ids = await fs.readdir(SANDBOXES_DIR).catch(() => [])
+    const sandboxes: ProviderSandbox[] = []
+    for (const sandboxId of ids) {
+      const info = await readInfo(sandboxId).catch(() => null)
+      if (!info) continue
+      const matches = Object.entries(metadata).every(
+        ([key, value]) => info.metadata[key] === value,
+      )
+      if (!matches) continue
+      sandboxes.push({
+        sandboxId,
+        startedAt: info.startedAt,
+        state: info.paused ? "paused" : "running",
+      })
+    }
+    return sandboxes
+  },
+
+  setTimeout: async (sandboxId) => {
+    await readInfo(sandboxId)
+  },
+
+  pause: async (sandboxId) => {
+    const info = await readInfo(sandboxId)
+    const processesDir = path.join(sandboxDir(sandboxId), "processes")
+    for (const pid of await runningPids(processesDir)) {
+      signalGroup(pid, "SIGSTOP")
+    }
+    await writeInfo(sandboxId, { ...info, paused: true })
+  },
+}
@@ -0,0 +1,106 @@
+"use node"
+
+import { internalAction } from "./_generated/server"
+import { internal } from "./_generated/api"
+import { getSandboxProvider } from "./sandboxProvider"
+import { IDLE_KILL_MS, reapSandboxes, type ReaperEntry } from "./orphanReaper"
+
+/**
+ * Sandbox Reaper
+ *
+ * Run by a cron (crons.ts) to clean up after projects nobody has open.
+ * Sandboxes without a keep-alive for IDLE_TIMEOUT_MS are paused, which
+ * keeps their files and processes but stops billing; reopening the
+ * project resumes them. Ones paused for PAUSED_TTL_MS are killed, and the
+ * project gets a new sandbox when it's next opened.
+ *
+ * reapOrphanSandboxes catches what that misses, see orphanReaper.ts.
+ */
+
+// Shorter than sandbox.ts's SANDBOX_TIMEOUT_MS less the cron's interval,
+// so sandboxes are paused before they'd expire
+const IDLE_TIMEOUT_MS = 15 * 60_000
+
+const PAUSED_TTL_MS = 7 * 24 * 60 * 60_000
+
+export const reapIdleSandboxes = internalAction({
+  args: {},
+  handler: async (ctx): Promise<void> => {
+    const now = Date.now()
+    const idleBefore = now - IDLE_TIMEOUT_MS
+    const pausedBefore = now - PAUSED_TTL_MS
+    const provider = getSandboxProvider()
+    const { idle, paused } = await ctx.runQuery(
+      internal.sandboxes.listInactiveSandboxes,
+      { idleBefore, pausedBefore },
+    )
+
+    for (const record of idle) {
+      if (!record.sandboxId) continue
+      // Recorded first, so a project reopened meanwhile resumes it
+      const claimed = await ctx.runMutation(internal.sandboxes.reapSandbox, {
+        id: record._id,
+        to: "paused",
+        inactiveBefore: idleBefore,
+      })
+      if (!claimed) continue
+
+      console.log(`Pausing idle sandbox: ${record.sandboxId}`)
+      try {
+        await provider.pause(record.sandboxId)
+      } catch (error) {
+        // Resuming finds out whether it's still there
+        console.warn(`Failed to pause sandbox ${record.sandboxId}:`, error)
+      }
+    }
+
+    for (const record of paused) {
+      const claimed = await ctx.runMutation(internal.sandboxes.reapSandbox, {
+        id: record._id,
+        to: "dead",
+        inactiveBefore: pausedBefore,
+        error: "Deleted after being paused for a week",
+      })
+      if (!claimed || !record.sandboxId) continue
+
+      console.log(`Killing paused sandbox: ${record.sandboxId}`)
+      try {
+        await provider.kill(record.sandboxId)
+      } catch (error) {
+        console.warn(`Failed to kill sandbox ${record.sandboxId}:`, error)
+      }
+    }
+  },
+})
+
+/**
+ * Kill sandboxes no project owns and owned ones left running idle,
+ * recording each in the audit table. Resolves to what was done.
+ */
+export const reapOrphanSandboxes = internalAction({
+  args: {},
+  handler: async (ctx): Promise<ReaperEntry[]> => {
+    const provider = getSandboxProvider()
+    const runAt = Date.now()
+    const owners = await ctx.runQuery(internal.orphanReaper.listSandboxOwners)
+
+    // Recorded first, so a project reopened meanwhile keeps it
+    const entries = await reapSandboxes(provider, owners, runAt, (recordId) =>
+      ctx.runMutation(internal.sandboxes.reapSandbox, {
+        id: recordId,
+        to: "dead",
+        inactiveBefore: runAt - IDLE_KILL_MS,
+        error: "Deleted after being left running idle",
+      }),
+    )
+
+    if (entries.length > 0) {
+      await ctx.runMutation(internal.orphanReaper.recordReaperRun, {
+        provider: provider.name,
+        runAt,
+        entries,
+      })
+    }
+    return entries
+  },
+})
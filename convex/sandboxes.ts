@@ -0,0 +1,413 @@
+import { v, type Infer } from "convex/values"
+import {
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  type MutationCtx,
+} from "./_generated/server"
+import type { Doc, Id } from "./_generated/dataModel"
+
+/**
+ * Sandboxes
+ *
+ * The lifecycle of each sandbox created for a project:
+ *
+ *   provisioning -> installing -> idle <-> running
+ *                                    \     /
+ *                                    paused        (any) -> dead
+ *
+ * Every change goes through transitionSandbox, which rejects moves the
+ * diagram doesn't allow. Creation is claimed with beginSandbox first, so
+ * two tabs or a reload can't both start one. The project's sandboxId
+ * follows: it's set once a sandbox is usable and cleared when it dies.
+ *
+ * Sandboxes outlive the page. While a project is open it keeps its
+ * sandbox's lastActiveAt fresh; the reaper (sandboxReaper.ts) pauses ones
+ * left inactive and kills ones paused for long.
+ */
+
+export const sandboxStateValidator = v.union(
+  v.literal("provisioning"),
+  v.literal("installing"),
+  v.literal("idle"),
+  v.literal("running"),
+  v.literal("paused"),
+  v.literal("dead"),
+)
+
+export type SandboxState = Infer<typeof sandboxStateValidator>
+
+const TRANSITIONS: Record<SandboxState, SandboxState[]> = {
+  provisioning: ["installing", "idle", "dead"],
+  installing: ["idle", "dead"],
+  idle: ["running", "paused", "dead"],
+  running: ["idle", "paused", "dead"],
+  // Paused processes, like the dev server, carry on when resumed
+  paused: ["idle", "running", "dead"],
+  dead: [],
+}
+
+// States a sandbox is being set up in
+const SETUP_STATES: SandboxState[] = ["provisioning", "installing"]
+
+// Setup that hasn't finished after this long was abandoned, e.g. its
+// action timed out
+const SETUP_TIMEOUT_MS = 15 * 60_000
+
+/**
+ * Move a sandbox to `to`, keeping the project pointed at it while it's
+ * usable. Throws if the move isn't allowed.
+ */
+async function applyTransition(
+  ctx: MutationCtx,
+  sandbox: Doc<"sandboxes">,
+  to: SandboxState,
+  error: string | undefined,
+) {
+  if (!TRANSITIONS[sandbox.state].includes(to)) {
+    throw new Error(`Sandbox can't go from ${sandbox.state} to ${to}`)
+  }
+
+  const now = Date.now()
+  await ctx.db.patch(sandbox._id, {
+    state: to,
+    stateChangedAt: now,
+    ...(error !== undefined ? { lastError: error } : {}),
+  })
+
+  const project = await ctx.db.get(sandbox.projectId)
+  if (!project) return
+
+  if (SETUP_STATES.includes(sandbox.state) && to === "idle") {
+    await ctx.db.patch(project._id, {
+      sandboxId: sandbox.sandboxId,
+      lastModified: now,
+    })
+  } else if (to === "dead" && project.sandboxId === sandbox.sandboxId) {
+    // Nothing runs in a dead sandbox
+    await ctx.db.patch(project._id, {
+      sandboxId: undefined,
+      devServerUrl: undefined,
+      devServerPid: undefined,
+      devServerLogsUntil: undefined,
+      devServerStatus: undefined,
+      devServerError: undefined,
+      lastModified: now,
+    })
+  }
+}
+
+/**
+ * The project's current sandbox, the newest one created for it.
+ */
+export const getProjectSandbox = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return null
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) return null
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) return null
+
+    return await ctx.db
+      .query("sandboxes")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .first()
+  },
+})
+
+/**
+ * The project a sandbox belongs to, or null unless the signed-in user owns
+ * it. Actions given a sandbox id check it before touching the sandbox.
+ */
+export const getSandboxProjectId = query({
+  args: { sandboxId: v.string() },
+  handler: async (ctx, args): Promise<Id<"projects"> | null> => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return null
+
+    const sandbox = await ctx.db
+      .query("sandboxes")
+      .withIndex("by_sandbox_id", (q) => q.eq("sandboxId", args.sandboxId))
+      .first()
+
+    if (sandbox) {
+      // Verify project access
+      const project = await ctx.db.get(sandbox.projectId)
+      if (!project) return null
+
+      const user = await ctx.db
+        .query("users")
+        .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+        .first()
+
+      if (!user || project.userId !== user._id) return null
+      return project._id
+    }
+
+    // Sandboxes created before states were tracked have no record, only
+    // the project pointing at them
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user) return null
+
+    const projects = await ctx.db
+      .query("projects")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect()
+    return (
+      projects.find((project) => project.sandboxId === args.sandboxId)?._id ??
+      null
+    )
+  },
+})
+
+/**
+ * Claim creating a sandbox for the project. Returns the new record in
+ * "provisioning", or null if the project already has one that's alive or
+ * being set up.
+ */
+export const beginSandbox = mutation({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const current = await ctx.db
+      .query("sandboxes")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .first()
+
+    if (current && current.state !== "dead") {
+      const abandoned =
+        SETUP_STATES.includes(current.state) &&
+        current.stateChangedAt < Date.now() - SETUP_TIMEOUT_MS
+      if (!abandoned) return null
+      await applyTransition(ctx, current, "dead", "Setup didn't finish")
+    }
+
+    const now = Date.now()
+    return await ctx.db.insert("sandboxes", {
+      projectId: args.projectId,
+      state: "provisioning",
+      createdAt: now,
+      stateChangedAt: now,
+      lastActiveAt: now,
+    })
+  },
+})
+
+/**
+ * Record the provider's id for a sandbox being provisioned.
+ */
+export const attachSandbox = mutation({
+  args: {
+    id: v.id("sandboxes"),
+    sandboxId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const sandbox = await ctx.db.get(args.id)
+    if (!sandbox) throw new Error("Sandbox not found")
+
+    // Verify project access
+    const project = await ctx.db.get(sandbox.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    if (sandbox.state !== "provisioning" || sandbox.sandboxId) {
+      throw new Error("Sandbox is already provisioned")
+    }
+    await ctx.db.patch(args.id, { sandboxId: args.sandboxId })
+  },
+})
+
+export const transitionSandbox = mutation({
+  args: {
+    id: v.id("sandboxes"),
+    to: sandboxStateValidator,
+    // Replaces the last error when set
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const sandbox = await ctx.db.get(args.id)
+    if (!sandbox) throw new Error("Sandbox not found")
+
+    // Verify project access
+    const project = await ctx.db.get(sandbox.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    await applyTransition(ctx, sandbox, args.to, args.error)
+  },
+})
+
+/**
+ * The same as transitionSandbox, for callers that only have the
+ * provider's id. Sandboxes created before states were tracked have no
+ * record and are left alone; so is one already in `to`.
+ */
+export const transitionSandboxById = mutation({
+  args: {
+    sandboxId: v.string(),
+    to: sandboxStateValidator,
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const sandbox = await ctx.db
+      .query("sandboxes")
+      .withIndex("by_sandbox_id", (q) => q.eq("sandboxId", args.sandboxId))
+      .first()
+    if (!sandbox || sandbox.state === args.to) return
+
+    // Verify project access
+    const project = await ctx.db.get(sandbox.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    await applyTransition(ctx, sandbox, args.to, args.error)
+  },
+})
+
+/**
+ * Record that the project using a sandbox is open, which keeps the reaper
+ * away from it.
+ */
+export const touchSandbox = mutation({
+  args: { sandboxId: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const sandbox = await ctx.db
+      .query("sandboxes")
+      .withIndex("by_sandbox_id", (q) => q.eq("sandboxId", args.sandboxId))
+      .first()
+    if (!sandbox) return
+
+    // Verify project access
+    const project = await ctx.db.get(sandbox.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    await ctx.db.patch(sandbox._id, { lastActiveAt: Date.now() })
+  },
+})
+
+/**
+ * Sandboxes for the reaper: running or idle ones inactive since before
+ * `idleBefore`, and paused ones inactive since before `pausedBefore`.
+ */
+export const listInactiveSandboxes = internalQuery({
+  args: {
+    idleBefore: v.number(),
+    pausedBefore: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const inactive = async (state: SandboxState, before: number) =>
+      await ctx.db
+        .query("sandboxes")
+        .withIndex("by_state", (q) =>
+          q.eq("state", state).lt("lastActiveAt", before),
+        )
+        .collect()
+
+    return {
+      idle: [
+        ...(await inactive("idle", args.idleBefore)),
+        ...(await inactive("running", args.idleBefore)),
+      ],
+      paused: await inactive("paused", args.pausedBefore),
+    }
+  },
+})
+
+/**
+ * Move an inactive sandbox to "paused" or "dead" for the reaper, which
+ * runs without a user. Returns false, changing nothing, if it was used
+ * since `inactiveBefore` or is no longer in a state to move from.
+ */
+export const reapSandbox = internalMutation({
+  args: {
+    id: v.id("sandboxes"),
+    to: v.union(v.literal("paused"), v.literal("dead")),
+    inactiveBefore: v.number(),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const sandbox = await ctx.db.get(args.id)
+    if (!sandbox) return false
+    if ((sandbox.lastActiveAt ?? 0) >= args.inactiveBefore) return false
+    if (!TRANSITIONS[sandbox.state].includes(args.to)) return false
+
+    await applyTransition(ctx, sandbox, args.to, args.error)
+    return true
+  },
+})
@@ -1,5 +1,17 @@
 import { defineSchema, defineTable } from "convex/server"
 import { v } from "convex/values"
+import { messageMetadataValidator, messagePartValidator } from "./messageParts"
+import { fileAuthorValidator } from "./fileVersions"
+import { assetFields } from "./fileAssets"
+import {
+  diagnosticSeverityValidator,
+  diagnosticSourceValidator,
+} from "./diagnostics"
+import { frameworkValidator, templateIdValidator } from "./templateRegistry"
+import { logLevelValidator, logSourceValidator } from "./sandboxLogs"
+import { devServerStatusValidator } from "./devServer"
+import { sandboxStateValidator } from "./sandboxes"
+import { reapReasonValidator } from "./orphanReaper"
 
 export default defineSchema({
   users: defineTable({
@@ -11,29 +23,214 @@ export default defineSchema({
   projects: defineTable({
     userId: v.id("users"),
     name: v.string(),
-    framework: v.union(v.literal("react"), v.literal("nextjs")),
+    framework: frameworkValidator,
+    // Unset for projects created before templates were selectable
+    templateId: v.optional(templateIdValidator),
     templateUrl: v.string(),
     sandboxId: v.optional(v.string()),
     devServerUrl: v.optional(v.string()),
+    // Process the dev server runs as, set while it's running
+    devServerPid: v.optional(v.number()),
+    // Until when an action is streaming the dev server's output
+    devServerLogsUntil: v.optional(v.number()),
+    devServerStatus: v.optional(devServerStatusValidator),
+    // Why the dev server crashed
+    devServerError: v.optional(v.string()),
     createdAt: v.number(),
     lastModified: v.number(),
   }).index("by_user", ["userId"]),
 
+  // Sandboxes created for a project, the newest being the current one.
+  // State changes go through sandboxes.ts, which enforces the lifecycle.
+  sandboxes: defineTable({
+    projectId: v.id("projects"),
+    // The provider's id, set once it has created the sandbox
+    sandboxId: v.optional(v.string()),
+    state: sandboxStateValidator,
+    lastError: v.optional(v.string()),
+    createdAt: v.number(),
+    stateChangedAt: v.number(),
+    // Last time the project was open with this sandbox
+    lastActiveAt: v.optional(v.number()),
+  })
+    .index("by_project", ["projectId", "createdAt"])
+    .index("by_sandbox_id", ["sandboxId"])
+    .index("by_state", ["state", "lastActiveAt"]),
+
+  // Sandboxes killed by the orphan reaper
+  sandboxReaperAudit: defineTable({
+    // The `name` of the sandbox provider that ran the reaper
+    provider: v.string(),
+    runAt: v.number(),
+    sandboxId: v.string(),
+    reason: reapReasonValidator,
+    projectId: v.optional(v.id("projects")),
+    killed: v.boolean(),
+    error: v.optional(v.string()),
+  }).index("by_run", ["runAt"]),
+
   files: defineTable({
     projectId: v.id("projects"),
     path: v.string(),
+    // Empty for binary files, whose bytes are in file storage
     content: v.string(),
+    ...assetFields,
     version: v.number(),
     lastModified: v.number(),
+  })
+    .index("by_project", ["projectId"])
+    .index("by_project_and_path", ["projectId", "path"])
+    .index("by_storage", ["storageId"]),
+
+  // Folders created from the file tree. Folders that hold files also exist
+  // implicitly through their paths; a row keeps an empty one visible.
+  folders: defineTable({
+    projectId: v.id("projects"),
+    path: v.string(),
+    createdAt: v.number(),
   })
     .index("by_project", ["projectId"])
     .index("by_project_and_path", ["projectId", "path"]),
 
+  // Content of every version a file has had, including the current one
+  fileVersions: defineTable({
+    projectId: v.id("projects"),
+    fileId: v.id("files"),
+    // Path at the time of the write, renames keep the same fileId
+    path: v.string(),
+    version: v.number(),
+    content: v.string(),
+    ...assetFields,
+    author: fileAuthorValidator,
+    // The assistant message that made the change, for agent edits
+    messageId: v.optional(v.id("messages")),
+    // Set on the entry recording the file's deletion, which has no content.
+    // The history outlives the file so it can be restored.
+    deleted: v.optional(v.boolean()),
+    createdAt: v.number(),
+  })
+    .index("by_file", ["fileId", "version"])
+    .index("by_project", ["projectId"])
+    .index("by_project_and_deleted", ["projectId", "deleted"])
+    .index("by_storage", ["storageId"]),
+
+  // Problems tsc and ESLint reported in the sandbox, replaced per tool on
+  // each check
+  diagnostics: defineTable({
+    projectId: v.id("projects"),
+    source: diagnosticSourceValidator,
+    path: v.string(),
+    line: v.number(),
+    column: v.number(),
+    endLine: v.optional(v.number()),
+    endColumn: v.optional(v.number()),
+    severity: diagnosticSeverityValidator,
+    message: v.string(),
+    code: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+    .index("by_project", ["projectId"])
+    .index("by_project_and_source", ["projectId", "source"]),
+
+  // Shells opened from the Terminal tab, running in the project's sandbox
+  terminalSessions: defineTable({
+    projectId: v.id("projects"),
+    sandboxId: v.string(),
+    // Process ID of the shell's PTY, set once it has started
+    pid: v.optional(v.number()),
+    cols: v.number(),
+    rows: v.number(),
+    status: v.union(
+      v.literal("starting"),
+      v.literal("running"),
+      v.literal("exited"),
+    ),
+    exitCode: v.optional(v.number()),
+    // One action at a time streams the output; it holds the session until
+    // this time
+    streamingUntil: v.optional(v.number()),
+    // Sequence number of the latest output chunk
+    lastSeq: v.number(),
+    createdAt: v.number(),
+  }).index("by_project", ["projectId"]),
+
+  // Recent output of each terminal session, oldest chunks are dropped
+  terminalOutput: defineTable({
+    sessionId: v.id("terminalSessions"),
+    seq: v.number(),
+    data: v.string(),
+    createdAt: v.number(),
+  }).index("by_session", ["sessionId", "seq"]),
+
+  // The project's files as they were in the sandbox at the last pull, to
+  // tell changes made there from Convex edits still on their way to it
+  sandboxSnapshots: defineTable({
+    projectId: v.id("projects"),
+    sandboxId: v.string(),
+    files: v.array(
+      v.object({ path: v.string(), hash: v.union(v.string(), v.null()) }),
+    ),
+    takenAt: v.number(),
+  }).index("by_project", ["projectId"]),
+
+  // Dev-server output and the preview page's console, oldest first
+  sandboxLogs: defineTable({
+    projectId: v.id("projects"),
+    source: logSourceValidator,
+    level: logLevelValidator,
+    message: v.string(),
+    createdAt: v.number(),
+  }).index("by_project", ["projectId", "createdAt"]),
+
   messages: defineTable({
     projectId: v.optional(v.id("projects")),
     role: v.union(v.literal("user"), v.literal("assistant")),
+    // Plain text of the message, kept alongside parts for history replay
     content: v.string(),
+    parts: v.optional(v.array(messagePartValidator)),
+    // Assistant messages start as "streaming" and are patched as tokens arrive.
+    // Messages without a status predate streaming and are complete.
+    // "awaiting-approval" means the run is paused on a sensitive tool call.
+    status: v.optional(
+      v.union(
+        v.literal("streaming"),
+        v.literal("awaiting-approval"),
+        v.literal("complete"),
+        v.literal("error"),
+      ),
+    ),
+    // Model messages produced by a run paused for approval, replayed
+    // when the run resumes
+    pendingModelMessages: v.optional(v.array(v.any())),
+    // Set by the user to stop generation, polled by the agent action
+    cancelRequested: v.optional(v.boolean()),
+    // Renewed by the agent action on every flush while "streaming". Past
+    // it the run is gone (crash, deploy or the action time limit) and the
+    // message counts as finished.
+    streamingUntil: v.optional(v.number()),
+    error: v.optional(v.string()),
     createdAt: v.number(),
-    metadata: v.optional(v.any()),
+    metadata: v.optional(messageMetadataValidator),
   }).index("by_project", ["projectId"]),
+
+  // Snapshot of every file taken at the start of an agent turn
+  checkpoints: defineTable({
+    projectId: v.id("projects"),
+    // The assistant message whose turn this checkpoint precedes
+    messageId: v.id("messages"),
+    fileCount: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_project", ["projectId"])
+    .index("by_message", ["messageId"]),
+
+  // The version each file was at; its content is in fileVersions
+  checkpointFiles: defineTable({
+    checkpointId: v.id("checkpoints"),
+    fileId: v.id("files"),
+    path: v.string(),
+    version: v.number(),
+  })
+    .index("by_checkpoint", ["checkpointId"])
+    .index("by_file", ["fileId"]),
 })
@@ -0,0 +1,270 @@
+import { v, type Infer } from "convex/values"
+import picomatch from "picomatch"
+import { mutation, query } from "./_generated/server"
+import type { Doc } from "./_generated/dataModel"
+import { recordFileVersion } from "./fileVersions"
+
+/**
+ * Project Search
+ *
+ * Find text across a project's files, and replace every match in one go.
+ * Only text files are searched; binary files have no content to match.
+ */
+
+// Limits that keep results small enough to send to the browser
+const MAX_MATCHES = 2000
+const MAX_LINE_LENGTH = 250
+const MAX_CONTEXT_LINES = 5
+
+export const searchOptionsValidator = v.object({
+  query: v.string(),
+  isRegex: v.boolean(),
+  caseSensitive: v.boolean(),
+  wholeWord: v.boolean(),
+  // Comma-separated globs, e.g. "src/**, *.css". Globs without a slash
+  // match file names in any folder.
+  include: v.optional(v.string()),
+  exclude: v.optional(v.string()),
+})
+
+export type SearchOptions = Infer<typeof searchOptionsValidator>
+
+export type SearchMatch = {
+  line: number
+  // 1-based, like Monaco
+  column: number
+  length: number
+  text: string
+  before: string[]
+  after: string[]
+}
+
+export type FileSearchResult = {
+  path: string
+  version: number
+  matches: SearchMatch[]
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * The regular expression a search runs, with the global flag set.
+ * Throws on invalid regex syntax.
+ */
+function buildSearchRegex(options: SearchOptions): RegExp {
+  let source = options.isRegex ? options.query : escapeRegExp(options.query)
+  if (options.wholeWord) source = `\\b(?:${source})\\b`
+
+  try {
+    return new RegExp(source, options.caseSensitive ? "g" : "gi")
+  } catch (error) {
+    throw new Error(
+      `Invalid regular expression: ${
+        error instanceof Error ? error.message : options.query
+      }`,
+    )
+  }
+}
+
+function globMatcher(globs: string | undefined) {
+  const patterns = (globs ?? "")
+    .split(",")
+    .map((glob) => glob.trim())
+    .filter(Boolean)
+    // "*.css" means CSS files in any folder
+    .map((glob) => (glob.includes("/") ? glob : `**/${glob}`))
+  if (patterns.length === 0) return null
+  return picomatch(patterns, { dot: true })
+}
+
+// Text files the search covers, in path order
+function searchableFiles(files: Doc<"files">[], options: SearchOptions) {
+  const isIncluded = globMatcher(options.include)
+  const isExcluded = globMatcher(options.exclude)
+
+  return files
+    .filter(
+      (f) =>
+        !f.storageId &&
+        (!isIncluded || isIncluded(f.path)) &&
+        !(isExcluded && isExcluded(f.path)),
+    )
+    .sort((a, b) => a.path.localeCompare(b.path))
+}
+
+function truncateLine(line: string): string {
+  return line.length > MAX_LINE_LENGTH
+    ? `${line.slice(0, MAX_LINE_LENGTH)}…`
+    : line
+}
+
+export const searchProjectFiles = query({
+  args: {
+    projectId: v.id("projects"),
+    options: searchOptionsValidator,
+    // Lines shown above and below each match
+    contextLines: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const empty = { results: [], truncated: false, error: null }
+
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return empty
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) return empty
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) return empty
+
+    if (!args.options.query) return empty
+
+    let regex: RegExp
+    try {
+      regex = buildSearchRegex(args.options)
+    } catch (error) {
+      // Reported instead of thrown - the user is still typing the pattern
+      return { ...empty, error: (error as Error).message }
+    }
+
+    const contextLines = Math.min(
+      Math.max(args.contextLines ?? 1, 0),
+      MAX_CONTEXT_LINES,
+    )
+    const files = await ctx.db
+      .query("files")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+
+    const results: FileSearchResult[] = []
+    let matchCount = 0
+    for (const file of searchableFiles(files, args.options)) {
+      const lines = file.content.split("\n")
+      const matches: SearchMatch[] = []
+
+      for (let i = 0; i < lines.length; i++) {
+        for (const match of lines[i].matchAll(regex)) {
+          // Empty matches (e.g. /^/) can't be shown or replaced usefully
+          if (match[0].length === 0) continue
+
+          matches.push({
+            line: i + 1,
+            column: match.index + 1,
+            length: match[0].length,
+            text: truncateLine(lines[i]),
+            before: lines
+              .slice(Math.max(0, i - contextLines), i)
+              .map(truncateLine),
+            after: lines.slice(i + 1, i + 1 + contextLines).map(truncateLine),
+          })
+          matchCount++
+          if (matchCount >= MAX_MATCHES) {
+            results.push({ path: file.path, version: file.version, matches })
+            return { results, truncated: true, error: null }
+          }
+        }
+      }
+
+      if (matches.length > 0) {
+        results.push({ path: file.path, version: file.version, matches })
+      }
+    }
+
+    return { results, truncated: false, error: null }
+  },
+})
+
+/**
+ * Replace every match of a search in one transaction. Each changed file
+ * gets a new version. Pass the versions the user saw the results for;
+ * files changed since then are skipped rather than overwritten.
+ */
+export const replaceAll = mutation({
+  args: {
+    projectId: v.id("projects"),
+    options: searchOptionsValidator,
+    replacement: v.string(),
+    files: v.array(v.object({ path: v.string(), version: v.number() })),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    if (!args.options.query) throw new Error("Nothing to replace")
+    const regex = buildSearchRegex(args.options)
+
+    const expectedVersions = new Map(
+      args.files.map((file) => [file.path, file.version]),
+    )
+    const files = await ctx.db
+      .query("files")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+
+    const now = Date.now()
+    const replaced = []
+    const skipped = []
+    for (const file of searchableFiles(files, args.options)) {
+      const expectedVersion = expectedVersions.get(file.path)
+      if (expectedVersion === undefined) continue
+      if (file.version !== expectedVersion) {
+        skipped.push(file.path)
+        continue
+      }
+
+      // Line by line, so a pattern matches exactly what the search showed.
+      // Regex replacements may refer to groups ($1, $<name>); literal ones
+      // are inserted as typed.
+      let count = 0
+      const content = file.content
+        .split("\n")
+        .map((line) => {
+          count += [...line.matchAll(regex)].filter((m) => m[0]).length
+          return args.options.isRegex
+            ? line.replace(regex, args.replacement)
+            : line.replace(regex, () => args.replacement)
+        })
+        .join("\n")
+      if (count === 0 || content === file.content) continue
+
+      const version = file.version + 1
+      await ctx.db.patch(file._id, { content, version, lastModified: now })
+      await recordFileVersion(
+        ctx,
+        (await ctx.db.get(file._id))!,
+        { author: "user" },
+        file,
+      )
+      replaced.push({ path: file.path, content, version, count })
+    }
+
+    if (replaced.length > 0) {
+      // Update project lastModified
+      await ctx.db.patch(args.projectId, {
+        lastModified: now,
+      })
+    }
+
+    return { replaced, skipped }
+  },
+})
@@ -0,0 +1,106 @@
+import type { StarterFile } from "../templateRegistry"
+
+// Static site served as-is, edits show up on reload
+export const HTML_FILES: StarterFile[] = [
+  {
+    path: "package.json",
+    content: `{
+  "name": "html-starter",
+  "private": true,
+  "version": "0.0.0",
+  "scripts": {
+    "dev": "serve --listen tcp://0.0.0.0:8080 --no-clipboard ."
+  },
+  "devDependencies": {
+    "serve": "^14.2.4"
+  }
+}
+`,
+  },
+  {
+    path: "index.html",
+    content: `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>HTML Starter</title>
+    <link rel="stylesheet" href="style.css" />
+  </head>
+  <body>
+    <main>
+      <h1>Hello, world</h1>
+      <p>Edit <code>index.html</code>, <code>style.css</code> and <code>main.js</code> to get started.</p>
+      <button id="counter" type="button">Count is 0</button>
+    </main>
+    <script src="main.js"></script>
+  </body>
+</html>
+`,
+  },
+  {
+    path: "style.css",
+    content: `:root {
+  font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif;
+  line-height: 1.5;
+  color: #1f2937;
+  background-color: #f9fafb;
+}
+
+body {
+  margin: 0;
+  min-height: 100vh;
+  display: grid;
+  place-items: center;
+}
+
+main {
+  text-align: center;
+  padding: 2rem;
+}
+
+h1 {
+  font-size: 2.5rem;
+  margin-bottom: 0.5rem;
+}
+
+code {
+  background-color: #e5e7eb;
+  border-radius: 0.25rem;
+  padding: 0.1rem 0.3rem;
+}
+
+button {
+  margin-top: 1rem;
+  padding: 0.6rem 1.2rem;
+  border: 1px solid #d1d5db;
+  border-radius: 0.5rem;
+  background-color: white;
+  font: inherit;
+  cursor: pointer;
+}
+
+button:hover {
+  border-color: #6b7280;
+}
+`,
+  },
+  {
+    path: "main.js",
+    content: `const button = document.getElementById("counter")
+let count = 0
+
+button.addEventListener("click", () => {
+  count += 1
+  button.textContent = \`Count is \${count}\`
+})
+`,
+  },
+  {
+    path: "README.md",
+    content: `# HTML Starter
+
+A plain HTML, CSS and JavaScript page with no build step. \`npm run dev\` serves the project directory on port 8080.
+`,
+  },
+]
@@ -0,0 +1,179 @@
+import type { StarterFile } from "../templateRegistry"
+
+// Equivalent of create-next-app with the App Router, TypeScript and Tailwind
+export const NEXTJS_APP_FILES: StarterFile[] = [
+  {
+    path: "package.json",
+    content: `{
+  "name": "nextjs-starter",
+  "version": "0.1.0",
+  "private": true,
+  "scripts": {
+    "dev": "next dev --hostname 0.0.0.0 --port 3000",
+    "build": "next build",
+    "start": "next start",
+    "lint": "next lint"
+  },
+  "dependencies": {
+    "next": "^15.5.4",
+    "react": "^19.1.0",
+    "react-dom": "^19.1.0"
+  },
+  "devDependencies": {
+    "@tailwindcss/postcss": "^4",
+    "@types/node": "^20",
+    "@types/react": "^19",
+    "@types/react-dom": "^19",
+    "tailwindcss": "^4",
+    "typescript": "^5"
+  }
+}
+`,
+  },
+  {
+    path: "next.config.ts",
+    content: `import type { NextConfig } from "next"
+
+const nextConfig: NextConfig = {
+  // The preview is served from the sandbox's public hostname
+  allowedDevOrigins: ["*.e2b.app", "*.e2b.dev"],
+}
+
+export default nextConfig
+`,
+  },
+  {
+    path: "tsconfig.json",
+    content: `{
+  "compilerOptions": {
+    "target": "ES2017",
+    "lib": ["dom", "dom.iterable", "esnext"],
+    "allowJs": true,
+    "skipLibCheck": true,
+    "strict": true,
+    "noEmit": true,
+    "esModuleInterop": true,
+    "module": "esnext",
+    "moduleResolution": "bundler",
+    "resolveJsonModule": true,
+    "isolatedModules": true,
+    "jsx": "preserve",
+    "incremental": true,
+    "plugins": [
+      {
+        "name": "next"
+      }
+    ],
+    "paths": {
+      "@/*": ["./*"]
+    }
+  },
+  "include": ["next-env.d.ts", "**/*.ts", "**/*.tsx", ".next/types/**/*.ts"],
+  "exclude": ["node_modules"]
+}
+`,
+  },
+  {
+    path: "next-env.d.ts",
+    content: `/// <reference types="next" />
+/// <reference types="next/image-types/global" />
+
+// NOTE: This file should not be edited
+// see https://nextjs.org/docs/app/api-reference/config/typescript for more information.
+`,
+  },
+  {
+    path: "postcss.config.mjs",
+    content: `const config = {
+  plugins: ["@tailwindcss/postcss"],
+}
+
+export default config
+`,
+  },
+  {
+    path: ".gitignore",
+    content: `node_modules
+.next
+out
+*.tsbuildinfo
+.env*.local
+`,
+  },
+  {
+    path: "app/globals.css",
+    content: `@import "tailwindcss";
+
+:root {
+  --background: #ffffff;
+  --foreground: #171717;
+}
+
+@theme inline {
+  --color-background: var(--background);
+  --color-foreground: var(--foreground);
+}
+
+@media (prefers-color-scheme: dark) {
+  :root {
+    --background: #0a0a0a;
+    --foreground: #ededed;
+  }
+}
+
+body {
+  background: var(--background);
+  color: var(--foreground);
+  font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif;
+}
+`,
+  },
+  {
+    path: "app/layout.tsx",
+    content: `import type { Metadata } from "next"
+import "./globals.css"
+
+export const metadata: Metadata = {
+  title: "Next.js Starter",
+  description: "Generated from the Next.js App Router starter",
+}
+
+export default function RootLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode
+}>) {
+  return (
+    <html lang="en">
+      <body className="antialiased">{children}</body>
+    </html>
+  )
+}
+`,
+  },
+  {
+    path: "app/page.tsx",
+    content: `export default function Home() {
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center gap-4 p-8">
+      <h1 className="text-4xl font-bold">Hello, world</h1>
+      <p className="text-lg opacity-70">
+        Edit <code className="font-mono">app/page.tsx</code> to get started.
+      </p>
+    </main>
+  )
+}
+`,
+  },
+  {
+    path: "README.md",
+    content: `# Next.js Starter
+
+A [Next.js](https://nextjs.org) project using the App Router, TypeScript and Tailwind CSS.
+
+Pages live in \`app/\`: \`app/page.tsx\` is the home page and \`app/layout.tsx\` wraps every route. Add a route by creating \`app/<name>/page.tsx\`.
+
+\`npm run dev\` starts the development server on port 3000.
+`,
+  },
+]
@@ -0,0 +1,367 @@
+/// <reference types="vite/client" />
+
+import { convexTest } from "convex-test"
+import { createServer, type Server, type ServerResponse } from "http"
+import type { AddressInfo } from "net"
+import { gzipSync } from "zlib"
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest"
+import { api } from "./_generated/api"
+import schema from "./schema"
+import {
+  fetchRepositoryFiles,
+  MAX_ARCHIVE_BYTES,
+  MAX_FILES,
+  MAX_TOTAL_BYTES,
+} from "./templateImport"
+
+/**
+ * A gzipped tarball with every file under one root folder, the way GitHub
+ * serves them. Only the header fields the importer reads are filled in.
+ */
+function tarball(files: Record<string, string | Buffer>): Buffer {
+  const blocks: Buffer[] = []
+  for (const [path, content] of Object.entries(files)) {
+    const data = Buffer.isBuffer(content) ? content : Buffer.from(content)
+    const header = Buffer.alloc(512)
+    header.write(`acme-app-1a2b3c/${path}`, 0, 100)
+    header.write(`${data.length.toString(8).padStart(11, "0")}\0`, 124)
+    header.write("0", 156)
+    header.write("ustar\0", 257)
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512))
+  }
+  blocks.push(Buffer.alloc(1024))
+  return gzipSync(Buffer.concat(blocks))
+}
+
+/** A project owned by user_1, and user_2 who doesn't own it. */
+async function setupProject() {
+  const t = convexTest(schema, import.meta.glob("./**/*.ts"))
+  const projectId = await t.run(async (ctx) => {
+    const now = Date.now()
+    for (const clerkUserId of ["user_1", "user_2"]) {
+      await ctx.db.insert("users", {
+        clerkUserId,
+        email: `${clerkUserId}@example.com`,
+        createdAt: now,
+      })
+    }
+    const owner = await ctx.db.query("users").first()
+    return await ctx.db.insert("projects", {
+      userId: owner!._id,
+      name: "Project",
+      framework: "react",
+      templateUrl: "",
+      createdAt: now,
+      lastModified: now,
+    })
+  })
+  return { t, projectId }
+}
+
+describe("fetchRepositoryFiles", () => {
+  let server: Server
+  let baseUrl: string
+  // Request paths mapped to what the server sends back
+  let routes: Map<string, (res: ServerResponse) => void>
+  let requested: string[]
+  // Paths of the requests that carried an Authorization header
+  let authorized: string[]
+
+  const serve = (path: string, archive: Buffer) =>
+    routes.set(path, (res) => {
+      res.writeHead(200, { "Content-Type": "application/x-gzip" })
+      res.end(archive)
+    })
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requested.push(req.url ?? "")
+      if (req.headers.authorization) authorized.push(req.url ?? "")
+      const route = routes.get(req.url ?? "")
+      if (route) {
+        route(res)
+      } else {
+        res.writeHead(404).end()
+      }
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    process.env.GITHUB_API_URL = baseUrl
+  })
+
+  afterAll(async () => {
+    delete process.env.GITHUB_API_URL
+    server.closeAllConnections()
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    routes = new Map()
+    requested = []
+    authorized = []
+  })
+
+  it("imports a repository's default branch", async () => {
+    serve(
+      "/repos/acme/app/tarball",
+      tarball({
+        "package.json": "{}",
+        "src/App.tsx": "export default 1",
+        "public/logo.png": Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 1]),
+      }),
+    )
+
+    const result = await fetchRepositoryFiles("acme/app")
+
+    expect(result.templateUrl).toBe("https://github.com/acme/app")
+    expect(result.files).toEqual([
+      { path: "package.json", content: "{}" },
+      { path: "src/App.tsx", content: "export default 1" },
+    ])
+    expect(result.assets.map((asset) => asset.path)).toEqual([
+      "public/logo.png",
+    ])
+    expect(result.skipped).toEqual([])
+  })
+
+  it("leaves out ignored, oversized and unsafe files", async () => {
+    serve(
+      "/repos/acme/app/tarball",
+      tarball({
+        "index.js": "ok",
+        "node_modules/left-pad/index.js": "module.exports = 1",
+        ".git/config": "[core]",
+        "dist/bundle.js": "built",
+        "yarn.lock": "# lockfile",
+        "package-lock.json": "{}",
+        "data/huge.json": "x".repeat(600 * 1024),
+        "../escape.js": "nope",
+      }),
+    )
+
+    const result = await fetchRepositoryFiles("acme/app")
+
+    expect(result.files.map((file) => file.path)).toEqual(["index.js"])
+    expect(result.skipped).toEqual([
+      { path: "data/huge.json", reason: "too-large" },
+      { path: "../escape.js", reason: "unsafe-path" },
+    ])
+  })
+
+  it("downloads the branch and subdirectory of a tree URL", async () => {
+    serve(
+      "/repos/acme/app/tarball/dev",
+      tarball({
+        "README.md": "root",
+        "apps/web/index.html": "<html></html>",
+        "apps/web/src/main.ts": "main()",
+        "apps/api/server.ts": "listen()",
+      }),
+    )
+
+    const result = await fetchRepositoryFiles(
+      "https://github.com/acme/app/tree/dev/apps/web",
+    )
+
+    expect(requested).toEqual(["/repos/acme/app/tarball/dev"])
+    expect(result.templateUrl).toBe(
+      "https://github.com/acme/app/tree/dev/apps/web",
+    )
+    expect(result.files.map((file) => file.path)).toEqual([
+      "index.html",
+      "src/main.ts",
+    ])
+  })
+
+  it("lets the branch and subdirectory options override the URL", async () => {
+    serve(
+      "/repos/acme/app/tarball/release/v2",
+      tarball({ "docs/guide.md": "# Guide", "src/index.ts": "" }),
+    )
+
+    const result = await fetchRepositoryFiles(
+      "https://github.com/acme/app/tree/main/src",
+      { branch: "release/v2", subdirectory: "docs" },
+    )
+
+    expect(requested).toEqual(["/repos/acme/app/tarball/release/v2"])
+    expect(result.templateUrl).toBe(
+      "https://github.com/acme/app/tree/release/v2/docs",
+    )
+    expect(result.files).toEqual([{ path: "guide.md", content: "# Guide" }])
+  })
+
+  it("fails for a missing subdirectory or branch", async () => {
+    serve("/repos/acme/app/tarball", tarball({ "index.js": "" }))
+
+    await expect(
+      fetchRepositoryFiles("acme/app", { subdirectory: "packages/ui" }),
+    ).rejects.toThrow("Subdirectory not found: packages/ui")
+    await expect(
+      fetchRepositoryFiles("acme/app", { branch: "missing" }),
+    ).rejects.toThrow("Repository, branch or archive not found")
+  })
+
+  it("imports direct archive links", async () => {
+    serve("/downloads/starter.tar.gz", tarball({ "main.py": "print(1)" }))
+
+    const result = await fetchRepositoryFiles(
+      `${baseUrl}/downloads/starter.tar.gz`,
+    )
+
+    expect(result.templateUrl).toBe(`${baseUrl}/downloads/starter.tar.gz`)
+    expect(result.files).toEqual([{ path: "main.py", content: "print(1)" }])
+  })
+
+  it("only sends the GitHub token to GitHub", async () => {
+    process.env.GITHUB_TOKEN = "secret"
+    try {
+      serve("/repos/acme/app/tarball", tarball({ "index.html": "" }))
+      serve("/downloads/starter.tar.gz", tarball({ "main.py": "print(1)" }))
+
+      await fetchRepositoryFiles("acme/app")
+      await fetchRepositoryFiles(`${baseUrl}/downloads/starter.tar.gz`)
+    } finally {
+      delete process.env.GITHUB_TOKEN
+    }
+
+    expect(requested).toEqual([
+      "/repos/acme/app/tarball",
+      "/downloads/starter.tar.gz",
+    ])
+    expect(authorized).toEqual(["/repos/acme/app/tarball"])
+  })
+
+  it("rejects archives declared larger than the limit", async () => {
+    routes.set("/repos/acme/app/tarball", (res) => {
+      res.writeHead(200, { "Content-Length": String(MAX_ARCHIVE_BYTES + 1) })
+      res.write(Buffer.alloc(1))
+    })
+
+    await expect(fetchRepositoryFiles("acme/app")).rejects.toThrow(
+      `Archive is larger than ${MAX_ARCHIVE_BYTES} bytes`,
+    )
+  })
+
+  it("stops reading streamed archives at the limit", async () => {
+    routes.set("/repos/acme/app/tarball", (res) => {
+      // Chunked, so the size is only known while reading
+      res.writeHead(200)
+      res.on("error", () => {})
+      const chunk = Buffer.alloc(1024 * 1024)
+      let sent = 0
+      const send = () => {
+        while (sent <= MAX_ARCHIVE_BYTES && !res.destroyed) {
+          sent += chunk.length
+          if (!res.write(chunk)) return res.once("drain", send)
+        }
+        res.end()
+      }
+      send()
+    })
+
+    await expect(fetchRepositoryFiles("acme/app")).rejects.toThrow(
+      `Archive is larger than ${MAX_ARCHIVE_BYTES} bytes`,
+    )
+  })
+
+  it("rejects repositories with too many files", async () => {
+    const files: Record<string, string> = {}
+    for (let i = 0; i <= MAX_FILES; i++) files[`src/file${i}.ts`] = ""
+    serve("/repos/acme/app/tarball", tarball(files))
+
+    await expect(fetchRepositoryFiles("acme/app")).rejects.toThrow(
+      `Project has more than ${MAX_FILES} files`,
+    )
+  })
+
+  it("rejects repositories whose files add up to too much", async () => {
+    const fileBytes = 500 * 1024
+    const files: Record<string, string> = {}
+    for (let i = 0; i * fileBytes <= MAX_TOTAL_BYTES; i++) {
+      files[`data/part${i}.txt`] = "x".repeat(fileBytes)
+    }
+    serve("/repos/acme/app/tarball", tarball(files))
+
+    await expect(fetchRepositoryFiles("acme/app")).rejects.toThrow(
+      `Project files add up to more than ${MAX_TOTAL_BYTES} bytes`,
+    )
+  })
+
+  it("checks who is importing before downloading", async () => {
+    serve("/repos/acme/app/tarball", tarball({ "index.html": "" }))
+    const { t, projectId } = await setupProject()
+
+    await expect(
+      t.action(api.templateImport.importRepository, {
+        projectId,
+        url: "acme/app",
+      }),
+    ).rejects.toThrow("Unauthorized")
+    await expect(
+      t
+        .withIdentity({ subject: "user_2" })
+        .action(api.templateImport.importRepository, {
+          projectId,
+          url: "acme/app",
+        }),
+    ).rejects.toThrow("Unauthorized")
+
+    expect(requested).toEqual([])
+  })
+})
+
+describe("importArchive", () => {
+  it("leaves uploads alone for callers who don't own the project", async () => {
+    const { t, projectId } = await setupProject()
+    const storageId = await t.run((ctx) =>
+      ctx.storage.store(
+        new Blob([new Uint8Array(tarball({ "index.html": "" }))]),
+      ),
+    )
+
+    await expect(
+      t
+        .withIdentity({ subject: "user_2" })
+        .action(api.templateImport.importArchive, {
+          projectId,
+          storageId,
+          fileName: "starter.tar.gz",
+        }),
+    ).rejects.toThrow("Unauthorized")
+
+    expect(
+      await t.run(async (ctx) => (await ctx.storage.get(storageId)) !== null),
+    ).toBe(true)
+  })
+
+  it("doesn't delete blobs that project files point at", async () => {
+    const { t, projectId } = await setupProject()
+    const storageId = await t.run(async (ctx) => {
+      const storageId = await ctx.storage.store(new Blob(["not an archive"]))
+      await ctx.db.insert("files", {
+        projectId,
+        path: "public/logo.png",
+        content: "",
+        storageId,
+        version: 1,
+        lastModified: Date.now(),
+      })
+      return storageId
+    })
+
+    await expect(
+      t
+        .withIdentity({ subject: "user_1" })
+        .action(api.templateImport.importArchive, {
+          projectId,
+          storageId,
+          fileName: "logo.tar.gz",
+        }),
+    ).rejects.toThrow()
+
+    expect(
+      await t.run(async (ctx) => (await ctx.storage.get(storageId)) !== null),
+    ).toBe(true)
+  })
+})
@@ -0,0 +1,462 @@
+"use node"
+
+import { action, type ActionCtx } from "./_generated/server"
+import { v } from "convex/values"
+import { api } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+import { extractTarGz, extractZip, type ArchiveEntry } from "./archives"
+import { shouldIgnore } from "./importFilters"
+import { getContentType } from "./contentTypes"
+import {
+  detectTemplateId,
+  type StarterFile,
+  type TemplateId,
+} from "./templateRegistry"
+
+/**
+ * Template Import
+ *
+ * Turns a GitHub repository (optionally a branch and subdirectory), a
+ * direct .tar.gz/.zip link, or an uploaded archive into project files.
+ * Binary files such as images and fonts go to file storage.
+ * GitHub is read through its tarball endpoint, so every source goes
+ * through the same archive path.
+ *
+ * GITHUB_API_URL points the importer at another server (e.g. a local
+ * fixture serving /repos/:owner/:repo/tarball/:ref), GITHUB_TOKEN raises
+ * the rate limit and allows private repositories.
+ */
+
+const DEFAULT_GITHUB_API_URL = "https://api.github.com"
+
+// Size of the downloaded or uploaded archive
+export const MAX_ARCHIVE_BYTES = 25 * 1024 * 1024
+// Everything the archive unpacks to, including ignored files
+const MAX_UNPACKED_BYTES = 200 * 1024 * 1024
+// Larger files are skipped rather than failing the import
+const MAX_FILE_BYTES = 512 * 1024
+const MAX_ASSET_BYTES = 5 * 1024 * 1024
+// Imported project files, after filtering
+export const MAX_TOTAL_BYTES = 8 * 1024 * 1024
+const MAX_TOTAL_ASSET_BYTES = 50 * 1024 * 1024
+export const MAX_FILES = 2000
+
+// Keeps each createFiles call well under Convex's mutation limits
+const BATCH_BYTES = 2 * 1024 * 1024
+const BATCH_FILES = 500
+
+export type RepositorySource =
+  | { kind: "github"; owner: string; repo: string; ref?: string; path?: string }
+  | { kind: "archive"; url: string }
+
+export interface SkippedFile {
+  path: string
+  reason: "too-large" | "unsafe-path"
+}
+
+export interface ImportFiles {
+  files: StarterFile[]
+  assets: Array<{ path: string; data: Buffer }>
+  skipped: SkippedFile[]
+}
+
+export interface ImportResult {
+  fileCount: number
+  skipped: SkippedFile[]
+  templateId: TemplateId
+}
+
+/**
+ * Accepts "owner/repo", github.com repository and /tree/<ref>/<path>
+ * URLs, and direct links to .tar.gz, .tgz or .zip files.
+ */
+export function parseRepositoryUrl(input: string): RepositorySource {
+  const trimmed = input.trim()
+
+  const shorthand = /^([\w.-]+)\/([\w.-]+)$/.exec(trimmed)
+  if (shorthand) {
+    return {
+      kind: "github",
+      owner: shorthand[1],
+      repo: shorthand[2].replace(/\.git$/, ""),
+    }
+  }
+
+  let url: URL
+  try {
+    url = new URL(trimmed)
+  } catch {
+    throw new Error(`Not a repository URL: ${input}`)
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error(`Unsupported URL protocol: ${url.protocol}`)
+  }
+
+  if (/\.(tar\.gz|tgz|zip)$/i.test(url.pathname)) {
+    return { kind: "archive", url: url.toString() }
+  }
+
+  if (url.hostname !== "github.com" && url.hostname !== "www.github.com") {
+    throw new Error(
+      "Only GitHub repositories or direct .tar.gz/.zip links can be imported",
+    )
+  }
+
+  const [owner, repo, marker, ref, ...path] = url.pathname
+    .split("/")
+    .filter(Boolean)
+  if (!owner || !repo) {
+    throw new Error(`Not a repository URL: ${input}`)
+  }
+
+  return {
+    kind: "github",
+    owner,
+    repo: repo.replace(/\.git$/, ""),
+    // Refs containing slashes can't be told apart from the path here,
+    // pass them as the branch argument instead
+    ref: marker === "tree" ? ref : undefined,
+    path: marker === "tree" && path.length > 0 ? path.join("/") : undefined,
+  }
+}
+
+function githubTarballUrl(owner: string, repo: string, ref?: string): string {
+  const base = (process.env.GITHUB_API_URL || DEFAULT_GITHUB_API_URL).replace(
+    /\/+$/,
+    "",
+  )
+  const refPath = ref
+    ? `/${ref.split("/").map(encodeURIComponent).join("/")}`
+    : ""
+  return `${base}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/tarball${refPath}`
+}
+
+/**
+ * Headers for the GitHub API. The token must not go anywhere else, direct
+ * archive links can point at any server.
+ */
+function githubHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: "application/vnd.github+json",
+  }
+  if (process.env.GITHUB_TOKEN) {
+    headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`
+  }
+  return headers
+}
+
+async function downloadArchive(
+  url: string,
+  headers: Record<string, string> = {},
+): Promise<Buffer> {
+  console.log(`Downloading ${url}...`)
+
+  const response = await fetch(url, {
+    headers: { ...headers, "User-Agent": "code-agent-template-importer" },
+  })
+  if (response.status === 404) {
+    throw new Error("Repository, branch or archive not found")
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Download failed: ${response.status} ${response.statusText}`,
+    )
+  }
+
+  const declared = Number(response.headers.get("content-length"))
+  if (declared > MAX_ARCHIVE_BYTES) {
+    throw new Error(`Archive is larger than ${MAX_ARCHIVE_BYTES} bytes`)
+  }
+
+  // Count while reading, content-length is missing for streamed tarballs
+  const chunks: Buffer[] = []
+  let received = 0
+  if (response.body) {
+    const reader = response.body.getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      received += value.byteLength
+      if (received > MAX_ARCHIVE_BYTES) {
+        await reader.cancel()
+        throw new Error(`Archive is larger than ${MAX_ARCHIVE_BYTES} bytes`)
+      }
+      chunks.push(Buffer.from(value))
+    }
+  }
+
+  return Buffer.concat(chunks)
+}
+
+function extractArchive(archive: Buffer): ArchiveEntry[] {
+  const options = {
+    maxFileBytes: MAX_ASSET_BYTES,
+    maxUnpackedBytes: MAX_UNPACKED_BYTES,
+  }
+
+  if (archive[0] === 0x1f && archive[1] === 0x8b) {
+    return extractTarGz(archive, options)
+  }
+  if (archive.length >= 4 && archive.readUInt32LE(0) === 0x04034b50) {
+    return extractZip(archive, options)
+  }
+  throw new Error("Unsupported archive, expected .tar.gz or .zip")
+}
+
+/**
+ * Relative path inside the project, or null for anything that could
+ * escape it.
+ */
+function normalizePath(path: string): string | null {
+  const segments = path.replace(/\\/g, "/").replace(/^\.\//, "").split("/")
+  if (
+    path.startsWith("/") ||
+    segments.some((segment) => segment === ".." || segment === "")
+  ) {
+    return null
+  }
+  return segments.join("/")
+}
+
+/**
+ * Strip the archive's root folder and select the subdirectory, then filter
+ * what remains into project files.
+ */
+export function collectImportFiles(
+  entries: ArchiveEntry[],
+  subdirectory?: string,
+): ImportFiles {
+  let paths = entries.map((entry) => entry.path.replace(/^\.\//, ""))
+
+  // GitHub tarballs and most zipped folders wrap everything in one folder
+  const roots = new Set(paths.map((path) => path.split("/")[0]))
+  if (roots.size === 1 && paths.every((path) => path.includes("/"))) {
+    paths = paths.map((path) => path.slice(path.indexOf("/") + 1))
+  }
+
+  const prefix = subdirectory?.replace(/^\/+|\/+$/g, "")
+  if (prefix) {
+    const inside = paths.some((path) => path.startsWith(`${prefix}/`))
+    if (!inside) throw new Error(`Subdirectory not found: ${prefix}`)
+  }
+
+  const files: StarterFile[] = []
+  const assets: Array<{ path: string; data: Buffer }> = []
+  const skipped: SkippedFile[] = []
+  let totalBytes = 0
+  let totalAssetBytes = 0
+
+  entries.forEach((entry, index) => {
+    let path = paths[index]
+    if (prefix) {
+      if (!path.startsWith(`${prefix}/`)) return
+      path = path.slice(prefix.length + 1)
+    }
+
+    if (shouldIgnore(path)) return
+
+    const safePath = normalizePath(path)
+    if (!safePath) {
+      skipped.push({ path, reason: "unsafe-path" })
+      return
+    }
+    if (!entry.data) {
+      skipped.push({ path: safePath, reason: "too-large" })
+      return
+    }
+    if (files.length + assets.length >= MAX_FILES) {
+      throw new Error(`Project has more than ${MAX_FILES} files`)
+    }
+
+    // Same check as the template script: null bytes mean binary
+    if (entry.data.includes(0)) {
+      totalAssetBytes += entry.data.length
+      if (totalAssetBytes > MAX_TOTAL_ASSET_BYTES) {
+        throw new Error(
+          `Binary files add up to more than ${MAX_TOTAL_ASSET_BYTES} bytes`,
+        )
+      }
+      assets.push({ path: safePath, data: entry.data })
+      return
+    }
+
+    if (entry.data.length > MAX_FILE_BYTES) {
+      skipped.push({ path: safePath, reason: "too-large" })
+      return
+    }
+
+    totalBytes += entry.data.length
+    if (totalBytes > MAX_TOTAL_BYTES) {
+      throw new Error(
+        `Project files add up to more than ${MAX_TOTAL_BYTES} bytes`,
+      )
+    }
+    files.push({ path: safePath, content: entry.data.toString("utf8") })
+  })
+
+  if (files.length === 0 && assets.length === 0) {
+    throw new Error("Archive contains no importable files")
+  }
+
+  return { files, assets, skipped }
+}
+
+/**
+ * Download a repository or archive link and pick out the files to import.
+ * The branch and subdirectory override what the URL specifies.
+ */
+export async function fetchRepositoryFiles(
+  url: string,
+  options: { branch?: string; subdirectory?: string } = {},
+): Promise<ImportFiles & { templateUrl: string }> {
+  const source = parseRepositoryUrl(url)
+
+  if (source.kind === "archive") {
+    const archive = await downloadArchive(source.url)
+    return {
+      ...collectImportFiles(extractArchive(archive), options.subdirectory),
+      templateUrl: source.url,
+    }
+  }
+
+  const ref = options.branch || source.ref
+  const subdirectory = options.subdirectory || source.path
+  const archive = await downloadArchive(
+    githubTarballUrl(source.owner, source.repo, ref),
+    githubHeaders(),
+  )
+
+  const templateUrl = `https://github.com/${source.owner}/${source.repo}${
+    ref || subdirectory ? `/tree/${ref ?? "HEAD"}` : ""
+  }${subdirectory ? `/${subdirectory}` : ""}`
+
+  return {
+    ...collectImportFiles(extractArchive(archive), subdirectory),
+    templateUrl,
+  }
+}
+
+async function importIntoProject(
+  ctx: ActionCtx,
+  projectId: Id<"projects">,
+  { files, assets, skipped }: ImportFiles,
+  templateUrl: string,
+): Promise<ImportResult> {
+  const existing = await ctx.runQuery(api.files.getFiles, { projectId })
+  if (existing.length > 0) {
+    throw new Error("Project already has files")
+  }
+
+  let batch: StarterFile[] = []
+  let batchBytes = 0
+  const flush = async () => {
+    if (batch.length === 0) return
+    await ctx.runMutation(api.files.createFiles, { projectId, files: batch })
+    batch = []
+    batchBytes = 0
+  }
+
+  for (const file of files) {
+    if (batch.length >= BATCH_FILES || batchBytes >= BATCH_BYTES) {
+      await flush()
+    }
+    batch.push(file)
+    batchBytes += file.content.length
+  }
+  await flush()
+
+  for (const asset of assets) {
+    const storageId = await ctx.storage.store(
+      new Blob([new Uint8Array(asset.data)], {
+        type: getContentType(asset.path),
+      }),
+    )
+    await ctx.runMutation(api.files.writeBinaryFile, {
+      projectId,
+      path: asset.path,
+      storageId,
+      author: "import",
+    })
+  }
+
+  const templateId = detectTemplateId(files)
+  await ctx.runMutation(api.projects.updateProjectTemplate, {
+    projectId,
+    templateId,
+    templateUrl,
+  })
+
+  console.log(
+    `Imported ${files.length} files and ${assets.length} binary files into project ${projectId} (${skipped.length} skipped)`,
+  )
+
+  return { fileCount: files.length + assets.length, skipped, templateId }
+}
+
+export const importRepository = action({
+  args: {
+    projectId: v.id("projects"),
+    url: v.string(),
+    // Override what the URL specifies
+    branch: v.optional(v.string()),
+    subdirectory: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<ImportResult> => {
+    // Before fetching anything on the caller's behalf
+    if (
+      !(await ctx.runQuery(api.projects.getProject, {
+        projectId: args.projectId,
+      }))
+    ) {
+      throw new Error("Unauthorized")
+    }
+
+    const { templateUrl, ...files } = await fetchRepositoryFiles(args.url, {
+      branch: args.branch,
+      subdirectory: args.subdirectory,
+    })
+    return await importIntoProject(ctx, args.projectId, files, templateUrl)
+  },
+})
+
+export const importArchive = action({
+  args: {
+    projectId: v.id("projects"),
+    // Uploaded through projects.generateArchiveUploadUrl
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+    subdirectory: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<ImportResult> => {
+    if (
+      !(await ctx.runQuery(api.projects.getProject, {
+        projectId: args.projectId,
+      }))
+    ) {
+      throw new Error("Unauthorized")
+    }
+
+    try {
+      const blob = await ctx.storage.get(args.storageId)
+      if (!blob) throw new Error("Uploaded archive not found")
+      if (blob.size > MAX_ARCHIVE_BYTES) {
+        throw new Error(`Archive is larger than ${MAX_ARCHIVE_BYTES} bytes`)
+      }
+
+      const archive = Buffer.from(await blob.arrayBuffer())
+      return await importIntoProject(
+        ctx,
+        args.projectId,
+        collectImportFiles(extractArchive(archive), args.subdirectory),
+        `upload:${args.fileName}`,
+      )
+    } finally {
+      // The archive is only needed for the import
+      await ctx.runMutation(api.projects.discardArchiveUpload, {
+        projectId: args.projectId,
+        storageId: args.storageId,
+      })
+    }
+  },
+})
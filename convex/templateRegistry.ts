@@ -0,0 +1,135 @@
+import { v, type Infer } from "convex/values"
+import { query } from "./_generated/server"
+import type { Doc } from "./_generated/dataModel"
+
+/**
+ * Template Registry
+ *
+ * Starters a project can be created from, and how each one is installed
+ * and served in the sandbox. The files themselves live in convex/starters
+ * and are only loaded by templates.cloneTemplate.
+ */
+
+export const templateIdValidator = v.union(
+  v.literal("vite-react"),
+  v.literal("nextjs-app"),
+  v.literal("html"),
+)
+
+export type TemplateId = Infer<typeof templateIdValidator>
+
+export const frameworkValidator = v.union(
+  v.literal("react"),
+  v.literal("nextjs"),
+  v.literal("html"),
+)
+
+export type Framework = Infer<typeof frameworkValidator>
+
+export interface StarterFile {
+  path: string
+  content: string
+}
+
+export interface Template {
+  id: TemplateId
+  name: string
+  description: string
+  framework: Framework
+  // Where the files were taken from, stored on the project for reference
+  sourceUrl: string
+  installCommand: string
+  // Must listen on 0.0.0.0 so the sandbox can expose the port
+  devCommand: string
+  previewPort: number
+}
+
+export const TEMPLATES: Template[] = [
+  {
+    id: "vite-react",
+    name: "Vite + React",
+    description: "React, TypeScript, Tailwind CSS and shadcn/ui on Vite",
+    framework: "react",
+    sourceUrl: "https://github.com/aadithya2112/code-agent-react-starter",
+    installCommand: "npm install",
+    devCommand: "DANGEROUSLY_DISABLE_HOST_CHECK=true npm run dev",
+    previewPort: 5173,
+  },
+  {
+    id: "nextjs-app",
+    name: "Next.js",
+    description: "Next.js App Router with TypeScript and Tailwind CSS",
+    framework: "nextjs",
+    sourceUrl: "https://nextjs.org/docs/app/getting-started/installation",
+    installCommand: "npm install",
+    devCommand: "npm run dev",
+    previewPort: 3000,
+  },
+  {
+    id: "html",
+    name: "HTML, CSS & JavaScript",
+    description: "A static page with no build step",
+    framework: "html",
+    sourceUrl: "https://github.com/vercel/serve",
+    installCommand: "npm install",
+    // Not a package script so imported static sites without one work too
+    devCommand: "npx --yes serve --listen tcp://0.0.0.0:8080 --no-clipboard .",
+    previewPort: 8080,
+  },
+]
+
+export const DEFAULT_TEMPLATE_ID: TemplateId = "vite-react"
+
+export function getTemplate(id: TemplateId): Template {
+  const template = TEMPLATES.find((t) => t.id === id)
+  if (!template) throw new Error(`Unknown template: ${id}`)
+  return template
+}
+
+/**
+ * Template a project was created from. Projects created before templates
+ * were selectable fall back to the default starter for their framework.
+ */
+export function getProjectTemplate(project: Doc<"projects">): Template {
+  if (project.templateId) return getTemplate(project.templateId)
+  return (
+    TEMPLATES.find((t) => t.framework === project.framework) ??
+    getTemplate(DEFAULT_TEMPLATE_ID)
+  )
+}
+
+/**
+ * Closest template for files that didn't come from the registry, used to
+ * pick install and dev commands for imported repositories.
+ */
+export function detectTemplateId(files: StarterFile[]): TemplateId {
+  const packageJson = files.find((f) => f.path === "package.json")
+  if (!packageJson) {
+    return files.some((f) => f.path === "index.html")
+      ? "html"
+      : DEFAULT_TEMPLATE_ID
+  }
+
+  let dependencies: Record<string, unknown> = {}
+  try {
+    const manifest = JSON.parse(packageJson.content)
+    dependencies = { ...manifest.dependencies, ...manifest.devDependencies }
+  } catch {
+    // Unparseable manifests fall through to the default
+  }
+
+  if ("next" in dependencies) return "nextjs-app"
+  return DEFAULT_TEMPLATE_ID
+}
+
+export const listTemplates = query({
+  args: {},
+  handler: async () => {
+    return TEMPLATES.map((template) => ({
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      framework: template.framework,
+    }))
+  },
+})
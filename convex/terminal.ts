@@ -0,0 +1,209 @@
+"use node"
+
+import { action, type ActionCtx } from "./_generated/server"
+import type { Id } from "./_generated/dataModel"
+import { v } from "convex/values"
+import { api } from "./_generated/api"
+import { getSandboxProvider } from "./sandboxProvider"
+
+/**
+ * Terminal
+ *
+ * PTYs in the project's sandbox, driven from the Terminal tab. A shell
+ * keeps running between actions: each streamTerminal call attaches to it
+ * for a while and writes what it prints to terminalOutput, and the browser
+ * calls it again when it returns.
+ */
+
+// How long one action streams before handing over, well within Convex's
+// action time limit
+const STREAM_DURATION_MS = 5 * 60_000
+
+// How often buffered output is written
+const OUTPUT_FLUSH_INTERVAL_MS = 100
+
+async function connectToSession(
+  ctx: ActionCtx,
+  sessionId: Id<"terminalSessions">,
+) {
+  const session = await ctx.runQuery(api.terminalSessions.getTerminalSession, {
+    sessionId,
+  })
+  if (!session) throw new Error("Terminal session not found")
+
+  const sandbox = await getSandboxProvider().connect(session.sandboxId)
+  return { session, sandbox }
+}
+
+/**
+ * Stream a session's output until its shell exits or this action's time
+ * is up, starting the shell first if it hasn't been yet.
+ *
+ * "exited" means the shell is gone, "handover" that the caller should
+ * call again to keep streaming, and "busy" that another action is
+ * streaming it until `retryAt`.
+ */
+export const streamTerminal = action({
+  args: {
+    sessionId: v.id("terminalSessions"),
+  },
+  handler: async (
+    ctx,
+    { sessionId },
+  ): Promise<{ status: "exited" | "handover" | "busy"; retryAt?: number }> => {
+    const deadline = Date.now() + STREAM_DURATION_MS
+    const claimed = await ctx.runMutation(
+      api.terminalSessions.claimTerminalStream,
+      { sessionId, until: deadline + OUTPUT_FLUSH_INTERVAL_MS * 10 },
+    )
+    if (!claimed) {
+      const session = await ctx.runQuery(
+        api.terminalSessions.getTerminalSession,
+        { sessionId },
+      )
+      return session && session.status !== "exited"
+        ? { status: "busy", retryAt: session.streamingUntil }
+        : { status: "exited" }
+    }
+
+    // Output is decoded as a stream, so characters split across chunks
+    // come out whole, and written in batches
+    const decoder = new TextDecoder()
+    let buffered = ""
+    let flushing: Promise<void> = Promise.resolve()
+    const flush = () => {
+      const data = buffered
+      buffered = ""
+      flushing = flushing.then(async () => {
+        if (!data) return
+        try {
+          await ctx.runMutation(api.terminalSessions.appendTerminalOutput, {
+            sessionId,
+            data,
+          })
+        } catch (error) {
+          console.warn("Failed to write terminal output:", error)
+        }
+      })
+      return flushing
+    }
+    const onData = (data: Uint8Array) => {
+      buffered += decoder.decode(data, { stream: true })
+    }
+
+    let exited = false
+    let exitCode: number | undefined
+    const flushTimer = setInterval(flush, OUTPUT_FLUSH_INTERVAL_MS)
+    try {
+      const { session, sandbox } = await connectToSession(ctx, sessionId)
+
+      // The shell lives until it exits or is closed
+      const handle =
+        session.pid === undefined
+          ? await sandbox.openTerminal({
+              cols: session.cols,
+              rows: session.rows,
+              envs: { TERM: "xterm-256color" },
+              onData,
+            })
+          : await sandbox.attachTerminal(session.pid, onData)
+      if (session.pid === undefined) {
+        await ctx.runMutation(api.terminalSessions.startTerminalSession, {
+          sessionId,
+          pid: handle.pid,
+        })
+      }
+
+      let timer: NodeJS.Timeout | undefined
+      const timeUp = new Promise<"handover">((resolve) => {
+        timer = setTimeout(() => resolve("handover"), deadline - Date.now())
+      })
+      const result = await Promise.race([handle.wait(), timeUp])
+      clearTimeout(timer)
+
+      if (result === "handover") {
+        // Detach only; the shell keeps running for the next action
+        await handle.disconnect()
+      } else {
+        exited = true
+        exitCode = result.exitCode
+        buffered += `\r\n[Process exited with code ${exitCode}]\r\n`
+      }
+    } catch (error) {
+      // The sandbox or the shell is gone
+      console.error(`Terminal session ${sessionId} failed:`, error)
+      exited = true
+      buffered += `\r\n[Terminal disconnected: ${
+        error instanceof Error ? error.message : "unknown error"
+      }]\r\n`
+    } finally {
+      clearInterval(flushTimer)
+      buffered += decoder.decode()
+      await flush()
+      await ctx.runMutation(api.terminalSessions.finishTerminalStream, {
+        sessionId,
+        exited,
+        exitCode,
+      })
+    }
+
+    return { status: exited ? "exited" : "handover" }
+  },
+})
+
+export const sendTerminalInput = action({
+  args: {
+    sessionId: v.id("terminalSessions"),
+    data: v.string(),
+  },
+  handler: async (ctx, { sessionId, data }): Promise<void> => {
+    const { session, sandbox } = await connectToSession(ctx, sessionId)
+    if (session.pid === undefined) throw new Error("Terminal is starting")
+
+    await sandbox.sendTerminalInput(session.pid, new TextEncoder().encode(data))
+  },
+})
+
+export const resizeTerminal = action({
+  args: {
+    sessionId: v.id("terminalSessions"),
+    cols: v.number(),
+    rows: v.number(),
+  },
+  handler: async (ctx, { sessionId, cols, rows }): Promise<void> => {
+    // Stored first, so a shell that is still starting gets the new size
+    await ctx.runMutation(api.terminalSessions.resizeTerminalSession, {
+      sessionId,
+      cols,
+      rows,
+    })
+
+    const { session, sandbox } = await connectToSession(ctx, sessionId)
+    if (session.pid === undefined || session.status === "exited") return
+    await sandbox.resizeTerminal(session.pid, { cols, rows })
+  },
+})
+
+/**
+ * Kill a session's shell and delete the session with its output.
+ */
+export const closeTerminal = action({
+  args: {
+    sessionId: v.id("terminalSessions"),
+  },
+  handler: async (ctx, { sessionId }): Promise<void> => {
+    try {
+      const { session, sandbox } = await connectToSession(ctx, sessionId)
+      if (session.pid !== undefined && session.status !== "exited") {
+        await sandbox.killProcess(session.pid)
+      }
+    } catch (error) {
+      // The sandbox may be gone already, the session is deleted regardless
+      console.warn(`Failed to kill terminal session ${sessionId}:`, error)
+    }
+
+    await ctx.runMutation(api.terminalSessions.deleteTerminalSession, {
+      sessionId,
+    })
+  },
+})
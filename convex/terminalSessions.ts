@@ -0,0 +1,358 @@
+import { v } from "convex/values"
+import { mutation, query } from "./_generated/server"
+
+/**
+ * Terminal Sessions
+ *
+ * Shells opened from the Terminal tab. The PTY runs in the sandbox; its
+ * output is streamed into terminalOutput by the actions in terminal.ts,
+ * and the browser renders it from there.
+ */
+
+// Output chunks kept per session, roughly a few screens of scrollback
+const MAX_OUTPUT_CHUNKS = 500
+
+export const getTerminalSessions = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) return []
+
+    return await ctx.db
+      .query("terminalSessions")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect()
+  },
+})
+
+export const getTerminalSession = query({
+  args: { sessionId: v.id("terminalSessions") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return null
+
+    const session = await ctx.db.get(args.sessionId)
+    if (!session) return null
+
+    // Verify project access
+    const project = await ctx.db.get(session.projectId)
+    if (!project) return null
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) return null
+
+    return session
+  },
+})
+
+/**
+ * The output a session has kept, oldest first.
+ */
+export const getTerminalOutput = query({
+  args: { sessionId: v.id("terminalSessions") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) return []
+
+    const session = await ctx.db.get(args.sessionId)
+    if (!session) return []
+
+    // Verify project access
+    const project = await ctx.db.get(session.projectId)
+    if (!project) return []
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) return []
+
+    return await ctx.db
+      .query("terminalOutput")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect()
+  },
+})
+
+export const createTerminalSession = mutation({
+  args: {
+    projectId: v.id("projects"),
+    sandboxId: v.string(),
+    cols: v.number(),
+    rows: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    // Verify project access
+    const project = await ctx.db.get(args.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    // The shell runs in the sandbox, so it has to be this project's
+    const sandbox = await ctx.db
+      .query("sandboxes")
+      .withIndex("by_sandbox_id", (q) => q.eq("sandboxId", args.sandboxId))
+      .first()
+    if (
+      sandbox?.projectId !== args.projectId &&
+      project.sandboxId !== args.sandboxId
+    ) {
+      throw new Error("Unauthorized")
+    }
+
+    return await ctx.db.insert("terminalSessions", {
+      projectId: args.projectId,
+      sandboxId: args.sandboxId,
+      cols: args.cols,
+      rows: args.rows,
+      status: "starting",
+      lastSeq: 0,
+      createdAt: Date.now(),
+    })
+  },
+})
+
+/**
+ * Take over streaming a session's output until `until`. Returns false
+ * while another action holds it, or once the shell has exited.
+ */
+export const claimTerminalStream = mutation({
+  args: {
+    sessionId: v.id("terminalSessions"),
+    until: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const session = await ctx.db.get(args.sessionId)
+    if (!session) throw new Error("Terminal session not found")
+
+    // Verify project access
+    const project = await ctx.db.get(session.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    if (session.status === "exited") return false
+    if (session.streamingUntil && session.streamingUntil > Date.now()) {
+      return false
+    }
+
+    await ctx.db.patch(args.sessionId, { streamingUntil: args.until })
+    return true
+  },
+})
+
+/**
+ * Record the PTY a session's shell runs in, once it has started.
+ */
+export const startTerminalSession = mutation({
+  args: {
+    sessionId: v.id("terminalSessions"),
+    pid: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const session = await ctx.db.get(args.sessionId)
+    if (!session) throw new Error("Terminal session not found")
+
+    // Verify project access
+    const project = await ctx.db.get(session.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    await ctx.db.patch(args.sessionId, { pid: args.pid, status: "running" })
+  },
+})
+
+export const appendTerminalOutput = mutation({
+  args: {
+    sessionId: v.id("terminalSessions"),
+    data: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const session = await ctx.db.get(args.sessionId)
+    // Closed while output was still arriving
+    if (!session) return
+
+    // Verify project access
+    const project = await ctx.db.get(session.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const seq = session.lastSeq + 1
+    await ctx.db.insert("terminalOutput", {
+      sessionId: args.sessionId,
+      seq,
+      data: args.data,
+      createdAt: Date.now(),
+    })
+    await ctx.db.patch(args.sessionId, { lastSeq: seq })
+
+    // Drop the oldest chunks beyond the scrollback
+    const expired = await ctx.db
+      .query("terminalOutput")
+      .withIndex("by_session", (q) =>
+        q.eq("sessionId", args.sessionId).lte("seq", seq - MAX_OUTPUT_CHUNKS),
+      )
+      .collect()
+    for (const chunk of expired) {
+      await ctx.db.delete(chunk._id)
+    }
+  },
+})
+
+export const resizeTerminalSession = mutation({
+  args: {
+    sessionId: v.id("terminalSessions"),
+    cols: v.number(),
+    rows: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const session = await ctx.db.get(args.sessionId)
+    if (!session) throw new Error("Terminal session not found")
+
+    // Verify project access
+    const project = await ctx.db.get(session.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    await ctx.db.patch(args.sessionId, { cols: args.cols, rows: args.rows })
+  },
+})
+
+/**
+ * Release a session's stream, marking the shell as gone if it `exited`.
+ * An action that ran out of time only releases it.
+ */
+export const finishTerminalStream = mutation({
+  args: {
+    sessionId: v.id("terminalSessions"),
+    exited: v.boolean(),
+    exitCode: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const session = await ctx.db.get(args.sessionId)
+    if (!session) return
+
+    // Verify project access
+    const project = await ctx.db.get(session.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    await ctx.db.patch(args.sessionId, {
+      streamingUntil: undefined,
+      ...(args.exited ? { status: "exited", exitCode: args.exitCode } : {}),
+    })
+  },
+})
+
+export const deleteTerminalSession = mutation({
+  args: { sessionId: v.id("terminalSessions") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) throw new Error("Not authenticated")
+
+    const session = await ctx.db.get(args.sessionId)
+    if (!session) return
+
+    // Verify project access
+    const project = await ctx.db.get(session.projectId)
+    if (!project) throw new Error("Project not found")
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+      .first()
+
+    if (!user || project.userId !== user._id) {
+      throw new Error("Unauthorized")
+    }
+
+    const output = await ctx.db
+      .query("terminalOutput")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect()
+    for (const chunk of output) {
+      await ctx.db.delete(chunk._id)
+    }
+    await ctx.db.delete(args.sessionId)
+  },
+})
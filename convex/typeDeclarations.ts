@@ -0,0 +1,117 @@
+/**
+ * Type Declarations
+ *
+ * Collects the .d.ts files of a project's installed packages from the
+ * sandbox, so the editor's TypeScript service can type-check imports.
+ * Only direct dependencies and the packages their declarations depend on
+ * are included, within a size budget.
+ */
+
+export type TypeDeclarations = {
+  // Paths relative to the project root, e.g. "node_modules/react/index.d.ts"
+  files: { path: string; content: string }[]
+  truncated: boolean
+}
+
+// Per-file and total caps, keeping the result well under Convex's limit.
+// Icon libraries ship single declaration files of a few megabytes.
+const MAX_FILE_BYTES = 2.5 * 1024 * 1024
+const MAX_TOTAL_BYTES = 6 * 1024 * 1024
+
+/**
+ * Node script run in the project directory. Walks each package for .d.ts
+ * files, keeping only the package.json fields module resolution reads.
+ * Writes its result as JSON to the path given as its argument.
+ */
+export const COLLECT_TYPE_DECLARATIONS_SCRIPT = `
+const fs = require("fs")
+const path = require("path")
+
+const files = []
+let total = 0
+let truncated = false
+const visited = new Set()
+
+function readJson(file) {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"))
+  } catch {
+    return null
+  }
+}
+
+function add(file, content) {
+  if (content.length > ${MAX_FILE_BYTES}) return
+  if (total + content.length > ${MAX_TOTAL_BYTES}) {
+    truncated = true
+    return
+  }
+  total += content.length
+  files.push({ path: file, content })
+}
+
+function walk(dir) {
+  let entries
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true })
+  } catch {
+    return
+  }
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      // Nested installs are resolved from the package itself
+      if (entry.name !== "node_modules") walk(full)
+    } else if (/\\.d\\.(ts|mts|cts)$/.test(entry.name)) {
+      add(full, fs.readFileSync(full, "utf8"))
+    }
+  }
+}
+
+// Breadth first, so direct dependencies fit in the budget before the
+// packages they depend on
+const queue = []
+
+function enqueue(name) {
+  if (visited.has(name)) return
+  visited.add(name)
+  queue.push(name)
+}
+
+function addPackage(name) {
+  const dir = path.join("node_modules", name)
+  const pkg = readJson(path.join(dir, "package.json"))
+  if (!pkg) return
+
+  const { types, typings, main, module, exports, typesVersions } = pkg
+  add(
+    path.join(dir, "package.json"),
+    JSON.stringify({ name, types, typings, main, module, exports, typesVersions }),
+  )
+  walk(dir)
+
+  for (const dependency of Object.keys(pkg.dependencies || {})) {
+    enqueue(dependency)
+  }
+}
+
+// The editor brings its own TypeScript libs
+visited.add("typescript")
+
+// Runtime dependencies first, they're what the app's code imports
+const project = readJson("package.json") || {}
+const dependencies = [
+  ...Object.keys(project.dependencies || {}),
+  ...Object.keys(project.devDependencies || {}),
+]
+for (const name of dependencies) {
+  enqueue(name)
+  // Packages without bundled types ship them in @types
+  if (!name.startsWith("@types/")) {
+    enqueue("@types/" + name.replace(/^@/, "").replace("/", "__"))
+  }
+}
+while (queue.length > 0) addPackage(queue.shift())
+
+fs.writeFileSync(process.argv[2], JSON.stringify({ files, truncated }))
+`
@@ -0,0 +1,48 @@
+/**
+ * useDevServerLogs Hook
+ *
+ * Keeps the running dev server's output streaming into the preview
+ * console. Each action streams for a few minutes, so it's called again
+ * for as long as the same server process is running.
+ */
+
+import { useEffect } from "react"
+import { useAction } from "convex/react"
+import { api } from "@/convex/_generated/api"
+import { Id } from "@/convex/_generated/dataModel"
+
+// Wait before streaming again after a failure
+const STREAM_RETRY_DELAY_MS = 3000
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export function useDevServerLogs(
+  projectId: Id<"projects">,
+  devServerPid: number | undefined,
+) {
+  const streamLogs = useAction(api.devServerLogs.streamDevServerLogs)
+
+  useEffect(() => {
+    if (devServerPid === undefined) return
+    let stopped = false
+
+    ;(async () => {
+      while (!stopped) {
+        try {
+          const result = await streamLogs({ projectId })
+          if (result.status === "stopped") break
+          if (result.status === "busy") {
+            await sleep(Math.max((result.retryAt ?? 0) - Date.now(), 1000))
+          }
+        } catch (error) {
+          console.error("Dev server log stream failed:", error)
+          await sleep(STREAM_RETRY_DELAY_MS)
+        }
+      }
+    })()
+
+    return () => {
+      stopped = true
+    }
+  }, [projectId, devServerPid, streamLogs])
+}
@@ -0,0 +1,129 @@
+/**
+ * useDiagnostics Hook
+ *
+ * Type and lint problems found by running tsc and ESLint in the sandbox.
+ * They're shown as markers in the editor and counted per file and folder
+ * for the file tree. `check` runs the tools again.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useAction, useQuery } from "convex/react"
+import type * as MonacoApi from "monaco-editor"
+import { api } from "@/convex/_generated/api"
+import { Doc, Id } from "@/convex/_generated/dataModel"
+import { parentPath } from "@/lib/filePaths"
+
+export type ProblemCount = { errors: number; warnings: number }
+
+// Kept apart from the markers of Monaco's own TypeScript service
+const MARKER_OWNER = "sandbox"
+
+export function useDiagnostics(
+  monaco: typeof MonacoApi | null,
+  projectId: Id<"projects">,
+  sandboxId: string | undefined,
+) {
+  const diagnostics = useQuery(api.diagnostics.getDiagnostics, { projectId })
+  const runDiagnostics = useAction(api.sandbox.runDiagnostics)
+  const [isChecking, setIsChecking] = useState(false)
+  const [lastError, setLastError] = useState<string | null>(null)
+
+  // Markers on every file's model, including models created later.
+  // Once set they move with the user's typing until the next check.
+  useEffect(() => {
+    if (!monaco || !diagnostics) return
+
+    const byPath = new Map<string, Doc<"diagnostics">[]>()
+    for (const diagnostic of diagnostics) {
+      byPath.set(diagnostic.path, [
+        ...(byPath.get(diagnostic.path) ?? []),
+        diagnostic,
+      ])
+    }
+
+    const applyMarkers = (model: MonacoApi.editor.ITextModel) => {
+      if (model.uri.scheme !== "file") return
+      const found = byPath.get(model.uri.path.replace(/^\//, "")) ?? []
+      monaco.editor.setModelMarkers(
+        model,
+        MARKER_OWNER,
+        found.map((diagnostic) => ({
+          // An empty range is widened to the word at the position
+          startLineNumber: diagnostic.line,
+          startColumn: diagnostic.column,
+          endLineNumber: diagnostic.endLine ?? diagnostic.line,
+          endColumn: diagnostic.endColumn ?? diagnostic.column,
+          severity:
+            diagnostic.severity === "error"
+              ? monaco.MarkerSeverity.Error
+              : monaco.MarkerSeverity.Warning,
+          message: diagnostic.message,
+          code: diagnostic.code,
+          source: diagnostic.source,
+        })),
+      )
+    }
+
+    monaco.editor.getModels().forEach(applyMarkers)
+    const listener = monaco.editor.onDidCreateModel(applyMarkers)
+    return () => listener.dispose()
+  }, [monaco, diagnostics])
+
+  // Counts per file, with each folder counting everything inside it
+  const problemCounts = useMemo(() => {
+    const counts = new Map<string, ProblemCount>()
+    for (const diagnostic of diagnostics ?? []) {
+      for (let path = diagnostic.path; path; path = parentPath(path)) {
+        const count = counts.get(path) ?? { errors: 0, warnings: 0 }
+        if (diagnostic.severity === "error") {
+          count.errors++
+        } else {
+          count.warnings++
+        }
+        counts.set(path, count)
+      }
+    }
+    return counts
+  }, [diagnostics])
+
+  const check = useCallback(async () => {
+    if (!sandboxId) {
+      setLastError("Start the preview to check for problems")
+      return
+    }
+
+    setIsChecking(true)
+    setLastError(null)
+    try {
+      await runDiagnostics({ projectId, sandboxId })
+    } catch (error) {
+      setLastError(
+        error instanceof Error ? error.message : "Failed to check for problems",
+      )
+      console.error("Failed to check for problems:", error)
+    } finally {
+      setIsChecking(false)
+    }
+  }, [projectId, sandboxId, runDiagnostics])
+
+  const total = (diagnostics ?? []).reduce(
+    (sum, diagnostic) => {
+      if (diagnostic.severity === "error") {
+        sum.errors++
+      } else {
+        sum.warnings++
+      }
+      return sum
+    },
+    { errors: 0, warnings: 0 },
+  )
+
+  return {
+    diagnostics: diagnostics ?? [],
+    problemCounts,
+    total,
+    isChecking,
+    lastError,
+    check,
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * useEditorTabs Hook
+ *
+ * Open files in the code panel's editor, as tabs in one pane or in two
+ * panes side by side. Each pane has its own tabs and active file; files
+ * opened from the tree go to the focused pane.
+ */
+
+import { useState, useCallback } from "react"
+import { isAtOrInside } from "@/lib/filePaths"
+
+export type EditorPane = {
+  tabs: string[]
+  active: string | null
+}
+
+type EditorTabsState = {
+  panes: EditorPane[]
+  focused: number
+}
+
+const MAX_PANES = 2
+
+// Drop panes left without tabs, keeping at least one
+function withoutEmptyPanes(state: EditorTabsState): EditorTabsState {
+  const panes = state.panes.filter((pane) => pane.tabs.length > 0)
+  if (panes.length === state.panes.length) return state
+  if (panes.length === 0) {
+    return { panes: [{ tabs: [], active: null }], focused: 0 }
+  }
+
+  const focused = panes.indexOf(state.panes[state.focused])
+  return { panes, focused: focused === -1 ? 0 : focused }
+}
+
+// Remove tabs from a pane, activating the neighbour of a closed active tab
+function removeTabs(pane: EditorPane, remove: (tab: string) => boolean) {
+  const tabs = pane.tabs.filter((tab) => !remove(tab))
+  if (pane.active === null || !remove(pane.active)) {
+    return { tabs, active: pane.active }
+  }
+
+  const index = pane.tabs.indexOf(pane.active)
+  const next =
+    pane.tabs.slice(index + 1).find((tab) => !remove(tab)) ??
+    pane.tabs
+      .slice(0, index)
+      .reverse()
+      .find((tab) => !remove(tab))
+  return { tabs, active: next ?? null }
+}
+
+export function useEditorTabs() {
+  const [state, setState] = useState<EditorTabsState>({
+    panes: [{ tabs: [], active: null }],
+    focused: 0,
+  })
+
+  /**
+   * Show a file in a pane (the focused one by default), opening a tab
+   * for it after the active tab if it isn't open there yet.
+   */
+  const openFile = useCallback((path: string, paneIndex?: number) => {
+    setState((prev) => {
+      const index = paneIndex ?? prev.focused
+      const panes = prev.panes.map((pane, i) => {
+        if (i !== index) return pane
+        if (pane.tabs.includes(path)) return { ...pane, active: path }
+
+        const at = pane.active ? pane.tabs.indexOf(pane.active) + 1 : 0
+        const tabs = [...pane.tabs.slice(0, at), path, ...pane.tabs.slice(at)]
+        return { tabs, active: path }
+      })
+      return { panes, focused: index }
+    })
+  }, [])
+
+  const closeTab = useCallback((paneIndex: number, path: string) => {
+    setState((prev) =>
+      withoutEmptyPanes({
+        ...prev,
+        panes: prev.panes.map((pane, i) =>
+          i === paneIndex ? removeTabs(pane, (tab) => tab === path) : pane,
+        ),
+      }),
+    )
+  }, [])
+
+  const focusPane = useCallback((paneIndex: number) => {
+    setState((prev) =>
+      prev.focused === paneIndex ? prev : { ...prev, focused: paneIndex },
+    )
+  }, [])
+
+  /**
+   * Open the focused pane's active file in a new pane to its right.
+   */
+  const splitPane = useCallback(() => {
+    setState((prev) => {
+      const active = prev.panes[prev.focused].active
+      if (prev.panes.length >= MAX_PANES || !active) return prev
+
+      return {
+        panes: [...prev.panes, { tabs: [active], active }],
+        focused: prev.panes.length,
+      }
+    })
+  }, [])
+
+  /**
+   * Follow a file or folder that was renamed or moved.
+   */
+  const renamePath = useCallback((fromPath: string, toPath: string) => {
+    const rename = (tab: string) =>
+      isAtOrInside(tab, fromPath) ? toPath + tab.slice(fromPath.length) : tab
+
+    setState((prev) => ({
+      ...prev,
+      panes: prev.panes.map((pane) => ({
+        tabs: pane.tabs.map(rename),
+        active: pane.active === null ? null : rename(pane.active),
+      })),
+    }))
+  }, [])
+
+  /**
+   * Close every tab for a deleted file or folder.
+   */
+  const closePath = useCallback((path: string) => {
+    setState((prev) =>
+      withoutEmptyPanes({
+        ...prev,
+        panes: prev.panes.map((pane) =>
+          removeTabs(pane, (tab) => isAtOrInside(tab, path)),
+        ),
+      }),
+    )
+  }, [])
+
+  return {
+    panes: state.panes,
+    focusedPane: state.focused,
+    activeFile: state.panes[state.focused].active,
+    canSplit: state.panes.length < MAX_PANES,
+    openFile,
+    closeTab,
+    focusPane,
+    splitPane,
+    renamePath,
+    closePath,
+  }
+}
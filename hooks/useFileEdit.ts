@@ -7,20 +7,37 @@
  * Features:
  * - Automatic queuing to prevent race conditions
  * - Version tracking for conflict detection
+ * - Stale writes surface as a conflict to merge instead of overwriting
+ * - Binary files (images, fonts) written from file storage
  * - Error handling with retries
  * - Loading states for UI feedback
  */
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useRef } from "react"
 import { useMutation, useAction } from "convex/react"
 import { api } from "@/convex/_generated/api"
 import { Id } from "@/convex/_generated/dataModel"
 import { fileSyncQueue } from "@/lib/fileSyncQueue"
+import { isFileConflictError, type FileConflict } from "@/convex/fileConflict"
+
+export type FileEditConflict = FileConflict & {
+  // The content that was rejected
+  localContent: string
+}
 
 export type FileEditStatus = {
   isEditing: boolean
   pendingEdits: number
+  // Paths with edits on their way to Convex, once per pending edit
+  pendingPaths: string[]
   lastError: string | null
+  conflict: FileEditConflict | null
+}
+
+// Remove a single occurrence of `item`
+function withoutOne(items: string[], item: string): string[] {
+  const index = items.indexOf(item)
+  return index === -1 ? items : items.filter((_, i) => i !== index)
 }
 
 export function useFileEdit(
@@ -30,17 +47,31 @@ export function useFileEdit(
   const [status, setStatus] = useState<FileEditStatus>({
     isEditing: false,
     pendingEdits: 0,
+    pendingPaths: [],
     lastError: null,
+    conflict: null,
   })
 
+  // Version of our own latest write per path. Edits queued while a write is
+  // in flight are based on it even though the editor hasn't seen it yet.
+  const writtenVersionsRef = useRef(new Map<string, number>())
+
   const updateFileMutation = useMutation(api.files.updateFile)
+  const writeBinaryFileMutation = useMutation(api.files.writeBinaryFile)
   const syncFileAction = useAction(api.sandbox.syncFileToSandbox)
 
   /**
-   * Edit a file with automatic sync to sandbox
+   * Edit a file with automatic sync to sandbox.
+   *
+   * Pass the version the edit was based on to have stale writes rejected;
+   * the conflict is then exposed on `status.conflict`.
    */
   const editFile = useCallback(
-    async (path: string, content: string): Promise<boolean> => {
+    async (
+      path: string,
+      content: string,
+      baseVersion?: number,
+    ): Promise<boolean> => {
       if (!sandboxId) {
         setStatus((prev) => ({
           ...prev,
@@ -53,6 +84,7 @@ export function useFileEdit(
         ...prev,
         isEditing: true,
         pendingEdits: prev.pendingEdits + 1,
+        pendingPaths: [...prev.pendingPaths, path],
         lastError: null,
       }))
 
@@ -67,7 +99,15 @@ export function useFileEdit(
               projectId,
               path: p,
               content: c,
+              expectedVersion:
+                baseVersion === undefined
+                  ? undefined
+                  : Math.max(
+                      baseVersion,
+                      writtenVersionsRef.current.get(p) ?? 0,
+                    ),
             })
+            writtenVersionsRef.current.set(p, result.version)
             return { version: result.version }
           },
           // Sync function (E2B action)
@@ -85,14 +125,27 @@ export function useFileEdit(
           ...prev,
           isEditing: prev.pendingEdits <= 1 ? false : true,
           pendingEdits: Math.max(0, prev.pendingEdits - 1),
+          pendingPaths: withoutOne(prev.pendingPaths, path),
         }))
 
         return result.success
       } catch (error) {
+        if (isFileConflictError(error)) {
+          setStatus((prev) => ({
+            ...prev,
+            isEditing: prev.pendingEdits <= 1 ? false : true,
+            pendingEdits: Math.max(0, prev.pendingEdits - 1),
+            pendingPaths: withoutOne(prev.pendingPaths, path),
+            conflict: { ...error.data, localContent: content },
+          }))
+          return false
+        }
+
         setStatus((prev) => ({
           ...prev,
           isEditing: prev.pendingEdits <= 1 ? false : true,
           pendingEdits: Math.max(0, prev.pendingEdits - 1),
+          pendingPaths: withoutOne(prev.pendingPaths, path),
           lastError:
             error instanceof Error ? error.message : "Failed to edit file",
         }))
@@ -103,6 +156,73 @@ export function useFileEdit(
     [projectId, sandboxId, updateFileMutation, syncFileAction],
   )
 
+  /**
+   * Point a file at a blob in file storage (an upload or an older version)
+   * and write the bytes to the sandbox. Binary files are replaced whole,
+   * so they skip the edit queue and conflict checks.
+   */
+  const writeBinaryFile = useCallback(
+    async (path: string, storageId: Id<"_storage">): Promise<boolean> => {
+      setStatus((prev) => ({
+        ...prev,
+        isEditing: true,
+        pendingEdits: prev.pendingEdits + 1,
+        lastError: null,
+      }))
+
+      try {
+        const { version } = await writeBinaryFileMutation({
+          projectId,
+          path,
+          storageId,
+        })
+        // Without a sandbox the file is written when one is created
+        if (sandboxId) {
+          await syncFileAction({
+            sandboxId,
+            path,
+            content: "",
+            storageId,
+            version,
+          })
+        }
+        return true
+      } catch (error) {
+        setStatus((prev) => ({
+          ...prev,
+          lastError:
+            error instanceof Error ? error.message : "Failed to write file",
+        }))
+        console.error("Binary file write failed:", error)
+        return false
+      } finally {
+        setStatus((prev) => ({
+          ...prev,
+          isEditing: prev.pendingEdits <= 1 ? false : true,
+          pendingEdits: Math.max(0, prev.pendingEdits - 1),
+        }))
+      }
+    },
+    [projectId, sandboxId, writeBinaryFileMutation, syncFileAction],
+  )
+
+  /**
+   * Settle the current conflict. Pass the merged content to save it on top
+   * of the current version, or null to keep the current version as is.
+   */
+  const resolveConflict = useCallback(
+    async (content: string | null): Promise<boolean> => {
+      const conflict = status.conflict
+      if (!conflict) return false
+
+      setStatus((prev) => ({ ...prev, conflict: null }))
+      if (content === null) return true
+
+      return editFile(conflict.path, content, conflict.currentVersion)
+    },
+    [status.conflict, editFile],
+  )
+
   /**
    * Clear any errors
    */
@@ -119,7 +239,9 @@ export function useFileEdit(
 
   return {
     editFile,
+    writeBinaryFile,
     status,
+    resolveConflict,
     clearError,
     getQueueStatus,
   }
@@ -0,0 +1,260 @@
+/**
+ * useFileOperations Hook
+ *
+ * Create, rename/move, duplicate and delete files and folders from the
+ * file tree, restore deleted files, and replace search matches across
+ * files. Each operation updates Convex first and then mirrors the
+ * change in the E2B sandbox, so a rename doesn't leave the old file behind.
+ *
+ * Operations wait for pending edits under the affected path to finish
+ * before running. Without a sandbox only Convex is updated; files are
+ * written when a sandbox is created.
+ */
+
+import { useState, useCallback } from "react"
+import { useMutation, useAction } from "convex/react"
+import { api } from "@/convex/_generated/api"
+import { Id } from "@/convex/_generated/dataModel"
+import { fileSyncQueue } from "@/lib/fileSyncQueue"
+import { isAtOrInside } from "@/lib/filePaths"
+import type { SearchOptions } from "@/convex/search"
+
+export function useFileOperations(
+  projectId: Id<"projects">,
+  sandboxId: string | undefined,
+) {
+  const [lastError, setLastError] = useState<string | null>(null)
+
+  const createFileMutation = useMutation(api.files.createFile)
+  const createFolderMutation = useMutation(api.files.createFolder)
+  const renameFileMutation = useMutation(api.files.renameFile)
+  const renameFolderMutation = useMutation(api.files.renameFolder)
+  const duplicateFileMutation = useMutation(api.files.duplicateFile)
+  const duplicateFolderMutation = useMutation(api.files.duplicateFolder)
+  const deleteFileMutation = useMutation(api.files.deleteFile)
+  const deleteFolderMutation = useMutation(api.files.deleteFolder)
+  const restoreDeletedFileMutation = useMutation(api.files.restoreDeletedFile)
+  const replaceAllMutation = useMutation(api.search.replaceAll)
+
+  const syncFileAction = useAction(api.sandbox.syncFileToSandbox)
+  const createFolderAction = useAction(api.sandbox.createFolderInSandbox)
+  const renameAction = useAction(api.sandbox.renameFileInSandbox)
+  const deleteAction = useAction(api.sandbox.deleteFileFromSandbox)
+
+  /**
+   * Run an operation, surfacing its error on `lastError`.
+   * Resolves to whether it succeeded.
+   */
+  const run = useCallback(
+    async (description: string, operation: () => Promise<void>) => {
+      setLastError(null)
+      try {
+        await operation()
+        return true
+      } catch (error) {
+        setLastError(
+          error instanceof Error ? error.message : `Failed to ${description}`,
+        )
+        console.error(`Failed to ${description}:`, error)
+        return false
+      }
+    },
+    [],
+  )
+
+  const createFile = useCallback(
+    (path: string) =>
+      run("create file", async () => {
+        const { path: created, version } = await createFileMutation({
+          projectId,
+          path,
+        })
+        if (sandboxId) {
+          await syncFileAction({
+            sandboxId,
+            path: created,
+            content: "",
+            version,
+          })
+        }
+      }),
+    [projectId, sandboxId, run, createFileMutation, syncFileAction],
+  )
+
+  const createFolder = useCallback(
+    (path: string) =>
+      run("create folder", async () => {
+        const { path: created } = await createFolderMutation({
+          projectId,
+          path,
+        })
+        if (sandboxId) {
+          await createFolderAction({ sandboxId, path: created })
+        }
+      }),
+    [projectId, sandboxId, run, createFolderMutation, createFolderAction],
+  )
+
+  /**
+   * Rename a file or folder. Moving is a rename to another directory.
+   */
+  const renamePath = useCallback(
+    (fromPath: string, toPath: string, isFolder: boolean) =>
+      run("rename", async () => {
+        await fileSyncQueue.waitFor((p) => isAtOrInside(p, fromPath))
+
+        if (isFolder) {
+          await renameFolderMutation({ projectId, fromPath, toPath })
+        } else {
+          await renameFileMutation({ projectId, fromPath, toPath })
+        }
+        if (sandboxId) {
+          await renameAction({ sandboxId, fromPath, toPath })
+        }
+      }),
+    [
+      projectId,
+      sandboxId,
+      run,
+      renameFileMutation,
+      renameFolderMutation,
+      renameAction,
+    ],
+  )
+
+  const duplicatePath = useCallback(
+    (fromPath: string, toPath: string, isFolder: boolean) =>
+      run("duplicate", async () => {
+        await fileSyncQueue.waitFor((p) => isAtOrInside(p, fromPath))
+
+        const created = isFolder
+          ? (await duplicateFolderMutation({ projectId, fromPath, toPath }))
+              .created
+          : [await duplicateFileMutation({ projectId, fromPath, toPath })]
+
+        if (sandboxId) {
+          if (isFolder) {
+            await createFolderAction({ sandboxId, path: toPath })
+          }
+          for (const file of created) {
+            await syncFileAction({ sandboxId, ...file })
+          }
+        }
+      }),
+    [
+      projectId,
+      sandboxId,
+      run,
+      duplicateFileMutation,
+      duplicateFolderMutation,
+      createFolderAction,
+      syncFileAction,
+    ],
+  )
+
+  const deletePath = useCallback(
+    (path: string, isFolder: boolean) =>
+      run("delete", async () => {
+        await fileSyncQueue.waitFor((p) => isAtOrInside(p, path))
+
+        if (isFolder) {
+          await deleteFolderMutation({ projectId, path })
+        } else {
+          await deleteFileMutation({ projectId, path })
+        }
+        if (sandboxId) {
+          await deleteAction({ sandboxId, path })
+        }
+      }),
+    [
+      projectId,
+      sandboxId,
+      run,
+      deleteFileMutation,
+      deleteFolderMutation,
+      deleteAction,
+    ],
+  )
+
+  /**
+   * Bring back a deleted file with the content of one of its versions.
+   */
+  const restoreDeletedFile = useCallback(
+    (fileVersionId: Id<"fileVersions">) =>
+      run("restore file", async () => {
+        const restored = await restoreDeletedFileMutation({ fileVersionId })
+        if (sandboxId) {
+          await syncFileAction({ sandboxId, ...restored })
+        }
+      }),
+    [sandboxId, run, restoreDeletedFileMutation, syncFileAction],
+  )
+
+  /**
+   * Replace every search match in the given files, as they were at the
+   * given versions. Resolves to the number of replacements, or null if
+   * it failed. Files changed since the search are left alone and reported
+   * on `lastError`.
+   */
+  const replaceAll = useCallback(
+    async (
+      options: SearchOptions,
+      replacement: string,
+      files: { path: string; version: number }[],
+    ): Promise<number | null> => {
+      let count = 0
+      let skipped: string[] = []
+      const succeeded = await run("replace", async () => {
+        const paths = new Set(files.map((file) => file.path))
+        await fileSyncQueue.waitFor((p) => paths.has(p))
+
+        const result = await replaceAllMutation({
+          projectId,
+          options,
+          replacement,
+          files,
+        })
+        count = result.replaced.reduce((sum, file) => sum + file.count, 0)
+        skipped = result.skipped
+
+        if (sandboxId) {
+          for (const file of result.replaced) {
+            await syncFileAction({
+              sandboxId,
+              path: file.path,
+              content: file.content,
+              version: file.version,
+            })
+          }
+        }
+      })
+
+      if (skipped.length > 0) {
+        setLastError(
+          `Skipped files changed since the search: ${skipped.join(", ")}`,
+        )
+      }
+      return succeeded ? count : null
+    },
+    [projectId, sandboxId, run, replaceAllMutation, syncFileAction],
+  )
+
+  /**
+   * Clear any errors
+   */
+  const clearError = useCallback(() => {
+    setLastError(null)
+  }, [])
+
+  return {
+    createFile,
+    createFolder,
+    renamePath,
+    duplicatePath,
+    deletePath,
+    restoreDeletedFile,
+    replaceAll,
+    lastError,
+    clearError,
+  }
+}
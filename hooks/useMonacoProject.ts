@@ -0,0 +1,160 @@
+/**
+ * useMonacoProject Hook
+ *
+ * Gives the editor's TypeScript service the whole project, so diagnostics,
+ * completion, hover and go to definition work across files:
+ * - A Monaco model for every text file, kept in sync with Convex
+ * - Compiler options from the project's tsconfig.json, including paths
+ * - Type declarations of the packages installed in the sandbox
+ *
+ * Go to definition into another file opens it through `onOpenFileAction`.
+ */
+
+import { useEffect, useMemo, useRef } from "react"
+import { useAction } from "convex/react"
+import type * as MonacoApi from "monaco-editor"
+import { api } from "@/convex/_generated/api"
+import type { TypeDeclarations } from "@/convex/typeDeclarations"
+import { getLanguage, type EditorReveal } from "@/components/MonacoEditor"
+import { projectCompilerOptions } from "@/lib/monacoTypeScript"
+
+type ProjectFile = {
+  path: string
+  content: string
+  storageId?: string
+}
+
+// Declarations per sandbox, fetched once - installing packages means a
+// new sandbox
+const declarationsCache = new Map<string, Promise<TypeDeclarations>>()
+
+export function useMonacoProject(
+  monaco: typeof MonacoApi | null,
+  files: ProjectFile[] | undefined,
+  sandboxId: string | undefined,
+  onOpenFileAction: (path: string, location: EditorReveal | null) => void,
+) {
+  const getTypeDeclarations = useAction(api.sandbox.getTypeDeclarations)
+  const onOpenFileRef = useRef(onOpenFileAction)
+  useEffect(() => {
+    onOpenFileRef.current = onOpenFileAction
+  }, [onOpenFileAction])
+
+  const textFiles = useMemo(
+    () => files?.filter((file) => !file.storageId),
+    [files],
+  )
+
+  // Compiler options, applied again only when a tsconfig changes
+  const configs = (textFiles ?? [])
+    .filter((file) => /(^|\/)tsconfig[^/]*\.json$/.test(file.path))
+    .map((file) => `${file.path}\n${file.content}`)
+    .join("\n")
+  useEffect(() => {
+    if (!monaco || !textFiles) return
+    const ts = monaco.typescript
+    const options = projectCompilerOptions(ts, textFiles)
+    ts.typescriptDefaults.setCompilerOptions(options)
+    ts.javascriptDefaults.setCompilerOptions(options)
+    // Files that aren't open still need to reach the service for imports
+    ts.typescriptDefaults.setEagerModelSync(true)
+    ts.javascriptDefaults.setEagerModelSync(true)
+    // Only the config files matter; other edits leave the options as they are
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [monaco, configs])
+
+  // A model per file. Models shown in an editor are left to it, so unsaved
+  // typing isn't replaced.
+  useEffect(() => {
+    if (!monaco || !textFiles) return
+    const paths = new Set<string>()
+    for (const file of textFiles) {
+      const uri = monaco.Uri.parse(file.path)
+      paths.add(uri.toString())
+      const model = monaco.editor.getModel(uri)
+      if (!model) {
+        monaco.editor.createModel(file.content, getLanguage(file.path), uri)
+      } else if (
+        !model.isAttachedToEditor() &&
+        model.getValue() !== file.content
+      ) {
+        model.setValue(file.content)
+      }
+    }
+
+    // Models of deleted and renamed files
+    monaco.editor.getModels().forEach((model) => {
+      if (model.uri.scheme === "file" && !paths.has(model.uri.toString())) {
+        model.dispose()
+      }
+    })
+  }, [monaco, textFiles])
+
+  // Package types, from the sandbox the project runs in
+  useEffect(() => {
+    if (!monaco || !sandboxId) return
+    let cancelled = false
+
+    let declarations = declarationsCache.get(sandboxId)
+    if (!declarations) {
+      declarations = getTypeDeclarations({ sandboxId })
+      declarationsCache.set(sandboxId, declarations)
+      // Retry next time rather than caching the failure
+      declarations.catch(() => declarationsCache.delete(sandboxId))
+    }
+
+    declarations
+      .then(({ files: libs }) => {
+        if (cancelled) return
+        const ts = monaco.typescript
+        const extraLibs = libs.map((lib) => ({
+          content: lib.content,
+          filePath: `file:///${lib.path}`,
+        }))
+        ts.typescriptDefaults.setExtraLibs(extraLibs)
+        ts.javascriptDefaults.setExtraLibs(extraLibs)
+      })
+      .catch((error) => {
+        console.error("Failed to load type declarations:", error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [monaco, sandboxId, getTypeDeclarations])
+
+  // Go to definition in another project file opens it in a tab
+  useEffect(() => {
+    if (!monaco) return
+    const opener = monaco.editor.registerEditorOpener({
+      openCodeEditor(_source, resource, selectionOrPosition) {
+        if (resource.scheme !== "file") return false
+        const path = resource.path.replace(/^\//, "")
+        if (path.startsWith("node_modules/")) return false
+
+        let location: EditorReveal | null = null
+        if (selectionOrPosition && "startLineNumber" in selectionOrPosition) {
+          const sameLine =
+            selectionOrPosition.startLineNumber ===
+            selectionOrPosition.endLineNumber
+          location = {
+            line: selectionOrPosition.startLineNumber,
+            column: selectionOrPosition.startColumn,
+            length: sameLine
+              ? selectionOrPosition.endColumn - selectionOrPosition.startColumn
+              : 0,
+          }
+        } else if (selectionOrPosition) {
+          location = {
+            line: selectionOrPosition.lineNumber,
+            column: selectionOrPosition.column,
+            length: 0,
+          }
+        }
+        onOpenFileRef.current(path, location)
+        return true
+      },
+    })
+    return () => opener.dispose()
+  }, [monaco])
+}
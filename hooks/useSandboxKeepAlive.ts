@@ -0,0 +1,43 @@
+/**
+ * useSandboxKeepAlive Hook
+ *
+ * Keeps the project's sandbox from being paused while the project is
+ * open, and resumes it when it was. Sandboxes left behind are paused by
+ * the reaper instead of destroyed, so returning to a project picks up
+ * where it left off. Stops while the browser tab is hidden and catches up
+ * as soon as it's shown again.
+ */
+
+import { useEffect } from "react"
+import { useAction } from "convex/react"
+import { api } from "@/convex/_generated/api"
+import { Id } from "@/convex/_generated/dataModel"
+
+// Well within the reaper's idle timeout
+const KEEP_ALIVE_INTERVAL_MS = 2 * 60_000
+
+export function useSandboxKeepAlive(
+  projectId: Id<"projects">,
+  sandboxId: string | undefined,
+) {
+  const keepAlive = useAction(api.sandbox.keepSandboxAlive)
+
+  useEffect(() => {
+    if (!sandboxId) return
+
+    const ping = () => {
+      if (document.visibilityState !== "visible") return
+      keepAlive({ projectId, sandboxId }).catch((err) =>
+        console.error("Failed to keep sandbox alive:", err),
+      )
+    }
+    ping()
+    const timer = setInterval(ping, KEEP_ALIVE_INTERVAL_MS)
+    document.addEventListener("visibilitychange", ping)
+
+    return () => {
+      clearInterval(timer)
+      document.removeEventListener("visibilitychange", ping)
+    }
+  }, [projectId, sandboxId, keepAlive])
+}
@@ -0,0 +1,47 @@
+/**
+ * useSandboxSync Hook
+ *
+ * Keeps Convex up to date with files changed inside the sandbox, like a
+ * lockfile rewritten by `npm install` or code generated by a script, by
+ * pulling them in every few seconds while the project is open. Paused
+ * while the browser tab is hidden.
+ */
+
+import { useEffect } from "react"
+import { useAction } from "convex/react"
+import { api } from "@/convex/_generated/api"
+import { Id } from "@/convex/_generated/dataModel"
+import { sandboxSync } from "@/lib/sandboxSync"
+
+// Time between the end of one pull and the start of the next
+const SYNC_INTERVAL_MS = 10_000
+
+export function useSandboxSync(
+  projectId: Id<"projects">,
+  sandboxId: string | undefined,
+) {
+  const pullFilesAction = useAction(api.sandbox.pullFilesFromSandbox)
+
+  useEffect(() => {
+    if (!sandboxId) return
+    let stopped = false
+    let timer: NodeJS.Timeout | undefined
+
+    const schedule = () => {
+      timer = setTimeout(async () => {
+        if (document.visibilityState === "visible") {
+          await sandboxSync.pull((pendingPaths) =>
+            pullFilesAction({ projectId, sandboxId, pendingPaths }),
+          )
+        }
+        if (!stopped) schedule()
+      }, SYNC_INTERVAL_MS)
+    }
+    schedule()
+
+    return () => {
+      stopped = true
+      clearTimeout(timer)
+    }
+  }, [projectId, sandboxId, pullFilesAction])
+}
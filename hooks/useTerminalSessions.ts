@@ -0,0 +1,222 @@
+/**
+ * useTerminalSessions Hook
+ *
+ * Shells in the project's sandbox for the Terminal tab. Keeps the output
+ * of every running session streaming, sends keystrokes in the order they
+ * were typed, and pulls files a command changed into Convex once its
+ * output settles.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useAction, useMutation, useQuery } from "convex/react"
+import { api } from "@/convex/_generated/api"
+import { Id } from "@/convex/_generated/dataModel"
+import { sandboxSync } from "@/lib/sandboxSync"
+
+// Wait before streaming again after a failure
+const STREAM_RETRY_DELAY_MS = 3000
+
+// Files are pulled once output has been quiet this long after Enter, or
+// this long after Enter at the latest for commands that keep printing
+const PULL_QUIET_MS = 1500
+const PULL_MAX_WAIT_MS = 10_000
+
+type InputQueue = { pending: string; sending: boolean }
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export function useTerminalSessions(
+  projectId: Id<"projects">,
+  sandboxId: string | undefined,
+) {
+  const sessions = useQuery(api.terminalSessions.getTerminalSessions, {
+    projectId,
+  })
+  const createSession = useMutation(api.terminalSessions.createTerminalSession)
+  const streamTerminal = useAction(api.terminal.streamTerminal)
+  const sendInputAction = useAction(api.terminal.sendTerminalInput)
+  const resizeAction = useAction(api.terminal.resizeTerminal)
+  const closeAction = useAction(api.terminal.closeTerminal)
+  const pullFilesAction = useAction(api.sandbox.pullFilesFromSandbox)
+  const [lastError, setLastError] = useState<string | null>(null)
+
+  const streamsRef = useRef(new Map<string, { stopped: boolean }>())
+  const inputQueuesRef = useRef(new Map<string, InputQueue>())
+  const pullRef = useRef<{
+    quietTimer: NodeJS.Timeout
+    maxTimer: NodeJS.Timeout
+  } | null>(null)
+
+  // One streaming loop per running session. Each action streams for a
+  // few minutes and is called again when it hands over.
+  const runningIds = (sessions ?? [])
+    .filter((session) => session.status !== "exited")
+    .map((session) => session._id)
+    .join(",")
+  useEffect(() => {
+    const streams = streamsRef.current
+    const running = new Set(runningIds ? runningIds.split(",") : [])
+
+    for (const [id, stream] of streams) {
+      if (!running.has(id)) {
+        stream.stopped = true
+        streams.delete(id)
+      }
+    }
+
+    for (const id of running) {
+      if (streams.has(id)) continue
+      const stream = { stopped: false }
+      streams.set(id, stream)
+
+      const sessionId = id as Id<"terminalSessions">
+      ;(async () => {
+        while (!stream.stopped) {
+          try {
+            const result = await streamTerminal({ sessionId })
+            if (result.status === "exited") break
+            if (result.status === "busy") {
+              await sleep(Math.max((result.retryAt ?? 0) - Date.now(), 1000))
+            }
+          } catch (error) {
+            console.error(`Terminal session ${sessionId} stream failed:`, error)
+            await sleep(STREAM_RETRY_DELAY_MS)
+          }
+        }
+      })()
+    }
+  }, [runningIds, streamTerminal])
+
+  useEffect(() => {
+    const streams = streamsRef.current
+    return () => {
+      streams.forEach((stream) => (stream.stopped = true))
+      streams.clear()
+      if (pullRef.current) {
+        clearTimeout(pullRef.current.quietTimer)
+        clearTimeout(pullRef.current.maxTimer)
+      }
+    }
+  }, [])
+
+  const pullFiles = useCallback(async () => {
+    if (pullRef.current) {
+      clearTimeout(pullRef.current.quietTimer)
+      clearTimeout(pullRef.current.maxTimer)
+      pullRef.current = null
+    }
+    if (!sandboxId) return
+
+    await sandboxSync.pull((pendingPaths) =>
+      pullFilesAction({ projectId, sandboxId, pendingPaths }),
+    )
+  }, [projectId, sandboxId, pullFilesAction])
+
+  /**
+   * Call when a session prints something. Pushes a pending pull back
+   * until the command has finished printing.
+   */
+  const notifyOutput = useCallback(() => {
+    const pull = pullRef.current
+    if (!pull) return
+    clearTimeout(pull.quietTimer)
+    pull.quietTimer = setTimeout(pullFiles, PULL_QUIET_MS)
+  }, [pullFiles])
+
+  const sendInput = useCallback(
+    (sessionId: Id<"terminalSessions">, data: string) => {
+      // Keystrokes typed while a send is in flight go out together
+      const queues = inputQueuesRef.current
+      const queue = queues.get(sessionId) ?? { pending: "", sending: false }
+      queues.set(sessionId, queue)
+      queue.pending += data
+
+      if (!queue.sending) {
+        queue.sending = true
+        ;(async () => {
+          while (queue.pending) {
+            const batch = queue.pending
+            queue.pending = ""
+            try {
+              await sendInputAction({ sessionId, data: batch })
+            } catch (error) {
+              setLastError(
+                error instanceof Error ? error.message : "Failed to send input",
+              )
+              console.error("Failed to send terminal input:", error)
+            }
+          }
+          queue.sending = false
+        })()
+      }
+
+      // A command was run; it may change files
+      if (data.includes("\r")) {
+        if (pullRef.current) {
+          clearTimeout(pullRef.current.quietTimer)
+          pullRef.current.quietTimer = setTimeout(pullFiles, PULL_QUIET_MS)
+        } else {
+          pullRef.current = {
+            quietTimer: setTimeout(pullFiles, PULL_QUIET_MS),
+            maxTimer: setTimeout(pullFiles, PULL_MAX_WAIT_MS),
+          }
+        }
+      }
+    },
+    [sendInputAction, pullFiles],
+  )
+
+  const resize = useCallback(
+    async (sessionId: Id<"terminalSessions">, cols: number, rows: number) => {
+      try {
+        await resizeAction({ sessionId, cols, rows })
+      } catch (error) {
+        console.error("Failed to resize terminal:", error)
+      }
+    },
+    [resizeAction],
+  )
+
+  /**
+   * Start a shell in the sandbox. Resolves to the new session.
+   */
+  const openSession = useCallback(
+    async (cols: number, rows: number) => {
+      if (!sandboxId) return null
+      setLastError(null)
+      try {
+        return await createSession({ projectId, sandboxId, cols, rows })
+      } catch (error) {
+        setLastError(
+          error instanceof Error ? error.message : "Failed to open terminal",
+        )
+        return null
+      }
+    },
+    [projectId, sandboxId, createSession],
+  )
+
+  const closeSession = useCallback(
+    async (sessionId: Id<"terminalSessions">) => {
+      inputQueuesRef.current.delete(sessionId)
+      try {
+        await closeAction({ sessionId })
+      } catch (error) {
+        setLastError(
+          error instanceof Error ? error.message : "Failed to close terminal",
+        )
+      }
+    },
+    [closeAction],
+  )
+
+  return {
+    sessions,
+    openSession,
+    closeSession,
+    sendInput,
+    resize,
+    notifyOutput,
+    lastError,
+  }
+}
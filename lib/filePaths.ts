@@ -0,0 +1,40 @@
+/**
+ * File Paths
+ *
+ * Helpers for the project-relative paths used in the file tree, e.g.
+ * "src/components/Button.tsx". The root is the empty string.
+ */
+
+export function parentPath(path: string): string {
+  return path.split("/").slice(0, -1).join("/")
+}
+
+export function baseName(path: string): string {
+  return path.split("/").pop() ?? path
+}
+
+export function joinPath(parent: string, name: string): string {
+  return parent ? `${parent}/${name}` : name
+}
+
+// Whether `path` is `target` itself or something inside the folder `target`
+export function isAtOrInside(path: string, target: string): boolean {
+  return path === target || path.startsWith(`${target}/`)
+}
+
+/**
+ * A free path next to `path` for a copy of it: "App.tsx" becomes
+ * "App copy.tsx", then "App copy 2.tsx" and so on.
+ */
+export function copyPath(path: string, taken: Set<string>): string {
+  const name = baseName(path)
+  const dot = name.lastIndexOf(".")
+  const [stem, extension] =
+    dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""]
+
+  for (let n = 1; ; n++) {
+    const suffix = n === 1 ? " copy" : ` copy ${n}`
+    const candidate = joinPath(parentPath(path), stem + suffix + extension)
+    if (!taken.has(candidate)) return candidate
+  }
+}
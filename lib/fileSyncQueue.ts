@@ -7,8 +7,12 @@
  * - Deduplication: Multiple edits to same file are batched (latest wins)
  * - Retry logic: Failed syncs are retried with exponential backoff
  * - Error handling: Failures don't block other files
+ * - Conflicts: Stale writes rejected by Convex fail immediately, without retries
+ * - Waiting: File operations can wait for pending edits under a path to land
  */
 
+import { isFileConflictError } from "@/convex/fileConflict"
+
 type SyncOperation = {
   path: string
   content: string
@@ -127,6 +131,14 @@ class FileSyncQueue {
         queue.shift()
         item.resolve({ success: true, version })
       } catch (error) {
+        // Retrying a stale write can never succeed - hand the conflict
+        // back to the caller untouched so it can be merged
+        if (isFileConflictError(error)) {
+          queue.shift()
+          item.reject(error)
+          continue
+        }
+
         // Handle failure
         item.operation.retries++
 
@@ -164,6 +176,16 @@ class FileSyncQueue {
     }
   }
 
+  /**
+   * Wait until no queued edit matches. File operations call this first so
+   * a rename or delete doesn't race an edit still on its way to Convex.
+   */
+  async waitFor(matches: (path: string) => boolean): Promise<void> {
+    while (Array.from(this.queues.keys()).some(matches)) {
+      await new Promise((resolve) => setTimeout(resolve, 50))
+    }
+  }
+
   /**
    * Get the current queue status for debugging
    */
@@ -0,0 +1,167 @@
+/**
+ * Monaco TypeScript
+ *
+ * Compiler options for the editor's TypeScript service, read from the
+ * project's tsconfig.json. Settings in configs it extends or references
+ * (e.g. Vite's tsconfig.app.json) are picked up too.
+ */
+
+import type * as MonacoApi from "monaco-editor"
+
+type TypeScriptApi = typeof MonacoApi.typescript
+
+type ProjectFile = { path: string; content: string }
+
+// The tsconfig.json settings the editor applies
+type ConfigOptions = {
+  jsx?: string
+  strict?: boolean
+  checkJs?: boolean
+  // Project-relative, like the file tree's paths
+  baseUrl?: string
+  paths?: Record<string, string[]>
+  types?: string[]
+}
+
+type TsConfig = {
+  extends?: unknown
+  references?: { path?: string }[]
+  compilerOptions?: ConfigOptions
+}
+
+// Bundler resolution isn't in Monaco's enum, but its TypeScript supports it
+const MODULE_RESOLUTION_BUNDLER = 100
+
+/**
+ * Parse JSON with comments and trailing commas, as tsconfig files allow.
+ * Throws on invalid JSON.
+ */
+export function parseJsonc(text: string): unknown {
+  let json = ""
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char === '"') {
+      // Copy strings whole, so "//" in a path isn't taken for a comment
+      let end = i + 1
+      while (end < text.length && text[end] !== '"') {
+        end += text[end] === "\\" ? 2 : 1
+      }
+      json += text.slice(i, end + 1)
+      i = end
+    } else if (char === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++
+      json += "\n"
+    } else if (char === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2)
+      i = end === -1 ? text.length : end + 1
+    } else {
+      json += char
+    }
+  }
+  return JSON.parse(json.replace(/,(\s*[}\]])/g, "$1"))
+}
+
+// Resolve a path relative to a project folder, e.g. ("", "./src") -> "src"
+function resolvePath(dir: string, relative: string): string {
+  const segments = dir ? dir.split("/") : []
+  for (const segment of relative.split("/")) {
+    if (segment === "..") {
+      segments.pop()
+    } else if (segment && segment !== ".") {
+      segments.push(segment)
+    }
+  }
+  return segments.join("/")
+}
+
+function configPath(dir: string, reference: string): string {
+  const path = resolvePath(dir, reference)
+  return path.endsWith(".json") ? path : resolvePath(path, "tsconfig.json")
+}
+
+function readConfig(
+  contents: Map<string, string>,
+  path: string,
+  seen: Set<string>,
+): ConfigOptions {
+  if (seen.has(path)) return {}
+  seen.add(path)
+
+  const content = contents.get(path)
+  if (content === undefined) return {}
+  let config: TsConfig
+  try {
+    config = parseJsonc(content) as TsConfig
+  } catch {
+    // Being edited - the editor reports the syntax error itself
+    return {}
+  }
+
+  const dir = path.split("/").slice(0, -1).join("/")
+  // Package configs (e.g. "@tsconfig/node20") aren't project files
+  const base =
+    typeof config.extends === "string" && config.extends.startsWith(".")
+      ? readConfig(contents, configPath(dir, config.extends), seen)
+      : {}
+
+  // The first reference wins, which for Vite is the app's own config
+  const referenced = (config.references ?? [])
+    .filter((reference) => typeof reference.path === "string")
+    .map((reference) =>
+      readConfig(contents, configPath(dir, reference.path!), seen),
+    )
+    .reverse()
+
+  const own = { ...config.compilerOptions }
+  if (typeof own.baseUrl === "string") {
+    own.baseUrl = resolvePath(dir, own.baseUrl)
+  } else if (own.paths) {
+    // Without a baseUrl, paths are relative to the config itself
+    own.baseUrl = dir
+  }
+
+  return Object.assign({}, base, ...referenced, own)
+}
+
+/**
+ * Compiler options for a project, from its tsconfig.json if it has one.
+ * Options that only matter for emitting are left out; the editor only
+ * type-checks.
+ */
+export function projectCompilerOptions(
+  ts: TypeScriptApi,
+  files: ProjectFile[],
+): MonacoApi.typescript.CompilerOptions {
+  const contents = new Map(files.map((file) => [file.path, file.content]))
+  const options = readConfig(contents, "tsconfig.json", new Set())
+
+  const jsxEmit: Record<string, MonacoApi.typescript.JsxEmit> = {
+    preserve: ts.JsxEmit.Preserve,
+    react: ts.JsxEmit.React,
+    "react-jsx": ts.JsxEmit.ReactJSX,
+    "react-jsxdev": ts.JsxEmit.ReactJSXDev,
+    "react-native": ts.JsxEmit.ReactNative,
+  }
+
+  return {
+    target: ts.ScriptTarget.ESNext,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution:
+      MODULE_RESOLUTION_BUNDLER as MonacoApi.typescript.ModuleResolutionKind,
+    jsx: jsxEmit[options.jsx?.toLowerCase() ?? ""] ?? ts.JsxEmit.ReactJSX,
+    strict: options.strict ?? false,
+    allowJs: true,
+    checkJs: options.checkJs ?? false,
+    allowNonTsExtensions: true,
+    esModuleInterop: true,
+    allowSyntheticDefaultImports: true,
+    resolveJsonModule: true,
+    isolatedModules: true,
+    skipLibCheck: true,
+    noEmit: true,
+    // Models live at file:///<project path>
+    baseUrl: `file:///${options.baseUrl ?? ""}`,
+    paths: options.paths,
+    types: options.types,
+  }
+}
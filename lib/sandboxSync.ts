@@ -0,0 +1,52 @@
+/**
+ * Sandbox Sync
+ *
+ * Runs pulls of sandbox-side changes into Convex one at a time. Pulls are
+ * asked for by the periodic sync and by the terminal after a command; one
+ * asked for while another runs goes once it's done, so overlapping pulls
+ * never race each other's writes and deletes.
+ *
+ * Each pull is told which files still have edits in the file sync queue,
+ * so the sandbox copy can't overwrite what was just typed.
+ */
+
+import { fileSyncQueue } from "@/lib/fileSyncQueue"
+
+type PullFn = (pendingPaths: string[]) => Promise<unknown>
+
+class SandboxSync {
+  // The pull loop, while one is running
+  private running: Promise<void> | null = null
+
+  // Latest pull asked for while the loop was busy
+  private next: PullFn | null = null
+
+  /**
+   * Pull now, or right after the pull in progress. Failures are logged;
+   * the next pull picks up whatever this one missed.
+   */
+  pull(pullFn: PullFn): Promise<void> {
+    if (this.running) {
+      this.next = pullFn
+      return this.running
+    }
+
+    this.running = (async () => {
+      let current: PullFn | null = pullFn
+      while (current) {
+        this.next = null
+        try {
+          await current(fileSyncQueue.getStatus().queuedFiles)
+        } catch (error) {
+          console.error("Failed to pull files from sandbox:", error)
+        }
+        current = this.next
+      }
+      this.running = null
+    })()
+    return this.running
+  }
+}
+
+// Export singleton instance
+export const sandboxSync = new SandboxSync()
@@ -0,0 +1,163 @@
+/**
+ * Three-Way Merge
+ *
+ * Line-based merge of two edits made from the same base. Changes to
+ * different parts of the file are combined; overlapping changes that
+ * differ are wrapped in git-style conflict markers for the user to resolve.
+ */
+
+import { diffArrays } from "diff"
+
+export const CONFLICT_MARKERS = {
+  start: "<<<<<<< Your changes",
+  separator: "=======",
+  end: ">>>>>>> Current version",
+}
+
+// Replacement of base lines [baseStart, baseEnd) with `lines`
+type Edit = {
+  baseStart: number
+  baseEnd: number
+  lines: string[]
+}
+
+function toEdits(base: string[], other: string[]): Edit[] {
+  const edits: Edit[] = []
+  let position = 0
+
+  for (const change of diffArrays(base, other)) {
+    const last = edits[edits.length - 1]
+    // A removal followed by an addition at the same spot is one edit
+    const current =
+      last && last.baseEnd === position && (change.added || change.removed)
+        ? last
+        : null
+
+    if (change.added) {
+      if (current) {
+        current.lines.push(...change.value)
+      } else {
+        edits.push({
+          baseStart: position,
+          baseEnd: position,
+          lines: [...change.value],
+        })
+      }
+    } else if (change.removed) {
+      if (current) {
+        current.baseEnd += change.count
+      } else {
+        edits.push({
+          baseStart: position,
+          baseEnd: position + change.count,
+          lines: [],
+        })
+      }
+      position += change.count
+    } else {
+      position += change.count
+    }
+  }
+
+  return edits
+}
+
+/**
+ * Apply one side's edits to the base range [start, end).
+ */
+function applyEdits(
+  base: string[],
+  start: number,
+  end: number,
+  edits: Edit[],
+): string[] {
+  const result: string[] = []
+  let position = start
+  for (const edit of edits) {
+    result.push(...base.slice(position, edit.baseStart), ...edit.lines)
+    position = edit.baseEnd
+  }
+  result.push(...base.slice(position, end))
+  return result
+}
+
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+): { content: string; conflicts: number } {
+  const baseLines = base.split("\n")
+  const ourEdits = toEdits(baseLines, ours.split("\n"))
+  const theirEdits = toEdits(baseLines, theirs.split("\n"))
+
+  const result: string[] = []
+  let conflicts = 0
+  let position = 0
+  let i = 0
+  let j = 0
+
+  while (i < ourEdits.length || j < theirEdits.length) {
+    // Start a region at the earliest edit, then pull in every edit from
+    // either side that overlaps it
+    const first =
+      j >= theirEdits.length ||
+      (i < ourEdits.length && ourEdits[i].baseStart <= theirEdits[j].baseStart)
+        ? ourEdits[i]
+        : theirEdits[j]
+    const start = first.baseStart
+    let end = first.baseEnd
+    const ours: Edit[] = []
+    const theirs: Edit[] = []
+
+    const overlaps = (edit: Edit) =>
+      edit.baseStart < end || edit.baseStart === start
+    let grew = true
+    while (grew) {
+      grew = false
+      while (i < ourEdits.length && overlaps(ourEdits[i])) {
+        end = Math.max(end, ourEdits[i].baseEnd)
+        ours.push(ourEdits[i++])
+        grew = true
+      }
+      while (j < theirEdits.length && overlaps(theirEdits[j])) {
+        end = Math.max(end, theirEdits[j].baseEnd)
+        theirs.push(theirEdits[j++])
+        grew = true
+      }
+    }
+
+    result.push(...baseLines.slice(position, start))
+
+    const ourLines = applyEdits(baseLines, start, end, ours)
+    const theirLines = applyEdits(baseLines, start, end, theirs)
+
+    if (theirs.length === 0 || ourLines.join("\n") === theirLines.join("\n")) {
+      result.push(...ourLines)
+    } else if (ours.length === 0) {
+      result.push(...theirLines)
+    } else {
+      conflicts++
+      result.push(
+        CONFLICT_MARKERS.start,
+        ...ourLines,
+        CONFLICT_MARKERS.separator,
+        ...theirLines,
+        CONFLICT_MARKERS.end,
+      )
+    }
+
+    position = end
+  }
+
+  result.push(...baseLines.slice(position))
+  return { content: result.join("\n"), conflicts }
+}
+
+export function hasConflictMarkers(content: string): boolean {
+  return content
+    .split("\n")
+    .some(
+      (line) =>
+        line === CONFLICT_MARKERS.start || line === CONFLICT_MARKERS.end,
+    )
+}
@@ -2,9 +2,12 @@
 
 /**
  * Import template from GitHub repository
- * Fetches all files from aadithya2112/code-agent-react-starter and generates convex/templates.ts
+ * Fetches all files from aadithya2112/code-agent-react-starter and generates
+ * the Vite React starter in convex/starters/viteReact.ts
  */
 
+import { shouldIgnore } from "../convex/importFilters"
+
 const REPO_OWNER = "aadithya2112"
 const REPO_NAME = "code-agent-react-starter"
 const BRANCH = "main"
@@ -30,24 +33,6 @@ interface FileItem {
   content: string
 }
 
-// Files and directories to ignore
-const IGNORE_PATTERNS = [
-  /^\.git/,
-  /^node_modules/,
-  /^\.next/,
-  /^dist/,
-  /^build/,
-  /\.lock$/,
-  /^package-lock\.json$/,
-  /^yarn\.lock$/,
-  /^bun\.lockb$/,
-  /\.(png|jpg|jpeg|gif|ico|svg|woff|woff2|ttf|eot)$/i,
-]
-
-function shouldIgnore(path: string): boolean {
-  return IGNORE_PATTERNS.some((pattern) => pattern.test(path))
-}
-
 async function fetchGitHubTree(): Promise<GitHubTreeItem[]> {
   const url = `https://api.github.com/repos/${REPO_OWNER}/${REPO_NAME}/git/trees/${BRANCH}?recursive=1`
 
@@ -152,29 +137,14 @@ function generateTemplateFile(files: FileItem[]): string {
     )
     .join(",\n")
 
-  return `"use node";
-
-import { action } from "./_generated/server";
-
-interface FileItem {
-  path: string;
-  content: string;
-}
+  return `import type { StarterFile } from "../templateRegistry"
 
 // Template files imported from https://github.com/${REPO_OWNER}/${REPO_NAME}
 // Last updated: ${new Date().toISOString()}
 // Total files: ${files.length}
-const TEMPLATE_FILES: FileItem[] = [
-${fileItems}
-];
-
-export const cloneTemplate = action({
-  args: {},
-  handler: async (): Promise<FileItem[]> => {
-    console.log(\`Returning \${TEMPLATE_FILES.length} static template files\`);
-    return TEMPLATE_FILES;
-  },
-});
+export const VITE_REACT_FILES: StarterFile[] = [
+${fileItems},
+]
 `
 }
 
@@ -192,15 +162,20 @@ async function main() {
       throw new Error("No files were downloaded!")
     }
 
-    // Generate new templates.ts content
-    console.log("\n📝 Generating convex/templates.ts...")
+    // Generate new starter content
+    console.log("\n📝 Generating convex/starters/viteReact.ts...")
     const templateContent = generateTemplateFile(files)
 
     // Write to file
     const fs = await import("fs")
     const path = await import("path")
 
-    const outputPath = path.join(process.cwd(), "convex", "templates.ts")
+    const outputPath = path.join(
+      process.cwd(),
+      "convex",
+      "starters",
+      "viteReact.ts",
+    )
 
     fs.writeFileSync(outputPath, templateContent, "utf-8")
 